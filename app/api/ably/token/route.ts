@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { createAblyTokenRequest } from '@/lib/ably/token';
+
+// GET - Signed Ably token request scoped to the caller's channels (used as the client authUrl)
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const tokenRequest = await createAblyTokenRequest(user);
+
+    return NextResponse.json(tokenRequest, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Error creating Ably token request:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { updateDisputeSchema } from '@/lib/validations';
+import { updateDispute } from '@/lib/disputes';
+
+// PATCH - Investigate, resolve (with an optional refund) or close a dispute
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateDisputeSchema.parse(body);
+
+    const dispute = await updateDispute(params.id, user.id, validatedData);
+
+    return NextResponse.json({ dispute });
+  } catch (error) {
+    console.error('Error updating dispute:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
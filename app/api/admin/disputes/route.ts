@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { listDisputeQueue, DisputeStatus } from '@/lib/disputes';
+
+const DISPUTE_STATUSES: DisputeStatus[] = ['open', 'investigating', 'resolved', 'closed'];
+
+// GET - Dispute investigation queue
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const statuses = (searchParams.get('status') || '')
+      .split(',')
+      .filter((status): status is DisputeStatus => DISPUTE_STATUSES.includes(status as DisputeStatus));
+
+    const disputes = await listDisputeQueue(statuses.length > 0 ? statuses : undefined);
+
+    return NextResponse.json({ disputes });
+  } catch (error) {
+    console.error('Error fetching dispute queue:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
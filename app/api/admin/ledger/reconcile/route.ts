@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { ledgerReconciliations } from '@/lib/db/schema';
+import { desc } from 'drizzle-orm';
+import { z } from 'zod';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { reconcileLedger, backfillOpeningBalances } from '@/lib/ledger';
+
+const reconcileSchema = z.object({
+  backfill: z.boolean().optional().default(false),
+});
+
+// GET - Recent reconciliation reports
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10'), 50);
+
+    const reports = await db.query.ledgerReconciliations.findMany({
+      orderBy: [desc(ledgerReconciliations.createdAt)],
+      limit,
+    });
+
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error('Error fetching reconciliation reports:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Run a reconciliation now, optionally posting opening balances first
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { backfill } = reconcileSchema.parse(body);
+
+    const openingBalancesPosted = backfill ? await backfillOpeningBalances() : 0;
+    const report = await reconcileLedger();
+
+    return NextResponse.json({ report, openingBalancesPosted });
+  } catch (error) {
+    console.error('Error running reconciliation:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { marketplaceFeeSchema } from '@/lib/validations';
+import { getMarketplaceFeePercentage, setMarketplaceFeePercentage } from '@/lib/marketplace';
+
+// GET - Current marketplace fee on product sales
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const feePercentage = await getMarketplaceFeePercentage();
+
+    return NextResponse.json({ feePercentage });
+  } catch (error) {
+    console.error('Error fetching marketplace fee:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change the marketplace fee for future sales
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { feePercentage } = marketplaceFeeSchema.parse(body);
+
+    await setMarketplaceFeePercentage(feePercentage, user.id);
+
+    return NextResponse.json({ feePercentage });
+  } catch (error) {
+    console.error('Error updating marketplace fee:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { refundOrder } from '@/lib/shop';
+
+// POST - Refund a paid shop order in full
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const order = await refundOrder(params.id);
+
+    return NextResponse.json({ order });
+  } catch (error) {
+    console.error('Error refunding order:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
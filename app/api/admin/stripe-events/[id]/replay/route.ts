@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { stripeEvents } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { replayStripeEvent } from '@/lib/stripe';
+
+// POST - Re-run a failed Stripe webhook event
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const storedEvent = await db.query.stripeEvents.findFirst({
+      where: eq(stripeEvents.id, params.id),
+    });
+
+    if (!storedEvent) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    if (storedEvent.status === 'processed') {
+      return NextResponse.json(
+        { error: 'Event was already processed' },
+        { status: 400 }
+      );
+    }
+
+    let replayed = false;
+    let replayError: string | null = null;
+
+    try {
+      replayed = await replayStripeEvent(storedEvent.id);
+    } catch (error) {
+      replayError = error instanceof Error ? error.message : 'Replay failed';
+    }
+
+    const updatedEvent = await db.query.stripeEvents.findFirst({
+      where: eq(stripeEvents.id, storedEvent.id),
+      columns: {
+        id: true,
+        type: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        processedAt: true,
+        updatedAt: true,
+      },
+    });
+
+    if (replayError) {
+      return NextResponse.json(
+        { error: replayError, event: updatedEvent },
+        { status: 500 }
+      );
+    }
+
+    if (!replayed) {
+      return NextResponse.json(
+        { error: 'Event is currently being processed', event: updatedEvent },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ event: updatedEvent });
+  } catch (error) {
+    console.error('Error replaying Stripe event:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
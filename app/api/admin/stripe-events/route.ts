@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { stripeEvents } from '@/lib/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+
+// GET - Stored Stripe webhook events, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_payments')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+    const offset = (page - 1) * limit;
+
+    const events = await db.query.stripeEvents.findMany({
+      where: status ? eq(stripeEvents.status, status) : undefined,
+      columns: {
+        id: true,
+        type: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        processedAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: [desc(stripeEvents.createdAt)],
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      events,
+      pagination: {
+        page,
+        limit,
+        hasMore: events.length === limit,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching Stripe events:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
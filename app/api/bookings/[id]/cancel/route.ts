@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { cancelBookingSchema } from '@/lib/validations';
+import { cancelBooking } from '@/lib/bookings';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { reason } = cancelBookingSchema.parse(body);
+
+    const booking = await cancelBooking(params.id, user.id, reason);
+
+    return NextResponse.json({
+      booking,
+      cancellationFee: parseFloat(booking.cancellationFee || '0'),
+    });
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      const status = error.message === 'Booking not found' ? 404 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
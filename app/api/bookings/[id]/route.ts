@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users, bookings } from '@/lib/db/schema';
+import { eq, and, or } from 'drizzle-orm';
+import { getCancellationFee } from '@/lib/bookings';
+
+// GET - A booking, with the fee cancelling it now would cost
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const booking = await db.query.bookings.findFirst({
+      where: and(
+        eq(bookings.id, params.id),
+        or(eq(bookings.clientId, user.id), eq(bookings.readerId, user.id))
+      ),
+      with: {
+        client: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            profileImage: true,
+          },
+        },
+        reader: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            profileImage: true,
+          },
+          with: {
+            readerProfile: {
+              columns: {
+                displayName: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      booking,
+      cancellationFee: booking.status === 'confirmed' ? getCancellationFee(booking, user.id) : 0,
+    });
+  } catch (error) {
+    console.error('Error fetching booking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
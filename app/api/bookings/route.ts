@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users, bookings } from '@/lib/db/schema';
+import { eq, and, or, gte, asc } from 'drizzle-orm';
+import { z } from 'zod';
+import { createBookingSchema } from '@/lib/validations';
+import { createBooking } from '@/lib/bookings';
+
+// GET - The current user's bookings, as client or reader
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as typeof bookings.$inferSelect.status;
+    const upcoming = searchParams.get('upcoming') === 'true';
+
+    const userBookings = await db.query.bookings.findMany({
+      where: and(
+        or(eq(bookings.clientId, user.id), eq(bookings.readerId, user.id)),
+        status ? eq(bookings.status, status) : undefined,
+        upcoming ? gte(bookings.startsAt, new Date()) : undefined
+      ),
+      with: {
+        client: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            profileImage: true,
+          },
+        },
+        reader: {
+          columns: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            profileImage: true,
+          },
+          with: {
+            readerProfile: {
+              columns: {
+                displayName: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [asc(bookings.startsAt)],
+      limit: 100,
+    });
+
+    return NextResponse.json({ bookings: userBookings });
+  } catch (error) {
+    console.error('Error fetching bookings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Book a reading slot
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = createBookingSchema.parse(body);
+
+    if (validatedData.readerId === user.id) {
+      return NextResponse.json({ error: 'You cannot book yourself' }, { status: 400 });
+    }
+
+    const booking = await createBooking({
+      clientId: user.id,
+      readerId: validatedData.readerId,
+      type: validatedData.type,
+      startsAt: new Date(validatedData.startsAt),
+      durationMinutes: validatedData.durationMinutes,
+      notes: validatedData.notes,
+    });
+
+    return NextResponse.json({ booking }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating booking:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserCalendar } from '@/lib/calendar';
+
+// GET - Personal iCalendar feed. Calendar apps can't sign in, so the secret
+// token in the URL is the credential.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const calendar = await getUserCalendar(params.token.replace(/\.ics$/, ''));
+
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="soulseer.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReaderCalendar } from '@/lib/calendar';
+
+// GET - Public iCalendar feed of a reader's upcoming streams
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const calendar = await getReaderCalendar(params.id.replace(/\.ics$/, ''));
+
+    if (!calendar) {
+      return NextResponse.json({ error: 'Reader not found' }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="streams.ics"',
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building reader calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getCalendarToken, rotateCalendarToken, getCalendarFeedUrls } from '@/lib/calendar';
+
+// GET - Calendar feed URLs for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const calendarToken = await getCalendarToken(user.id);
+
+    return NextResponse.json(getCalendarFeedUrls(user.id, calendarToken, user.role === 'reader'));
+  } catch (error) {
+    console.error('Error fetching calendar feeds:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Issue a new personal feed URL, revoking the old one
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const calendarToken = await rotateCalendarToken(user.id);
+
+    return NextResponse.json(getCalendarFeedUrls(user.id, calendarToken, user.role === 'reader'));
+  } catch (error) {
+    console.error('Error rotating calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
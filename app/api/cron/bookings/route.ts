@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueBookings } from '@/lib/bookings';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const results = await processDueBookings();
+
+    console.log('Booking processing completed:', results);
+
+    return NextResponse.json({
+      success: true,
+      results,
+    });
+  } catch (error) {
+    console.error('Error in bookings cron job:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to process bookings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual trigger for testing (DELETE in production)
+export async function GET(request: NextRequest) {
+  // Only allow in development
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json(
+      { error: 'Not available in production' },
+      { status: 403 }
+    );
+  }
+
+  return POST(request);
+}
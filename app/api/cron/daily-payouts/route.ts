@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { db } from '@/lib/db';
 import { readerProfiles, transactions, users } from '@/lib/db/schema';
-import { eq, gte } from 'drizzle-orm';
+import { eq, gte, sql } from 'drizzle-orm';
+import { recordPayout } from '@/lib/ledger';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -31,7 +32,7 @@ export async function POST(request: NextRequest) {
         id: readerProfiles.id,
         userId: readerProfiles.userId,
         displayName: readerProfiles.displayName,
-        pendingEarnings: readerProfiles.pendingEarnings,
+        pendingPayout: readerProfiles.pendingPayout,
         stripeAccountId: readerProfiles.stripeAccountId,
         stripeAccountStatus: readerProfiles.stripeAccountStatus,
         user: {
@@ -44,7 +45,7 @@ export async function POST(request: NextRequest) {
       .from(readerProfiles)
       .innerJoin(users, eq(readerProfiles.userId, users.id))
       .where(
-        gte(readerProfiles.pendingEarnings, MINIMUM_PAYOUT_AMOUNT.toFixed(2))
+        gte(readerProfiles.pendingPayout, MINIMUM_PAYOUT_AMOUNT.toFixed(2))
       );
 
     console.log(`Found ${readersForPayout.length} readers eligible for payout`);
@@ -58,7 +59,7 @@ export async function POST(request: NextRequest) {
     // Process each reader's payout
     for (const reader of readersForPayout) {
       try {
-        const pendingAmount = parseFloat(reader.pendingEarnings);
+        const pendingAmount = parseFloat(reader.pendingPayout || '0');
         
         // Skip if below minimum
         if (pendingAmount < MINIMUM_PAYOUT_AMOUNT) {
@@ -100,32 +101,36 @@ export async function POST(request: NextRequest) {
           },
         });
 
-        // Record the transaction
-        await db.insert(transactions).values({
-          userId: reader.userId,
-          type: 'payout',
-          amount: pendingAmount.toFixed(2),
-          currency: 'usd',
-          status: 'pending',
-          stripeTransferId: transfer.id,
-          metadata: JSON.stringify({
-            type: 'daily_payout',
-            transferId: transfer.id,
-            originalPendingAmount: pendingAmount,
-          }),
-          createdAt: new Date(),
+        await db.transaction(async (tx) => {
+          // Record the transaction
+          await tx.insert(transactions).values({
+            userId: reader.userId,
+            type: 'payout',
+            amount: pendingAmount.toFixed(2),
+            currency: 'usd',
+            status: 'pending',
+            stripeTransferId: transfer.id,
+            metadata: JSON.stringify({
+              type: 'daily_payout',
+              transferId: transfer.id,
+              originalPendingAmount: pendingAmount,
+            }),
+            createdAt: new Date(),
+          });
+
+          // Deduct the paid amount rather than zeroing, so earnings credited
+          // while the transfer was in flight aren't lost
+          await tx
+            .update(readerProfiles)
+            .set({
+              pendingPayout: sql`${readerProfiles.pendingPayout} - ${pendingAmount}`,
+              updatedAt: new Date(),
+            })
+            .where(eq(readerProfiles.id, reader.id));
+
+          await recordPayout(tx, reader.userId, pendingAmount, transfer.id);
         });
 
-        // Reset pending earnings to 0
-        await db
-          .update(readerProfiles)
-          .set({
-            pendingEarnings: '0.00',
-            lastPayoutAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(readerProfiles.id, reader.id));
-
         console.log(`✓ Processed payout for ${reader.displayName}: $${pendingAmount}`);
         payoutResults.successful++;
 
@@ -160,7 +165,7 @@ export async function POST(request: NextRequest) {
         failed: payoutResults.failed,
         totalAmount: readersForPayout
           .slice(0, payoutResults.successful)
-          .reduce((sum, reader) => sum + parseFloat(reader.pendingEarnings), 0),
+          .reduce((sum, reader) => sum + parseFloat(reader.pendingPayout || '0'), 0),
       },
     });
 
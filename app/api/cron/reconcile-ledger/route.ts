@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcileLedger } from '@/lib/ledger';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('Starting ledger reconciliation...');
+
+    const report = await reconcileLedger();
+
+    console.log('Ledger reconciliation completed:', {
+      status: report.status,
+      accountsChecked: report.accountsChecked,
+      driftCount: report.driftCount,
+    });
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    console.error('Error in ledger reconciliation cron job:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to reconcile ledger',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual trigger for testing (DELETE in production)
+export async function GET(request: NextRequest) {
+  // Only allow in development
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json(
+      { error: 'Not available in production' },
+      { status: 403 }
+    );
+  }
+
+  return POST(request);
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkActiveSessionsHealth } from '@/lib/readings';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // End sessions whose participants dropped and never came back
+    const ended = await checkActiveSessionsHealth();
+
+    console.log('Session health check completed:', { ended });
+
+    return NextResponse.json({
+      success: true,
+      ended,
+    });
+  } catch (error) {
+    console.error('Error in session health cron job:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to check session health',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual trigger for testing (DELETE in production)
+export async function GET(request: NextRequest) {
+  // Only allow in development
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json(
+      { error: 'Not available in production' },
+      { status: 403 }
+    );
+  }
+
+  return POST(request);
+}
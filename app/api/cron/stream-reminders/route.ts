@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendStreamReminders } from '@/lib/streams';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Remind followers and RSVPs about streams starting soon
+    const reminded = await sendStreamReminders();
+
+    console.log('Stream reminders completed:', { reminded });
+
+    return NextResponse.json({
+      success: true,
+      reminded,
+    });
+  } catch (error) {
+    console.error('Error in stream reminders cron job:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to send stream reminders',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual trigger for testing (DELETE in production)
+export async function GET(request: NextRequest) {
+  // Only allow in development
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json(
+      { error: 'Not available in production' },
+      { status: 403 }
+    );
+  }
+
+  return POST(request);
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncLiveStreamViewers } from '@/lib/streams';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Catch viewers who left without anyone syncing the stream since
+    const synced = await syncLiveStreamViewers();
+
+    console.log('Stream viewer sync completed:', { synced });
+
+    return NextResponse.json({
+      success: true,
+      synced,
+    });
+  } catch (error) {
+    console.error('Error in stream viewer cron job:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to sync stream viewers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual trigger for testing (DELETE in production)
+export async function GET(request: NextRequest) {
+  // Only allow in development
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json(
+      { error: 'Not available in production' },
+      { status: 403 }
+    );
+  }
+
+  return POST(request);
+}
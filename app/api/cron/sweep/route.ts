@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSweep } from '@/lib/sweep';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const report = await runSweep();
+
+    console.log('Sweep completed:', report);
+
+    return NextResponse.json({
+      success: report.errors.length === 0,
+      report,
+    });
+  } catch (error) {
+    console.error('Error in sweep cron job:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run sweep',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual trigger for testing (DELETE in production)
+export async function GET(request: NextRequest) {
+  // Only allow in development
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json(
+      { error: 'Not available in production' },
+      { status: 403 }
+    );
+  }
+
+  return POST(request);
+}
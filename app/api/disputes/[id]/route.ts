@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { getDispute } from '@/lib/disputes';
+
+// GET - A dispute with its transcript, evidence and audit trail
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const dispute = await getDispute(params.id);
+    const isAdmin = hasPermission(user, 'manage_payments');
+
+    if (
+      !dispute ||
+      (!isAdmin && dispute.initiatorId !== user.id && dispute.respondentId !== user.id)
+    ) {
+      return NextResponse.json({ error: 'Dispute not found' }, { status: 404 });
+    }
+
+    if (!isAdmin) {
+      // Internal investigation notes stay with the admins
+      const { adminNotes, events, ...visible } = dispute;
+      return NextResponse.json({
+        dispute: {
+          ...visible,
+          events: events.filter((event) => event.action !== 'notes_updated'),
+        },
+      });
+    }
+
+    return NextResponse.json({ dispute });
+  } catch (error) {
+    console.error('Error fetching dispute:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { removeStreamChatMessageSchema } from '@/lib/validations';
+import { removeStreamChatMessage } from '@/lib/streams';
+
+// DELETE - Hide a chat message (stream host or moderators)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { reason } = removeStreamChatMessageSchema.parse(body);
+
+    const message = await removeStreamChatMessage(params.id, params.messageId, user, reason);
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error('Error removing stream chat message:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { checkRateLimit } from '@/lib/auth';
+import { sendStreamChatSchema } from '@/lib/validations';
+import {
+  STREAM_CHAT_CONFIG,
+  sendStreamChatMessage,
+  getStreamChatMessages,
+} from '@/lib/streams';
+
+// GET - Recent chat history for viewers joining mid-stream
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const messages = await getStreamChatMessages(params.id, user.id);
+
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error('Error fetching stream chat:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Send a chat message to a live stream
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!checkRateLimit(user.id, 'stream-chat', STREAM_CHAT_CONFIG.rateLimit, STREAM_CHAT_CONFIG.rateWindowMs)) {
+      return NextResponse.json(
+        { error: 'You are sending messages too quickly' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = sendStreamChatSchema.parse(body);
+
+    const message = await sendStreamChatMessage(params.id, user.id, validatedData);
+
+    return NextResponse.json({ message }, { status: 201 });
+  } catch (error) {
+    console.error('Error sending stream chat message:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
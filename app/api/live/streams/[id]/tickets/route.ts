@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users, liveStreams } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getStreamAccess, purchaseStreamTicket } from '@/lib/tickets';
+
+// GET - Whether the current user can watch a stream and what a ticket costs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const stream = await db.query.liveStreams.findFirst({
+      where: eq(liveStreams.id, params.id),
+    });
+
+    if (!stream) {
+      return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+    }
+
+    const access = await getStreamAccess(stream, user.id);
+
+    return NextResponse.json(access);
+  } catch (error) {
+    console.error('Error fetching stream access:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Buy a ticket for a stream from the wallet balance
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const ticket = await purchaseStreamTicket(params.id, user.id);
+
+    return NextResponse.json(ticket, { status: 201 });
+  } catch (error) {
+    console.error('Error purchasing stream ticket:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { syncStreamViewers } from '@/lib/streams';
+
+// POST - Reconcile viewers with channel presence after someone joins or leaves
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const viewers = await syncStreamViewers(params.id);
+
+    if (!viewers) {
+      return NextResponse.json({ error: 'Stream is not live' }, { status: 400 });
+    }
+
+    return NextResponse.json(viewers);
+  } catch (error) {
+    console.error('Error syncing stream viewers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
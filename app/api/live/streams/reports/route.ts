@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { listStreamReports } from '@/lib/streams';
+
+// GET - Reports for the current reader's most recent streams
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (user.role !== 'reader') {
+      return NextResponse.json({ error: 'Only readers have stream reports' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '5'), 20);
+
+    const reports = await listStreamReports(user.id, limit);
+
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error('Error fetching stream reports:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { db } from '@/lib/db';
 import { liveStreams, users, readerProfiles } from '@/lib/db/schema';
 import { eq, and, desc, or, like, gte } from 'drizzle-orm';
 import { z } from 'zod';
+import { createLiveStreamSchema } from '@/lib/validations';
+import { scheduleLiveStream } from '@/lib/streams';
 
 const streamSearchSchema = z.object({
   status: z.enum(['live', 'scheduled', 'ended']).optional(),
@@ -39,8 +41,8 @@ export async function GET(request: NextRequest) {
         case 'scheduled':
           whereConditions.push(
             and(
-              eq(liveStreams.isLive, false),
-              gte(liveStreams.scheduledFor, new Date().toISOString())
+              eq(liveStreams.status, 'scheduled'),
+              gte(liveStreams.scheduledAt, new Date())
             )!
           );
           break;
@@ -86,7 +88,6 @@ export async function GET(request: NextRequest) {
         startedAt: liveStreams.startedAt,
         thumbnail: liveStreams.thumbnail,
         agoraChannelName: liveStreams.agoraChannelName,
-        agoraToken: liveStreams.agoraToken,
         createdAt: liveStreams.createdAt,
         reader: {
           id: users.id,
@@ -143,27 +144,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    
-    const streamSchema = z.object({
-      title: z.string().min(1).max(100),
-      description: z.string().optional(),
-      category: z.string(),
-      scheduledFor: z.string().optional(),
-      isPrivate: z.boolean().default(false),
-      isPremium: z.boolean().default(false),
-      price: z.number().optional(),
-    });
-
-    const validation = streamSchema.safeParse(body);
-    
-    if (!validation.success) {
-      return NextResponse.json(
-        { error: 'Invalid request data', details: validation.error.errors },
-        { status: 400 }
-      );
-    }
-
-    const { title, description, category, scheduledFor, isPrivate, isPremium, price } = validation.data;
+    const validatedData = createLiveStreamSchema.parse(body);
 
     // Verify user is a reader
     const user = await db.query.users.findFirst({
@@ -180,30 +161,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate Agora channel name and token
-    const channelName = `stream_${user.id}_${Date.now()}`;
-    // In production, you would generate a proper Agora token
-    const agoraToken = `temp_token_${channelName}`;
-
-    // Create the stream
-    const newStream = await db.insert(liveStreams).values({
-      readerId: user.id,
-      title,
-      description: description || '',
-      category,
-      scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
-      isPrivate,
-      isPremium,
-      price: isPremium ? price : null,
-      agoraChannelName: channelName,
-      agoraToken,
-      status: scheduledFor ? 'scheduled' : 'created',
-      createdAt: new Date(),
-    }).returning();
-
-    return NextResponse.json(newStream[0], { status: 201 });
+    const stream = await scheduleLiveStream(user.id, validatedData);
+
+    return NextResponse.json(stream, { status: 201 });
   } catch (error) {
     console.error('Error creating stream:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
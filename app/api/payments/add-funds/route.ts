@@ -30,12 +30,14 @@ export async function POST(request: NextRequest) {
     const result = await addFundsToClientBalance(
       user.id,
       validatedData.amount,
-      validatedData.paymentMethodId
+      validatedData.paymentMethodId,
+      validatedData.savePaymentMethod
     );
 
     return NextResponse.json({
       success: true,
       paymentIntentId: result.paymentIntent.id,
+      status: result.paymentIntent.status,
       clientSecret: result.paymentIntent.client_secret,
       transactionId: result.transaction.id,
     });
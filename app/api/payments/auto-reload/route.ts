@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users, clientBalances, transactions } from '@/lib/db/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { autoReloadSettingsSchema } from '@/lib/validations';
+import { stripe, getCustomerPaymentMethod } from '@/lib/stripe';
+
+async function getUserWithBalance(clerkId: string) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.clerkId, clerkId),
+    with: {
+      clientBalance: true,
+    },
+  });
+
+  return user;
+}
+
+// GET - Auto-reload settings, the card it charges and any reload awaiting authentication
+export async function GET() {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await getUserWithBalance(userId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const balance = user.clientBalance;
+
+    let paymentMethod = null;
+    if (balance?.defaultPaymentMethodId) {
+      try {
+        const method = await stripe.paymentMethods.retrieve(balance.defaultPaymentMethodId);
+        paymentMethod = {
+          id: method.id,
+          brand: method.card?.brand,
+          last4: method.card?.last4,
+          expMonth: method.card?.exp_month,
+          expYear: method.card?.exp_year,
+        };
+      } catch (error) {
+        console.error('Error retrieving default payment method:', error);
+      }
+    }
+
+    // A reload that failed because the bank asked for 3D Secure can still be
+    // confirmed on-session with its client secret
+    let pendingAuthorization = null;
+    const lastReload = await db.query.transactions.findFirst({
+      where: and(
+        eq(transactions.userId, user.id),
+        eq(transactions.type, 'topup'),
+        sql`${transactions.metadata}->>'autoReload' = 'true'`
+      ),
+      orderBy: [desc(transactions.createdAt)],
+    });
+
+    if (
+      lastReload?.status === 'failed' &&
+      lastReload.failureReason === 'authentication_required' &&
+      lastReload.stripePaymentIntentId
+    ) {
+      const paymentIntent = await stripe.paymentIntents.retrieve(lastReload.stripePaymentIntentId);
+
+      if (['requires_payment_method', 'requires_action', 'requires_confirmation'].includes(paymentIntent.status)) {
+        pendingAuthorization = {
+          transactionId: lastReload.id,
+          paymentIntentId: paymentIntent.id,
+          clientSecret: paymentIntent.client_secret,
+          paymentMethodId: lastReload.paymentMethodId,
+          amount: parseFloat(lastReload.amount),
+        };
+      }
+    }
+
+    return NextResponse.json({
+      enabled: balance?.autoReloadEnabled ?? false,
+      amount: parseFloat(balance?.autoReloadAmount || '20'),
+      threshold: parseFloat(balance?.autoReloadThreshold || '5'),
+      failures: balance?.autoReloadFailures ?? 0,
+      paymentMethod,
+      pendingAuthorization,
+    });
+  } catch (error) {
+    console.error('Error fetching auto-reload settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update auto-reload settings
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = autoReloadSettingsSchema.parse(body);
+
+    const user = await getUserWithBalance(userId);
+
+    if (!user || !user.clientBalance) {
+      return NextResponse.json({ error: 'Balance not found' }, { status: 404 });
+    }
+
+    const balance = user.clientBalance;
+    let defaultPaymentMethodId = balance.defaultPaymentMethodId;
+
+    if (validatedData.paymentMethodId) {
+      // Only cards attached to the client's own Stripe customer can be charged
+      const method = balance.stripeCustomerId
+        ? await getCustomerPaymentMethod(balance.stripeCustomerId, validatedData.paymentMethodId)
+        : null;
+
+      if (!method) {
+        return NextResponse.json(
+          { error: 'Payment method not found' },
+          { status: 404 }
+        );
+      }
+
+      defaultPaymentMethodId = method.id;
+    }
+
+    if (validatedData.enabled && !defaultPaymentMethodId) {
+      return NextResponse.json(
+        { error: 'Save a card before enabling auto-reload' },
+        { status: 400 }
+      );
+    }
+
+    const [updatedBalance] = await db
+      .update(clientBalances)
+      .set({
+        autoReloadEnabled: validatedData.enabled,
+        autoReloadAmount: validatedData.amount.toFixed(2),
+        autoReloadThreshold: validatedData.threshold.toFixed(2),
+        defaultPaymentMethodId,
+        // Turning auto-reload back on starts a fresh failure streak
+        ...(validatedData.enabled ? { autoReloadFailures: 0 } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(clientBalances.id, balance.id))
+      .returning();
+
+    return NextResponse.json({
+      enabled: updatedBalance.autoReloadEnabled,
+      amount: parseFloat(updatedBalance.autoReloadAmount || '0'),
+      threshold: parseFloat(updatedBalance.autoReloadThreshold || '0'),
+      failures: updatedBalance.autoReloadFailures,
+    });
+  } catch (error) {
+    console.error('Error updating auto-reload settings:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
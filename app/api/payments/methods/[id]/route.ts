@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users, clientBalances } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  deletePaymentMethod,
+  getCustomerPaymentMethod,
+  updateDefaultPaymentMethod,
+} from '@/lib/stripe';
+
+const updatePaymentMethodSchema = z.object({
+  isDefault: z.literal(true),
+});
+
+/**
+ * Load the client's balance and the payment method, but only if the method
+ * is attached to the client's own Stripe customer
+ */
+async function getOwnedPaymentMethod(clerkId: string, paymentMethodId: string) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.clerkId, clerkId),
+    with: {
+      clientBalance: true,
+    },
+  });
+
+  const customerId = user?.clientBalance?.stripeCustomerId;
+
+  if (!user?.clientBalance || !customerId) {
+    return null;
+  }
+
+  const paymentMethod = await getCustomerPaymentMethod(customerId, paymentMethodId);
+
+  if (!paymentMethod) {
+    return null;
+  }
+
+  return { balance: user.clientBalance, customerId, paymentMethod };
+}
+
+// PATCH - Make a saved card the default (also used for auto-reload)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    updatePaymentMethodSchema.parse(body);
+
+    const owned = await getOwnedPaymentMethod(userId, params.id);
+
+    if (!owned) {
+      return NextResponse.json({ error: 'Payment method not found' }, { status: 404 });
+    }
+
+    await updateDefaultPaymentMethod(owned.customerId, owned.paymentMethod.id);
+
+    await db
+      .update(clientBalances)
+      .set({
+        defaultPaymentMethodId: owned.paymentMethod.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(clientBalances.id, owned.balance.id));
+
+    return NextResponse.json({ id: owned.paymentMethod.id, isDefault: true });
+  } catch (error) {
+    console.error('Error updating payment method:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a saved card
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const owned = await getOwnedPaymentMethod(userId, params.id);
+
+    if (!owned) {
+      return NextResponse.json({ error: 'Payment method not found' }, { status: 404 });
+    }
+
+    await deletePaymentMethod(owned.paymentMethod.id);
+
+    // Auto-reload can't run without a card to charge
+    if (owned.balance.defaultPaymentMethodId === owned.paymentMethod.id) {
+      await db
+        .update(clientBalances)
+        .set({
+          defaultPaymentMethodId: null,
+          autoReloadEnabled: false,
+          updatedAt: new Date(),
+        })
+        .where(eq(clientBalances.id, owned.balance.id));
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting payment method:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  createSetupIntent,
+  getCustomerPaymentMethods,
+  getOrCreateStripeCustomerId,
+} from '@/lib/stripe';
+
+// GET - Saved cards for the current client
+export async function GET() {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+      with: {
+        clientBalance: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const customerId = user.clientBalance?.stripeCustomerId;
+
+    if (!customerId) {
+      return NextResponse.json([]);
+    }
+
+    const paymentMethods = await getCustomerPaymentMethods(customerId);
+
+    return NextResponse.json(
+      paymentMethods.map((method) => ({
+        id: method.id,
+        type: method.type,
+        card: method.card && {
+          brand: method.card.brand,
+          last4: method.card.last4,
+          exp_month: method.card.exp_month,
+          exp_year: method.card.exp_year,
+        },
+        isDefault: method.id === user.clientBalance?.defaultPaymentMethodId,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching payment methods:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Start saving a new card; the client confirms the SetupIntent with Stripe.js
+export async function POST() {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const customerId = await getOrCreateStripeCustomerId(user.id);
+    const setupIntent = await createSetupIntent(customerId);
+
+    return NextResponse.json({
+      setupIntentId: setupIntent.id,
+      clientSecret: setupIntent.client_secret,
+    });
+  } catch (error) {
+    console.error('Error creating setup intent:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { promotions } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getCurrentUser, hasPermission, AuthUser } from '@/lib/auth';
+import { updatePromotionSchema } from '@/lib/validations';
+import { updatePromotion } from '@/lib/pricing';
+
+/**
+ * Readers can only manage their own promotions; platform-wide ones are admin-only
+ */
+async function getManageablePromotion(user: AuthUser, promotionId: string) {
+  const promotion = await db.query.promotions.findFirst({
+    where: eq(promotions.id, promotionId),
+  });
+
+  if (!promotion || (user.role !== 'admin' && promotion.readerId !== user.id)) {
+    return null;
+  }
+
+  return promotion;
+}
+
+// PATCH - Update a promotion's name, validity window or limits, or pause it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_readings')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = updatePromotionSchema.parse(body);
+
+    if (!(await getManageablePromotion(user, params.id))) {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 });
+    }
+
+    const promotion = await updatePromotion(params.id, input);
+
+    return NextResponse.json({ promotion });
+  } catch (error) {
+    console.error('Error updating promotion:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Deactivate a promotion. Rows are kept because session pricing
+// breakdowns and redemptions refer to them.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_readings')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!(await getManageablePromotion(user, params.id))) {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 });
+    }
+
+    const promotion = await updatePromotion(params.id, { isActive: false });
+
+    return NextResponse.json({ promotion });
+  } catch (error) {
+    console.error('Error deactivating promotion:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { createPromotionSchema } from '@/lib/validations';
+import { createPromotion, listPromotions } from '@/lib/pricing';
+
+// GET - Readers see their own promotions; admins see all, optionally for one reader
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_readings')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const readerId = user.role === 'admin'
+      ? searchParams.get('readerId') || undefined
+      : user.id;
+
+    const promotions = await listPromotions(readerId);
+
+    return NextResponse.json({ promotions });
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a promotion. Readers can only promote themselves; admins can
+// target a reader or, by omitting readerId, the whole platform.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_readings')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { readerId, ...input } = createPromotionSchema.parse(body);
+
+    const promotion = await createPromotion(
+      user.id,
+      user.role === 'admin' ? readerId || null : user.id,
+      input
+    );
+
+    return NextResponse.json({ promotion }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating promotion:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
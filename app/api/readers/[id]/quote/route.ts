@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { quoteReadingPrice } from '@/lib/pricing';
+
+// GET - What the current user would pay this reader right now, with promotions applied
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type') || 'chat';
+    const couponCode = searchParams.get('coupon');
+
+    if (type !== 'chat' && type !== 'voice' && type !== 'video') {
+      return NextResponse.json({ error: 'Invalid reading type' }, { status: 400 });
+    }
+
+    const quote = await quoteReadingPrice({
+      readerId: params.id,
+      clientId: user.id,
+      type,
+      couponCode,
+    });
+
+    return NextResponse.json(quote);
+  } catch (error) {
+    console.error('Error quoting reading price:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAvailableSlots, BOOKING_CONFIG } from '@/lib/bookings';
+
+// GET - Bookable start times for a reader
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const durationMinutes = parseInt(searchParams.get('duration') || '30');
+    const days = parseInt(searchParams.get('days') || '7');
+    const fromParam = searchParams.get('from');
+    const from = fromParam ? new Date(fromParam) : undefined;
+
+    if (!(BOOKING_CONFIG.durations as readonly number[]).includes(durationMinutes)) {
+      return NextResponse.json(
+        { error: `Duration must be one of ${BOOKING_CONFIG.durations.join(', ')} minutes` },
+        { status: 400 }
+      );
+    }
+
+    if (from && isNaN(from.getTime())) {
+      return NextResponse.json({ error: 'Invalid from date' }, { status: 400 });
+    }
+
+    const slots = await getAvailableSlots(params.id, {
+      durationMinutes,
+      from,
+      days: isNaN(days) ? undefined : days,
+    });
+
+    return NextResponse.json({
+      durationMinutes,
+      slots: slots.map((slot) => ({
+        startsAt: slot.startsAt.toISOString(),
+        endsAt: slot.endsAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching reader slots:', error);
+
+    if (error instanceof Error && error.message === 'Reader not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
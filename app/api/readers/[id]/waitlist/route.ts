@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { joinWaitlistSchema } from '@/lib/validations';
+import { getWaitlistEntry, joinWaitlist, leaveWaitlist } from '@/lib/readings';
+
+async function getUser(clerkId: string) {
+  return db.query.users.findFirst({
+    where: eq(users.clerkId, clerkId),
+  });
+}
+
+// GET - The current user's place in the reader's waitlist
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await getUser(userId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const entry = await getWaitlistEntry(user.id, params.id);
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error fetching waitlist entry:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Join the reader's waitlist
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await getUser(userId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { type, couponCode } = joinWaitlistSchema.parse(body);
+
+    const entry = await joinWaitlist({
+      clientId: user.id,
+      readerId: params.id,
+      type,
+      couponCode,
+    });
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Leave the reader's waitlist
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await getUser(userId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const left = await leaveWaitlist(user.id, params.id);
+
+    if (!left) {
+      return NextResponse.json({ error: 'You are not on this waitlist' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,8 @@ import { db } from '@/lib/db';
 import { users, readingSessions, readerProfiles } from '@/lib/db/schema';
 import { eq, and, or } from 'drizzle-orm';
 import { endReadingSessionSchema } from '@/lib/validations';
-import { processReadingPayment } from '@/lib/stripe';
+import { endReadingSession } from '@/lib/billing';
+import { advanceReaderQueue } from '@/lib/readings';
 
 export async function POST(
   request: NextRequest,
@@ -48,30 +49,21 @@ export async function POST(
       return NextResponse.json({ error: 'Session is not active' }, { status: 400 });
     }
 
-    // Calculate session duration and cost
-    const endTime = new Date();
-    const startTime = session.startedAt;
-    const durationInSeconds = Math.floor((endTime.getTime() - startTime!.getTime()) / 1000);
-    const ratePerMinute = parseFloat(session.ratePerMinute);
-    const minutes = Math.ceil(durationInSeconds / 60); // Round up to nearest minute
-    const totalCost = minutes * ratePerMinute;
-
-    // Process payment
-    await processReadingPayment(
-      session.clientId,
-      session.readerId,
+    // Stop metering and settle what was reserved
+    const endedSession = await endReadingSession(
       session.id,
-      totalCost,
-      durationInSeconds
+      session.clientId === user.id ? 'client' : 'reader'
     );
 
-    // Update session
-    const updateData: any = {
-      status: 'completed',
-      endedAt: endTime,
-      duration: durationInSeconds,
-      totalCost: totalCost.toString(),
-    };
+    if (!endedSession) {
+      return NextResponse.json({ error: 'Session is not active' }, { status: 400 });
+    }
+
+    // Offer the reader to the next client in their waitlist
+    await advanceReaderQueue(session.readerId);
+
+    // Save the client's feedback
+    const updateData: any = {};
 
     if (validatedData.rating) {
       updateData.clientRating = validatedData.rating;
@@ -81,17 +73,15 @@ export async function POST(
       updateData.clientReview = validatedData.review;
     }
 
-    const [updatedSession] = await db
-      .update(readingSessions)
-      .set(updateData)
-      .where(eq(readingSessions.id, session.id))
-      .returning();
-
-    // Update reader availability
-    await db
-      .update(readerProfiles)
-      .set({ isAvailable: true })
-      .where(eq(readerProfiles.userId, session.readerId));
+    let updatedSession = endedSession;
+
+    if (Object.keys(updateData).length > 0) {
+      [updatedSession] = await db
+        .update(readingSessions)
+        .set(updateData)
+        .where(eq(readingSessions.id, session.id))
+        .returning();
+    }
 
     // Update reader rating if rating was provided
     if (validatedData.rating) {
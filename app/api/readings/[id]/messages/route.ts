@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users, readingSessions } from '@/lib/db/schema';
+import { eq, and, or } from 'drizzle-orm';
+import { z } from 'zod';
+import { sendSessionMessageSchema } from '@/lib/validations';
+import { saveSessionMessage, getSessionMessages } from '@/lib/transcripts';
+
+// GET - Paginated chat history, most recent page first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const session = await db.query.readingSessions.findFirst({
+      where: and(
+        eq(readingSessions.id, params.id),
+        or(
+          eq(readingSessions.clientId, user.id),
+          eq(readingSessions.readerId, user.id)
+        )
+      ),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+
+    const messages = await getSessionMessages(session.id, { page, limit });
+
+    return NextResponse.json({
+      messages,
+      pagination: {
+        page,
+        limit,
+        hasMore: messages.length === limit,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching session messages:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Send a chat message in an active session
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = sendSessionMessageSchema.parse({ ...body, sessionId: params.id });
+
+    const message = await saveSessionMessage(user.id, validatedData);
+
+    return NextResponse.json({ message }, { status: 201 });
+  } catch (error) {
+    console.error('Error sending session message:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users, readingSessions } from '@/lib/db/schema';
+import { eq, and, or } from 'drizzle-orm';
+import { meterReadingSession } from '@/lib/billing';
+import { advanceReaderQueue, checkSessionHealth } from '@/lib/readings';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+    
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Get user from database
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Only participants can drive the meter
+    const session = await db.query.readingSessions.findFirst({
+      where: and(
+        eq(readingSessions.id, params.id),
+        or(
+          eq(readingSessions.clientId, user.id),
+          eq(readingSessions.readerId, user.id)
+        )
+      ),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    await db
+      .update(users)
+      .set({ lastSeen: new Date() })
+      .where(eq(users.id, user.id));
+
+    // Pause billing while either side is disconnected, and end the session
+    // once the reconnect grace period runs out
+    try {
+      await checkSessionHealth(session.id);
+    } catch (error) {
+      console.error('Failed to check session health:', error);
+    }
+
+    // Cost is always computed from server time, never from the caller
+    const result = await meterReadingSession(session.id);
+
+    // Running out of funds ends the session and frees the reader
+    if (result.endReason === 'insufficient_funds' && session.status === 'active') {
+      await advanceReaderQueue(session.readerId);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error metering reading session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
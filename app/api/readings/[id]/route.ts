@@ -3,6 +3,7 @@ import { auth } from '@clerk/nextjs';
 import { db } from '@/lib/db';
 import { users, readingSessions } from '@/lib/db/schema';
 import { eq, and, or } from 'drizzle-orm';
+import { expireReadingRequests } from '@/lib/readings';
 
 export async function GET(
   request: NextRequest,
@@ -25,14 +26,16 @@ export async function GET(
     }
 
     // Get reading session
-    const session = await db.query.readingSessions.findFirst({
-      where: and(
-        eq(readingSessions.id, params.id),
-        or(
-          eq(readingSessions.clientId, user.id),
-          eq(readingSessions.readerId, user.id)
-        )
-      ),
+    const where = and(
+      eq(readingSessions.id, params.id),
+      or(
+        eq(readingSessions.clientId, user.id),
+        eq(readingSessions.readerId, user.id)
+      )
+    );
+
+    const sessionQuery = () => db.query.readingSessions.findFirst({
+      where,
       with: {
         client: {
           columns: {
@@ -60,10 +63,22 @@ export async function GET(
       },
     });
 
+    let session = await sessionQuery();
+
     if (!session) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    // Time out a request the reader never answered
+    if (
+      session.status === 'pending' &&
+      session.requestExpiresAt &&
+      session.requestExpiresAt <= new Date()
+    ) {
+      await expireReadingRequests();
+      session = (await sessionQuery()) || session;
+    }
+
     return NextResponse.json(session);
   } catch (error) {
     console.error('Error fetching reading session:', error);
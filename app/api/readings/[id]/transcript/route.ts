@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users, readingSessions } from '@/lib/db/schema';
+import { eq, and, or } from 'drizzle-orm';
+import { buildSessionTranscript, formatTranscriptText } from '@/lib/transcripts';
+
+// GET - Download the session transcript as text (default) or JSON
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const session = await db.query.readingSessions.findFirst({
+      where: and(
+        eq(readingSessions.id, params.id),
+        or(
+          eq(readingSessions.clientId, user.id),
+          eq(readingSessions.readerId, user.id)
+        )
+      ),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const transcript = await buildSessionTranscript(session.id);
+
+    if (!transcript) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') === 'json' ? 'json' : 'text';
+    const filename = `reading-${session.id}.${format === 'json' ? 'json' : 'txt'}`;
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(transcript, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const header = [
+      `${transcript.type} reading with ${transcript.reader.name}`,
+      transcript.startedAt ? `Started: ${transcript.startedAt}` : null,
+      transcript.endedAt ? `Ended: ${transcript.endedAt}` : null,
+    ].filter(Boolean).join('\n');
+
+    return new NextResponse(`${header}\n\n${formatTranscriptText(transcript)}\n`, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting session transcript:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
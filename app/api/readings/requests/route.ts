@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getPendingRequests } from '@/lib/readings';
+
+// GET - Requests waiting on the current reader to accept or decline
+export async function GET() {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, userId),
+    });
+
+    if (!user || user.role !== 'reader') {
+      return NextResponse.json({ error: 'Reader not found' }, { status: 404 });
+    }
+
+    // The dashboard polls this, so it doubles as the reader's heartbeat
+    await db
+      .update(users)
+      .set({ lastSeen: new Date() })
+      .where(eq(users.id, user.id));
+
+    const requests = await getPendingRequests(user.id);
+
+    return NextResponse.json({ requests });
+  } catch (error) {
+    console.error('Error fetching reading requests:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redeemDownload } from '@/lib/downloads';
+
+// GET - Follow a signed download link. The signature is the credential, so
+// links keep working from emails and other devices until they expire.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { itemId: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const fileUrl = await redeemDownload({
+      itemId: params.itemId,
+      fileId: searchParams.get('file'),
+      expires: parseInt(searchParams.get('expires') || '', 10),
+      signature: searchParams.get('signature') || '',
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.ip,
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    return NextResponse.redirect(fileUrl);
+  } catch (error) {
+    console.error('Error redeeming download:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { removeProductFile } from '@/lib/downloads';
+
+// DELETE - Detach a file from a digital product
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; fileId: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const files = await removeProductFile(params.id, user, params.fileId);
+
+    return NextResponse.json({ files });
+  } catch (error) {
+    console.error('Error removing product file:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
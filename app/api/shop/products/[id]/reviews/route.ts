@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { productReviewSchema } from '@/lib/validations';
+import { listProductReviews, createProductReview } from '@/lib/reviews';
+
+// GET - A product's reviews, newest or most helpful first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    const { searchParams } = new URL(request.url);
+    const sort = searchParams.get('sort') === 'helpful' ? 'helpful' : 'recent';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+    const reviews = await listProductReviews(params.id, {
+      sort,
+      limit,
+      offset,
+      viewerId: user?.id,
+    });
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Error fetching product reviews:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Review a product
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = productReviewSchema.parse({ ...body, productId: params.id });
+
+    const review = await createProductReview(user.id, validatedData);
+
+    return NextResponse.json({ review }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating product review:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { setHelpfulVote } from '@/lib/reviews';
+
+async function handleVote(reviewId: string, helpful: boolean) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const helpfulCount = await setHelpfulVote(reviewId, user.id, helpful);
+
+    return NextResponse.json({ helpfulCount, votedHelpful: helpful });
+  } catch (error) {
+    console.error('Error voting on product review:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Vote a review helpful
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return handleVote(params.id, true);
+}
+
+// DELETE - Take back a helpful vote
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return handleVote(params.id, false);
+}
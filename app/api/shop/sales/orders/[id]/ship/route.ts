@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { shipOrderSchema } from '@/lib/validations';
+import { shipOrderItems } from '@/lib/fulfilment';
+
+// POST - Mark some or all of the seller's items on an order as shipped
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_products')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = shipOrderSchema.parse(body);
+
+    const result = await shipOrderItems(params.id, user, validatedData);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error shipping order:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
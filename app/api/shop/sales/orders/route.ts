@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { listSellerOrders } from '@/lib/fulfilment';
+
+// GET - The current seller's orders to ship, or the ones already shipped
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_products')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const filter = searchParams.get('status') === 'shipped' ? 'shipped' : 'to_ship';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50);
+
+    const orders = await listSellerOrders(user.id, filter, limit);
+
+    return NextResponse.json({ orders });
+  } catch (error) {
+    console.error('Error fetching seller orders:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { listSellerSales } from '@/lib/marketplace';
+
+// GET - The current seller's product sales and their payout status
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(user, 'manage_products')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50);
+
+    const result = await listSellerSales(user.id, limit);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching product sales:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
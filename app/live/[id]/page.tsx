@@ -19,6 +19,7 @@ import {
   Send,
   Smile,
   Star,
+  Ticket,
   X
 } from 'lucide-react';
 import { ReadingLayout } from '@/components/layout';
@@ -30,6 +31,8 @@ import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { formatCurrency, formatRelativeTime } from '@/lib/utils';
 import { useApi } from '@/lib/hooks';
+import { fetchAgoraToken } from '@/lib/agora';
+import { ablyService, type ChatMessage as AblyChatMessage, type SystemMessage } from '@/lib/ably';
 import { toast } from 'sonner';
 
 interface LiveStreamData {
@@ -51,7 +54,12 @@ interface LiveStreamData {
   isPremium: boolean;
   price?: number;
   agoraChannelName: string;
-  agoraToken: string;
+}
+
+interface StreamAccess {
+  requiresTicket: boolean;
+  price: number;
+  hasAccess: boolean;
 }
 
 interface ChatMessage {
@@ -81,14 +89,54 @@ interface VirtualGift {
   icon: string;
 }
 
+// Ids are the gift types the server prices; keep prices in step with
+// VIRTUAL_GIFT_PRICES in lib/stripe
 const VIRTUAL_GIFTS: VirtualGift[] = [
-  { id: '1', name: 'Crystal Ball', price: 1.99, animation: 'sparkle', icon: '🔮' },
-  { id: '2', name: 'Tarot Cards', price: 4.99, animation: 'cards', icon: '🃏' },
-  { id: '3', name: 'Moon Blessing', price: 9.99, animation: 'moon', icon: '🌙' },
-  { id: '4', name: 'Star Power', price: 19.99, animation: 'stars', icon: '⭐' },
-  { id: '5', name: 'Divine Light', price: 49.99, animation: 'divine', icon: '✨' },
+  { id: 'rose', name: 'Rose', price: 1.00, animation: 'petals', icon: '🌹' },
+  { id: 'crystal', name: 'Crystal Ball', price: 2.50, animation: 'sparkle', icon: '🔮' },
+  { id: 'star', name: 'Star Power', price: 5.00, animation: 'stars', icon: '⭐' },
+  { id: 'moon', name: 'Moon Blessing', price: 10.00, animation: 'moon', icon: '🌙' },
+  { id: 'sun', name: 'Sun Blessing', price: 25.00, animation: 'divine', icon: '☀️' },
+  { id: 'diamond', name: 'Diamond', price: 50.00, animation: 'sparkle', icon: '💎' },
 ];
 
+function toChatMessage(message: AblyChatMessage): ChatMessage {
+  return {
+    id: message.id,
+    user: {
+      id: message.senderId,
+      name: message.senderName,
+      avatar: message.senderAvatar,
+      isReader: !!message.metadata?.isReader,
+    },
+    message: message.content,
+    timestamp: message.timestamp,
+    type: 'message',
+  };
+}
+
+function toGiftMessage(event: SystemMessage): ChatMessage {
+  const gift = VIRTUAL_GIFTS.find(g => g.id === event.data.type);
+  const name = gift?.name || event.data.type;
+
+  return {
+    id: event.data.giftId,
+    user: {
+      id: event.data.senderId,
+      name: event.data.senderName,
+      avatar: event.data.senderAvatar,
+    },
+    message: event.data.quantity > 1 ? `sent ${event.data.quantity}x ${name}` : `sent a ${name}`,
+    timestamp: event.timestamp,
+    type: 'gift',
+    giftData: {
+      name,
+      value: event.data.totalValue,
+      animation: gift?.animation || 'sparkle',
+    },
+  };
+}
+
 export default function LiveStreamPage() {
   const params = useParams();
   const router = useRouter();
@@ -109,6 +157,9 @@ export default function LiveStreamPage() {
   const [showGifts, setShowGifts] = useState(false);
   const [chatMessage, setChatMessage] = useState('');
   const [isLiked, setIsLiked] = useState(false);
+  const [likeCount, setLikeCount] = useState(0);
+  const [viewerCount, setViewerCount] = useState<number | null>(null);
+  const [isPurchasing, setIsPurchasing] = useState(false);
 
   // Data
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
@@ -121,9 +172,13 @@ export default function LiveStreamPage() {
     streamId ? `/api/live/streams/${streamId}` : null
   );
 
+  const { data: access, refetch: refetchAccess } = useApi<StreamAccess>(
+    `/api/live/streams/${streamId}/tickets`
+  );
+
   // Initialize Agora when stream data loads
   useEffect(() => {
-    if (!stream || !user || isJoined) return;
+    if (!stream || !user || !access?.hasAccess || isJoined) return;
 
     const initializeAgora = async () => {
       try {
@@ -131,13 +186,20 @@ export default function LiveStreamPage() {
 
         // Join as audience
         agoraClient.setClientRole('audience');
-        
-        await agoraClient.join(
-          process.env.NEXT_PUBLIC_AGORA_APP_ID!,
-          stream.agoraChannelName,
-          stream.agoraToken,
-          user.id
-        );
+
+        const grant = await fetchAgoraToken({ streamId: stream.id });
+
+        await agoraClient.join(grant.appId, grant.channelName, grant.token, grant.uid);
+
+        // Keep watching past the first token's expiry
+        agoraClient.on('token-privilege-will-expire', async () => {
+          try {
+            const renewed = await fetchAgoraToken({ streamId: stream.id });
+            await agoraClient.renewToken(renewed.token);
+          } catch (error) {
+            console.error('Failed to renew stream token:', error);
+          }
+        });
 
         setIsJoined(true);
 
@@ -159,9 +221,6 @@ export default function LiveStreamPage() {
           setRemoteUsers(prev => prev.filter(u => u.uid !== remoteUser.uid));
         });
 
-        // Send join message to chat
-        await sendChatMessage('', 'join');
-
       } catch (error) {
         console.error('Failed to join stream:', error);
         toast.error('Failed to join stream');
@@ -176,39 +235,119 @@ export default function LiveStreamPage() {
         setIsJoined(false);
       }
     };
-  }, [stream, user, isJoined, agoraClient]);
+  }, [stream, user, access, isJoined, agoraClient]);
+
+  // Chat, gifts and likes arrive over the stream channel once the server
+  // has stored them
+  useEffect(() => {
+    if (!stream || !user || !access?.hasAccess) return;
+
+    let leaveChannel: (() => Promise<void>) | null = null;
+    let cancelled = false;
+
+    // The server counts viewers from channel presence
+    const syncViewers = () =>
+      fetch(`/api/live/streams/${stream.id}/viewers`, { method: 'POST', keepalive: true })
+        .catch((error) => console.error('Failed to sync viewers:', error));
+
+    const joinChat = async () => {
+      try {
+        const [historyResponse, likeResponse] = await Promise.all([
+          fetch(`/api/live/streams/${stream.id}/chat`),
+          fetch(`/api/live/streams/${stream.id}/like`),
+        ]);
+
+        if (historyResponse.ok) {
+          const { messages } = await historyResponse.json();
+          setChatMessages(messages.map((message: any) => ({
+            id: message.id,
+            user: {
+              id: message.sender.id,
+              name: message.sender.firstName || message.sender.username || 'Anonymous',
+              avatar: message.sender.profileImage || undefined,
+              isReader: message.senderId === stream.reader.id,
+            },
+            message: message.content,
+            timestamp: message.createdAt,
+            type: 'message',
+          })));
+        }
+
+        if (likeResponse.ok) {
+          const like = await likeResponse.json();
+          setIsLiked(like.liked);
+          setLikeCount(like.likeCount);
+        }
+
+        const { channel, leave } = await ablyService.joinLiveStream(stream.id, user.id, {
+          name: user.firstName || 'Anonymous',
+          avatar: user.imageUrl,
+          role: 'viewer',
+        });
+
+        if (cancelled) {
+          await leave();
+          return;
+        }
+
+        leaveChannel = async () => {
+          await leave();
+          await syncViewers();
+        };
+
+        await channel.subscribe('chat', (message: { data: AblyChatMessage }) => {
+          setChatMessages(prev => [...prev.filter(m => m.id !== message.data.id), toChatMessage(message.data)]);
+        });
+
+        await channel.subscribe('system', (message: { data: SystemMessage }) => {
+          if (message.data?.type === 'gift_sent') {
+            setChatMessages(prev => [...prev, toGiftMessage(message.data)]);
+          } else if (message.data?.type === 'message_removed') {
+            setChatMessages(prev => prev.filter(m => m.id !== message.data.data.messageId));
+          } else if (message.data?.type === 'like_update') {
+            setLikeCount(message.data.data.likeCount);
+          } else if (message.data?.type === 'viewer_count') {
+            setViewerCount(message.data.data.viewerCount);
+          }
+        });
+
+        await syncViewers();
+      } catch (error) {
+        console.error('Failed to join stream chat:', error);
+      }
+    };
+
+    joinChat();
+
+    return () => {
+      cancelled = true;
+      leaveChannel?.();
+    };
+  }, [stream, user, access]);
 
   // Auto-scroll chat
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
-  const sendChatMessage = async (message: string, type: 'message' | 'join' | 'gift' = 'message') => {
+  const sendChatMessage = async (content: string) => {
     if (!user || !stream) return;
 
-    const newMessage: ChatMessage = {
-      id: Date.now().toString(),
-      user: {
-        id: user.id,
-        name: user.firstName || 'Anonymous',
-        avatar: user.imageUrl,
-      },
-      message: message || (type === 'join' ? 'joined the stream' : ''),
-      timestamp: new Date().toISOString(),
-      type,
-    };
-
-    setChatMessages(prev => [...prev, newMessage]);
-
-    // Send to backend via WebSocket or API
+    // The message shows up in chat when the server relays it back
     try {
-      await fetch(`/api/live/streams/${streamId}/chat`, {
+      const response = await fetch(`/api/live/streams/${streamId}/chat`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message, type }),
+        body: JSON.stringify({ content }),
       });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to send message');
+      }
     } catch (error) {
       console.error('Failed to send message:', error);
+      toast.error('Failed to send message');
     }
   };
 
@@ -225,32 +364,15 @@ export default function LiveStreamPage() {
       const response = await fetch(`/api/live/streams/${streamId}/gift`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ giftId: gift.id }),
+        body: JSON.stringify({ type: gift.id, quantity: 1 }),
       });
 
       if (response.ok) {
-        const giftMessage: ChatMessage = {
-          id: Date.now().toString(),
-          user: {
-            id: user!.id,
-            name: user!.firstName || 'Anonymous',
-            avatar: user!.imageUrl,
-          },
-          message: `sent a ${gift.name}`,
-          timestamp: new Date().toISOString(),
-          type: 'gift',
-          giftData: {
-            name: gift.name,
-            value: gift.price,
-            animation: gift.animation,
-          },
-        };
-
-        setChatMessages(prev => [...prev, giftMessage]);
         setShowGifts(false);
         toast.success(`Sent ${gift.name}!`);
       } else {
-        toast.error('Failed to send gift');
+        const data = await response.json();
+        toast.error(data.error || 'Failed to send gift');
       }
     } catch (error) {
       console.error('Failed to send gift:', error);
@@ -259,16 +381,48 @@ export default function LiveStreamPage() {
   };
 
   const handleToggleLike = async () => {
-    setIsLiked(!isLiked);
-    // Send to backend
+    const liked = !isLiked;
+    setIsLiked(liked);
+
     try {
-      await fetch(`/api/live/streams/${streamId}/like`, {
+      const response = await fetch(`/api/live/streams/${streamId}/like`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ liked: !isLiked }),
+        body: JSON.stringify({ liked }),
       });
+
+      if (!response.ok) {
+        throw new Error('Failed to update like');
+      }
+
+      const like = await response.json();
+      setIsLiked(like.liked);
+      setLikeCount(like.likeCount);
     } catch (error) {
       console.error('Failed to toggle like:', error);
+      setIsLiked(!liked);
+    }
+  };
+
+  const handlePurchaseTicket = async () => {
+    setIsPurchasing(true);
+    try {
+      const response = await fetch(`/api/live/streams/${streamId}/tickets`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        toast.success('Ticket purchased. Enjoy the stream!');
+        await refetchAccess();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to purchase ticket');
+      }
+    } catch (error) {
+      console.error('Failed to purchase ticket:', error);
+      toast.error('Failed to purchase ticket');
+    } finally {
+      setIsPurchasing(false);
     }
   };
 
@@ -309,6 +463,39 @@ export default function LiveStreamPage() {
     );
   }
 
+  if (access && !access.hasAccess) {
+    return (
+      <ReadingLayout>
+        <div className="container mx-auto px-4 py-16 max-w-md">
+          <Card className="border-mystical-pink-500/30">
+            <CardHeader className="text-center">
+              <Ticket className="w-10 h-10 text-mystical-pink-500 mx-auto mb-2" />
+              <CardTitle className="text-2xl font-alex-brush text-mystical-pink-500">
+                {stream.title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              <p className="text-slate-300">
+                {access.price > 0
+                  ? `This is a ticketed stream. Get access for ${formatCurrency(access.price)}, paid from your balance.`
+                  : 'This is a private stream. Ask the host for an invite to watch.'}
+              </p>
+              {access.price > 0 && (
+                <Button
+                  onClick={handlePurchaseTicket}
+                  disabled={isPurchasing}
+                  className="w-full"
+                >
+                  {isPurchasing ? 'Processing...' : `Buy Ticket - ${formatCurrency(access.price)}`}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </ReadingLayout>
+    );
+  }
+
   return (
     <ReadingLayout variant="cosmic">
       <div className="min-h-screen bg-cosmic-900">
@@ -332,7 +519,7 @@ export default function LiveStreamPage() {
                   </Badge>
                   <div className="flex items-center space-x-2 text-white">
                     <Users className="w-4 h-4" />
-                    <span className="text-sm">{stream.viewerCount}</span>
+                    <span className="text-sm">{viewerCount ?? stream.viewerCount}</span>
                   </div>
                 </div>
 
@@ -394,6 +581,7 @@ export default function LiveStreamPage() {
                     className={`bg-black/50 backdrop-blur-sm ${isLiked ? 'text-red-500' : 'text-white'} hover:bg-white/20`}
                   >
                     <Heart className={`w-4 h-4 ${isLiked ? 'fill-current' : ''}`} />
+                    {likeCount > 0 && <span className="ml-1 text-xs">{likeCount}</span>}
                   </Button>
                   <Button
                     variant="ghost"
@@ -24,6 +24,7 @@ import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatRelativeTime, formatCurrency } from '@/lib/utils';
 import { useApi } from '@/lib/hooks';
+import { toast } from 'sonner';
 
 interface LiveStream {
   id: string;
@@ -99,9 +100,24 @@ export default function LiveStreamsPage() {
     window.location.href = `/live/${streamId}`;
   };
 
-  const handleSetReminder = (streamId: string) => {
-    // Handle reminder logic
-    console.log('Set reminder for stream:', streamId);
+  const handleSetReminder = async (streamId: string) => {
+    try {
+      const response = await fetch(`/api/live/streams/${streamId}/rsvp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ attending: true }),
+      });
+
+      if (response.ok) {
+        toast.success("You're on the list. We'll remind you before it starts.");
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to set reminder');
+      }
+    } catch (error) {
+      console.error('Failed to set reminder:', error);
+      toast.error('Failed to set reminder');
+    }
   };
 
   return (
@@ -13,7 +13,8 @@ import {
   CreditCard,
   ArrowLeft,
   CheckCircle,
-  Heart
+  Heart,
+  Users
 } from 'lucide-react';
 import { ReadingLayout } from '@/components/layout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -40,6 +41,15 @@ export default function ReadingStartPage() {
   const [currentSession, setCurrentSession] = useState<any>(null);
   const [estimatedCost, setEstimatedCost] = useState(0);
   const [selectedDuration, setSelectedDuration] = useState(10); // Default 10 minutes
+  const [pendingSession, setPendingSession] = useState<any>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [waitlistEntry, setWaitlistEntry] = useState<any>(null);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [readerBusy, setReaderBusy] = useState(false);
+  const [quote, setQuote] = useState<any>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
 
   const { balance, loading: balanceLoading, refetch: refetchBalance } = useClientBalance();
   const { startSession } = useReadingSession();
@@ -55,13 +65,105 @@ export default function ReadingStartPage() {
     }
   }, [readerId, router]);
 
+  // Price with any promotions the client qualifies for
+  useEffect(() => {
+    if (!readerId || !user) return;
+
+    const params = new URLSearchParams({ type: sessionType });
+    if (appliedCoupon) params.set('coupon', appliedCoupon);
+
+    fetch(`/api/readers/${readerId}/quote?${params.toString()}`)
+      .then(async (response) => {
+        const data = await response.json();
+
+        if (response.ok) {
+          setQuote(data);
+          setCouponError(null);
+        } else if (appliedCoupon) {
+          setCouponError(data.error || 'This coupon code cannot be used');
+          setAppliedCoupon(null);
+        }
+      })
+      .catch((error) => console.error('Failed to load price quote:', error));
+  }, [readerId, sessionType, appliedCoupon, user]);
+
+  // Wait for the reader to accept or decline the request
+  useEffect(() => {
+    if (!pendingSession) return;
+
+    const expiresAt = new Date(pendingSession.requestExpiresAt).getTime();
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)));
+    tick();
+
+    const countdown = setInterval(tick, 1000);
+    const poll = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/readings/${pendingSession.id}`);
+        if (!response.ok) return;
+
+        const session = await response.json();
+
+        if (session.status === 'active') {
+          setPendingSession(null);
+          setCurrentSession(session);
+        } else if (session.status === 'cancelled') {
+          setPendingSession(null);
+          setIsStarting(false);
+          setRequestError(
+            session.endReason === 'declined'
+              ? 'The reader declined your request. You have not been charged.'
+              : session.endReason === 'timeout'
+              ? 'The reader did not respond in time. You have not been charged.'
+              : null
+          );
+          await refetchBalance();
+        }
+      } catch (error) {
+        console.error('Failed to check reading request:', error);
+      }
+    }, 3000);
+
+    return () => {
+      clearInterval(countdown);
+      clearInterval(poll);
+    };
+  }, [pendingSession, refetchBalance]);
+
+  // Watch our place in the waitlist until the reader is offered to us
+  useEffect(() => {
+    if (!waitlistEntry || !readerId) return;
+
+    const poll = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/readers/${readerId}/waitlist`);
+        if (!response.ok) return;
+
+        const { entry } = await response.json();
+
+        if (entry?.status === 'offered' && entry.sessionId) {
+          const sessionResponse = await fetch(`/api/readings/${entry.sessionId}`);
+          if (sessionResponse.ok) {
+            setWaitlistEntry(null);
+            setPendingSession(await sessionResponse.json());
+          }
+        } else {
+          setWaitlistEntry(entry);
+        }
+      } catch (error) {
+        console.error('Failed to check waitlist:', error);
+      }
+    }, 5000);
+
+    return () => clearInterval(poll);
+  }, [waitlistEntry, readerId]);
+
   // Calculate estimated cost when reader data loads
   useEffect(() => {
     if (reader && sessionType) {
-      const ratePerMinute = reader.pricing[sessionType] || 0;
-      setEstimatedCost(ratePerMinute * selectedDuration);
+      const ratePerMinute = quote?.ratePerMinute ?? (reader.pricing[sessionType] || 0);
+      setEstimatedCost(ratePerMinute * Math.max(0, selectedDuration - (quote?.freeMinutes || 0)));
     }
-  }, [reader, sessionType, selectedDuration]);
+  }, [reader, sessionType, selectedDuration, quote]);
 
   if (!user) {
     return (
@@ -110,8 +212,9 @@ export default function ReadingStartPage() {
 
     // Check balance
     const currentBalance = balance ? parseFloat(balance.balance) : 0;
-    const ratePerMinute = reader.pricing[sessionType];
-    const minimumRequired = ratePerMinute * 2; // Require at least 2 minutes
+    const ratePerMinute = quote?.ratePerMinute ?? reader.pricing[sessionType];
+    // Require at least 2 minutes, less any free minutes
+    const minimumRequired = ratePerMinute * Math.max(0, 2 - (quote?.freeMinutes || 0));
 
     if (currentBalance < minimumRequired) {
       setShowAddFunds(true);
@@ -119,13 +222,75 @@ export default function ReadingStartPage() {
     }
 
     setIsStarting(true);
+    setRequestError(null);
     
     try {
-      const session = await startSession(readerId!, sessionType);
-      setCurrentSession(session);
+      const session = await startSession(readerId!, sessionType, appliedCoupon || undefined);
+
+      // Billing starts once the reader accepts
+      if (session.status === 'pending') {
+        setPendingSession(session);
+      } else {
+        setCurrentSession(session);
+      }
     } catch (error) {
       console.error('Failed to start session:', error);
+      const message = error instanceof Error ? error.message : 'Failed to start session';
+      // Someone else got to the reader first; offer the waitlist instead
+      setReaderBusy(message === 'Reader is busy');
+      setRequestError(message);
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancelRequest = async () => {
+    if (!pendingSession) return;
+
+    try {
+      await fetch(`/api/readings/${pendingSession.id}/cancel`, { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to cancel request:', error);
+    } finally {
+      setPendingSession(null);
       setIsStarting(false);
+      await refetchBalance();
+    }
+  };
+
+  const handleJoinWaitlist = async () => {
+    setRequestError(null);
+    setReaderBusy(false);
+
+    try {
+      const response = await fetch(`/api/readers/${readerId}/waitlist`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: sessionType, couponCode: appliedCoupon || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to join waitlist');
+      }
+
+      if (data.entry?.status === 'offered' && data.entry.sessionId) {
+        const sessionResponse = await fetch(`/api/readings/${data.entry.sessionId}`);
+        setPendingSession(await sessionResponse.json());
+      } else {
+        setWaitlistEntry(data.entry);
+      }
+    } catch (error) {
+      setRequestError(error instanceof Error ? error.message : 'Failed to join waitlist');
+    }
+  };
+
+  const handleLeaveWaitlist = async () => {
+    try {
+      await fetch(`/api/readers/${readerId}/waitlist`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Failed to leave waitlist:', error);
+    } finally {
+      setWaitlistEntry(null);
     }
   };
 
@@ -152,8 +317,10 @@ export default function ReadingStartPage() {
 
   const SessionTypeIcon = getSessionTypeIcon();
   const currentBalance = balance ? parseFloat(balance.balance) : 0;
-  const ratePerMinute = reader.pricing[sessionType] || 0;
-  const minimumRequired = ratePerMinute * 2;
+  const baseRatePerMinute = reader.pricing[sessionType] || 0;
+  const ratePerMinute = quote?.ratePerMinute ?? baseRatePerMinute;
+  const freeMinutes = quote?.freeMinutes || 0;
+  const minimumRequired = ratePerMinute * Math.max(0, 2 - freeMinutes);
   const hasInsufficientFunds = currentBalance < minimumRequired;
 
   return (
@@ -366,14 +533,65 @@ export default function ReadingStartPage() {
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-slate-400">Rate per minute</span>
-                    <span className="text-white">{formatCurrency(ratePerMinute)}</span>
+                    <span className="text-white">
+                      {ratePerMinute < baseRatePerMinute && (
+                        <span className="text-slate-500 line-through mr-2">
+                          {formatCurrency(baseRatePerMinute)}
+                        </span>
+                      )}
+                      {formatCurrency(ratePerMinute)}
+                    </span>
                   </div>
+                  {freeMinutes > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-slate-400">Free minutes</span>
+                      <span className="text-green-400">First {freeMinutes} free</span>
+                    </div>
+                  )}
+                  {quote?.promotions?.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {quote.promotions.map((promotion: any) => (
+                        <Badge key={promotion.id} variant="mystical">
+                          {promotion.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-slate-400">Minimum required</span>
                     <span className="text-white">{formatCurrency(minimumRequired)}</span>
                   </div>
                 </div>
 
+                {/* Coupon Code */}
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-slate-200">
+                    Coupon code
+                  </label>
+                  <div className="flex space-x-2">
+                    <input
+                      value={couponInput}
+                      onChange={(e) => setCouponInput(e.target.value)}
+                      placeholder="Enter code"
+                      className="flex-1 bg-slate-800 border border-slate-600 rounded-md px-3 py-2 text-white text-sm uppercase"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAppliedCoupon(couponInput.trim() || null)}
+                      disabled={!couponInput.trim()}
+                    >
+                      Apply
+                    </Button>
+                  </div>
+                  {couponError && (
+                    <p className="text-xs text-yellow-400">{couponError}</p>
+                  )}
+                  {appliedCoupon && !couponError && (
+                    <p className="text-xs text-green-400">Coupon {appliedCoupon.toUpperCase()} applied</p>
+                  )}
+                </div>
+
                 {/* Duration Estimator */}
                 <div className="space-y-3">
                   <label className="block text-sm font-medium text-slate-200">
@@ -384,11 +602,11 @@ export default function ReadingStartPage() {
                     onChange={(e) => setSelectedDuration(parseInt(e.target.value))}
                     className="w-full bg-slate-800 border border-slate-600 rounded-md px-3 py-2 text-white text-sm"
                   >
-                    <option value={5}>5 minutes - {formatCurrency(ratePerMinute * 5)}</option>
-                    <option value={10}>10 minutes - {formatCurrency(ratePerMinute * 10)}</option>
-                    <option value={15}>15 minutes - {formatCurrency(ratePerMinute * 15)}</option>
-                    <option value={30}>30 minutes - {formatCurrency(ratePerMinute * 30)}</option>
-                    <option value={60}>60 minutes - {formatCurrency(ratePerMinute * 60)}</option>
+                    {[5, 10, 15, 30, 60].map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes} minutes - {formatCurrency(ratePerMinute * Math.max(0, minutes - freeMinutes))}
+                      </option>
+                    ))}
                   </select>
                   <p className="text-xs text-slate-500">
                     You'll only pay for the actual time used
@@ -397,7 +615,33 @@ export default function ReadingStartPage() {
 
                 {/* Action Buttons */}
                 <div className="space-y-3">
-                  {hasInsufficientFunds ? (
+                  {pendingSession ? (
+                    <div className="bg-slate-800/50 rounded-lg p-4 text-center space-y-3">
+                      <div className="animate-spin w-6 h-6 border-2 border-mystical-pink-500 border-t-transparent rounded-full mx-auto" />
+                      <p className="text-sm text-slate-300">
+                        Waiting for {reader.displayName} to accept...
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {secondsLeft}s left. You won't be charged until they accept.
+                      </p>
+                      <Button variant="ghost" size="sm" onClick={handleCancelRequest}>
+                        Cancel Request
+                      </Button>
+                    </div>
+                  ) : waitlistEntry ? (
+                    <div className="bg-slate-800/50 rounded-lg p-4 text-center space-y-3">
+                      <Users className="w-6 h-6 mx-auto text-mystical-gold-400" />
+                      <p className="text-sm text-slate-300">
+                        You're #{waitlistEntry.position} in line
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        We'll send your request as soon as {reader.displayName} is free.
+                      </p>
+                      <Button variant="ghost" size="sm" onClick={handleLeaveWaitlist}>
+                        Leave Waitlist
+                      </Button>
+                    </div>
+                  ) : hasInsufficientFunds ? (
                     <Button 
                       onClick={() => setShowAddFunds(true)}
                       className="w-full"
@@ -406,6 +650,15 @@ export default function ReadingStartPage() {
                       <CreditCard className="w-4 h-4 mr-2" />
                       Add Funds
                     </Button>
+                  ) : reader.isOnline && (!reader.isAvailable || readerBusy) ? (
+                    <Button 
+                      onClick={handleJoinWaitlist}
+                      className="w-full"
+                      variant="secondary"
+                    >
+                      <Users className="w-4 h-4 mr-2" />
+                      Join Waitlist
+                    </Button>
                   ) : (
                     <Button 
                       onClick={handleStartReading}
@@ -422,7 +675,11 @@ export default function ReadingStartPage() {
                     </Button>
                   )}
                   
-                  {!reader.isOnline || !reader.isAvailable ? (
+                  {requestError && (
+                    <p className="text-center text-sm text-yellow-400">{requestError}</p>
+                  )}
+
+                  {!pendingSession && !waitlistEntry && (!reader.isOnline || !reader.isAvailable) ? (
                     <p className="text-center text-sm text-yellow-400">
                       {!reader.isOnline ? 'Reader is currently offline' : 'Reader is currently busy'}
                     </p>
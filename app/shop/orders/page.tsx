@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, Package, Truck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Layout } from '@/components/layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatCurrency, formatRelativeTime } from '@/lib/utils';
+import { useApi } from '@/lib/hooks';
+
+interface OrderShipment {
+  id: string;
+  carrier: string;
+  trackingNumber: string;
+  trackingUrl: string | null;
+  shippedAt: string;
+  deliveredAt: string | null;
+}
+
+interface Order {
+  id: string;
+  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+  total: string;
+  createdAt: string;
+  items: Array<{
+    id: string;
+    quantity: number;
+    totalPrice: string;
+    shipmentId: string | null;
+    fulfilledAt: string | null;
+    product: {
+      id: string;
+      name: string;
+      type: string;
+    };
+  }>;
+  shipments: OrderShipment[];
+}
+
+const STATUS_LABELS: Record<Order['status'], string> = {
+  pending: 'Awaiting payment',
+  processing: 'Preparing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+export default function OrdersPage() {
+  const { data, loading, error, refetch } = useApi<{ orders: Order[] }>('/api/shop/orders?limit=50');
+  const [actingOn, setActingOn] = useState<string | null>(null);
+
+  const orders = data?.orders || [];
+
+  const handleAction = async (orderId: string, action: 'cancel' | 'confirm') => {
+    setActingOn(orderId);
+
+    try {
+      const response = await fetch(`/api/shop/orders/${orderId}/${action}`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Something went wrong');
+      }
+
+      toast.success(action === 'cancel' ? 'Order cancelled' : 'Thanks for confirming your delivery');
+      refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-12">
+          <h1 className="text-5xl font-alex-brush text-mystical-pink-500 mb-4 mystical-glow">
+            My Orders
+          </h1>
+          <p className="text-xl text-slate-300 max-w-2xl mx-auto">
+            Follow your orders from checkout to your door.
+          </p>
+        </div>
+
+        {loading && !data ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Card key={i} variant="mystical">
+                <CardContent className="p-6 space-y-3">
+                  <Skeleton className="h-5 w-1/3" />
+                  <Skeleton className="h-4 w-1/2" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : error ? (
+          <Card variant="mystical">
+            <CardContent className="p-12 text-center">
+              <div className="text-red-400 mb-4">
+                <Package className="w-12 h-12 mx-auto mb-4" />
+                <p>Error loading your orders. Please try again.</p>
+              </div>
+              <Button onClick={() => refetch()} variant="outline">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : orders.length === 0 ? (
+          <Card variant="mystical">
+            <CardContent className="p-12 text-center">
+              <Package className="w-12 h-12 mx-auto mb-4 text-slate-400" />
+              <p className="text-slate-300 mb-4">You haven't placed any orders yet.</p>
+              <Link href="/shop">
+                <Button variant="outline">Browse the Marketplace</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => {
+              const awaitingDelivery = order.shipments.some((shipment) => !shipment.deliveredAt);
+              const unshipped = order.items.filter((item) => !item.fulfilledAt && !item.shipmentId);
+
+              return (
+                <Card key={order.id} variant="mystical">
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg text-white">
+                        {formatCurrency(parseFloat(order.total))} order
+                      </CardTitle>
+                      <Badge variant={order.status === 'cancelled' || order.status === 'refunded' ? 'destructive' : 'mystical'}>
+                        {STATUS_LABELS[order.status]}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-slate-400">
+                      Placed {formatRelativeTime(new Date(order.createdAt))}
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-1">
+                      {order.items.map((item) => (
+                        <div key={item.id} className="flex items-center justify-between text-sm">
+                          <span className="text-slate-300">
+                            {item.product.name}
+                            {item.quantity > 1 && ` × ${item.quantity}`}
+                          </span>
+                          <span className="text-white">{formatCurrency(parseFloat(item.totalPrice))}</span>
+                        </div>
+                      ))}
+                    </div>
+
+                    {order.shipments.map((shipment) => (
+                      <div
+                        key={shipment.id}
+                        className="flex items-center justify-between rounded-lg bg-slate-800/50 px-4 py-3"
+                      >
+                        <div className="flex items-center gap-3">
+                          {shipment.deliveredAt ? (
+                            <CheckCircle className="w-5 h-5 text-green-400" />
+                          ) : (
+                            <Truck className="w-5 h-5 text-mystical-pink-400" />
+                          )}
+                          <div>
+                            <p className="text-white text-sm">
+                              {shipment.carrier.toUpperCase()} {shipment.trackingNumber}
+                            </p>
+                            <p className="text-xs text-slate-400">
+                              {shipment.deliveredAt
+                                ? `Delivered ${formatRelativeTime(new Date(shipment.deliveredAt))}`
+                                : `Shipped ${formatRelativeTime(new Date(shipment.shippedAt))}`}
+                            </p>
+                          </div>
+                        </div>
+                        {shipment.trackingUrl && (
+                          <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer">
+                            <Button size="sm" variant="ghost">Track</Button>
+                          </a>
+                        )}
+                      </div>
+                    ))}
+
+                    {order.status === 'processing' && unshipped.length > 0 && (
+                      <p className="text-sm text-slate-400">
+                        {unshipped.length} {unshipped.length === 1 ? 'item is' : 'items are'} still being prepared
+                      </p>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                      {order.status === 'pending' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={actingOn === order.id}
+                          onClick={() => handleAction(order.id, 'cancel')}
+                        >
+                          Cancel Order
+                        </Button>
+                      )}
+                      {(order.status === 'processing' || order.status === 'shipped') && awaitingDelivery && (
+                        <Button
+                          size="sm"
+                          disabled={actingOn === order.id}
+                          onClick={() => handleAction(order.id, 'confirm')}
+                        >
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Confirm Received
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
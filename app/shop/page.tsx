@@ -28,6 +28,7 @@ import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { formatCurrency, formatRelativeTime } from '@/lib/utils';
 import { useApi, useDebounce } from '@/lib/hooks';
 import Link from 'next/link';
+import { toast } from 'sonner';
 
 interface Product {
   id: string;
@@ -104,7 +105,6 @@ export default function ShopPage() {
   const searchParams = useSearchParams();
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showFilters, setShowFilters] = useState(false);
-  const [cartItems, setCartItems] = useState<string[]>([]);
   const [wishlistItems, setWishlistItems] = useState<string[]>([]);
   
   const [filters, setFilters] = useState<ShopFilters>({
@@ -136,6 +136,8 @@ export default function ShopPage() {
 
   const { data: featuredProducts } = useApi<Product[]>('/api/shop/products/featured?limit=6');
   const { data: categories } = useApi<Array<{ category: string; count: number }>>('/api/shop/categories');
+  const { data: cart, refetch: refetchCart } = useApi<{ items: Array<{ productId: string }> }>('/api/shop/cart');
+  const cartItems = cart?.items.map(item => item.productId) || [];
 
   const handleFilterChange = (key: keyof ShopFilters, value: any) => {
     setFilters(prev => ({
@@ -153,12 +155,28 @@ export default function ShopPage() {
     }));
   };
 
-  const handleAddToCart = (productId: string) => {
-    setCartItems(prev => 
-      prev.includes(productId) 
-        ? prev.filter(id => id !== productId)
-        : [...prev, productId]
-    );
+  const handleAddToCart = async (productId: string) => {
+    const inCart = cartItems.includes(productId);
+
+    try {
+      const response = inCart
+        ? await fetch(`/api/shop/cart/${productId}`, { method: 'DELETE' })
+        : await fetch('/api/shop/cart', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ productId, quantity: 1 }),
+          });
+
+      if (response.ok) {
+        await refetchCart();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to update cart');
+      }
+    } catch (error) {
+      console.error('Failed to update cart:', error);
+      toast.error('Failed to update cart');
+    }
   };
 
   const handleAddToWishlist = (productId: string) => {
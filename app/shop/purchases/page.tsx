@@ -0,0 +1,145 @@
+import React from 'react';
+import Link from 'next/link';
+import { Download, FileText, Package } from 'lucide-react';
+import { Layout } from '@/components/layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatFileSize, formatRelativeTime } from '@/lib/utils';
+import { useApi } from '@/lib/hooks';
+
+interface PurchasedDownload {
+  itemId: string;
+  orderId: string;
+  purchasedAt: string | null;
+  product: {
+    id: string;
+    name: string;
+    images: string[] | null;
+  };
+  files: Array<{
+    id: string;
+    name: string;
+    size: number;
+    url: string;
+  }>;
+  downloadCount: number;
+  maxDownloads: number | null;
+  downloadsRemaining: number | null;
+  linkExpiresAt: string;
+}
+
+export default function PurchasesPage() {
+  const { data, loading, error, refetch } = useApi<{ purchases: PurchasedDownload[] }>('/api/shop/downloads');
+
+  const purchases = data?.purchases || [];
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-12">
+          <h1 className="text-5xl font-alex-brush text-mystical-pink-500 mb-4 mystical-glow">
+            My Purchases
+          </h1>
+          <p className="text-xl text-slate-300 max-w-2xl mx-auto">
+            Download the digital products you've bought from our readers.
+          </p>
+        </div>
+
+        {loading && !data ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Card key={i} variant="mystical">
+                <CardContent className="p-6 space-y-3">
+                  <Skeleton className="h-5 w-1/3" />
+                  <Skeleton className="h-4 w-1/2" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : error ? (
+          <Card variant="mystical">
+            <CardContent className="p-12 text-center">
+              <div className="text-red-400 mb-4">
+                <Package className="w-12 h-12 mx-auto mb-4" />
+                <p>Error loading your purchases. Please try again.</p>
+              </div>
+              <Button onClick={() => refetch()} variant="outline">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : purchases.length === 0 ? (
+          <Card variant="mystical">
+            <CardContent className="p-12 text-center">
+              <Download className="w-12 h-12 mx-auto mb-4 text-slate-400" />
+              <p className="text-slate-300 mb-4">You haven't bought any digital products yet.</p>
+              <Link href="/shop">
+                <Button variant="outline">Browse the Marketplace</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {purchases.map((purchase) => {
+              const limitReached = purchase.downloadsRemaining === 0;
+
+              return (
+                <Card key={purchase.itemId} variant="mystical">
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg text-white">{purchase.product.name}</CardTitle>
+                      {purchase.downloadsRemaining !== null && (
+                        <Badge variant={limitReached ? 'destructive' : 'mystical'}>
+                          {purchase.downloadsRemaining} of {purchase.maxDownloads} downloads left
+                        </Badge>
+                      )}
+                    </div>
+                    {purchase.purchasedAt && (
+                      <p className="text-sm text-slate-400">
+                        Purchased {formatRelativeTime(new Date(purchase.purchasedAt))}
+                      </p>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {purchase.files.length === 0 ? (
+                      <p className="text-sm text-slate-400">The seller hasn't added any files yet.</p>
+                    ) : (
+                      purchase.files.map((file) => (
+                        <div
+                          key={file.id}
+                          className="flex items-center justify-between rounded-lg bg-slate-800/50 px-4 py-3"
+                        >
+                          <div className="flex items-center gap-3 min-w-0">
+                            <FileText className="w-5 h-5 text-mystical-pink-400 flex-shrink-0" />
+                            <div className="min-w-0">
+                              <p className="text-white truncate">{file.name}</p>
+                              <p className="text-xs text-slate-400">{formatFileSize(file.size)}</p>
+                            </div>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="default"
+                            disabled={limitReached}
+                            onClick={() => {
+                              window.location.href = file.url;
+                              setTimeout(() => refetch(), 2000);
+                            }}
+                          >
+                            <Download className="w-4 h-4 mr-1" />
+                            Download
+                          </Button>
+                        </div>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
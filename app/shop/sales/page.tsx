@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { CheckCircle, Package, Truck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Layout } from '@/components/layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatRelativeTime } from '@/lib/utils';
+import { useApi } from '@/lib/hooks';
+
+const CARRIERS = [
+  { value: 'usps', label: 'USPS' },
+  { value: 'ups', label: 'UPS' },
+  { value: 'fedex', label: 'FedEx' },
+  { value: 'dhl', label: 'DHL' },
+  { value: 'other', label: 'Other' },
+];
+
+interface SellerOrder {
+  id: string;
+  status: string;
+  paidAt: string | null;
+  notes: string | null;
+  shippingAddress: {
+    name: string;
+    line1: string;
+    line2?: string;
+    city: string;
+    state: string;
+    postalCode: string;
+    country: string;
+  } | null;
+  user: {
+    firstName: string | null;
+    lastName: string | null;
+  };
+  items: Array<{
+    id: string;
+    quantity: number;
+    shipmentId: string | null;
+    product: {
+      id: string;
+      name: string;
+    };
+  }>;
+  shipments: Array<{
+    id: string;
+    carrier: string;
+    trackingNumber: string;
+    trackingUrl: string | null;
+    shippedAt: string;
+    deliveredAt: string | null;
+  }>;
+}
+
+interface ShipmentForm {
+  carrier: string;
+  trackingNumber: string;
+  itemIds: string[];
+}
+
+export default function SalesOrdersPage() {
+  const [filter, setFilter] = useState<'to_ship' | 'shipped'>('to_ship');
+  const { data, loading, error, refetch } = useApi<{ orders: SellerOrder[] }>(
+    `/api/shop/sales/orders?status=${filter}`
+  );
+  const [forms, setForms] = useState<Record<string, ShipmentForm>>({});
+  const [shipping, setShipping] = useState<string | null>(null);
+
+  const orders = data?.orders || [];
+
+  const getForm = (order: SellerOrder): ShipmentForm =>
+    forms[order.id] || {
+      carrier: 'usps',
+      trackingNumber: '',
+      itemIds: order.items.filter((item) => !item.shipmentId).map((item) => item.id),
+    };
+
+  const updateForm = (order: SellerOrder, changes: Partial<ShipmentForm>) => {
+    setForms((current) => ({ ...current, [order.id]: { ...getForm(order), ...changes } }));
+  };
+
+  const toggleItem = (order: SellerOrder, itemId: string) => {
+    const { itemIds } = getForm(order);
+    updateForm(order, {
+      itemIds: itemIds.includes(itemId) ? itemIds.filter((id) => id !== itemId) : [...itemIds, itemId],
+    });
+  };
+
+  const handleShip = async (order: SellerOrder) => {
+    const form = getForm(order);
+
+    if (form.itemIds.length === 0 || !form.trackingNumber.trim()) {
+      toast.error('Pick the items in this parcel and enter its tracking number');
+      return;
+    }
+
+    setShipping(order.id);
+
+    try {
+      const response = await fetch(`/api/shop/sales/orders/${order.id}/ship`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to mark as shipped');
+      }
+
+      toast.success(result.complete ? 'Order shipped' : 'Parcel shipped');
+      setForms((current) => {
+        const { [order.id]: _shipped, ...rest } = current;
+        return rest;
+      });
+      refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to mark as shipped');
+    } finally {
+      setShipping(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-12">
+          <h1 className="text-5xl font-alex-brush text-mystical-pink-500 mb-4 mystical-glow">
+            Orders to Ship
+          </h1>
+          <p className="text-xl text-slate-300 max-w-2xl mx-auto">
+            Pack your sold items and add tracking so buyers can follow them.
+          </p>
+        </div>
+
+        <div className="flex justify-center gap-2 mb-8">
+          <Button variant={filter === 'to_ship' ? 'default' : 'ghost'} onClick={() => setFilter('to_ship')}>
+            To Ship
+          </Button>
+          <Button variant={filter === 'shipped' ? 'default' : 'ghost'} onClick={() => setFilter('shipped')}>
+            Shipped
+          </Button>
+        </div>
+
+        {loading && !data ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Card key={i} variant="mystical">
+                <CardContent className="p-6 space-y-3">
+                  <Skeleton className="h-5 w-1/3" />
+                  <Skeleton className="h-4 w-1/2" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : error ? (
+          <Card variant="mystical">
+            <CardContent className="p-12 text-center">
+              <div className="text-red-400 mb-4">
+                <Package className="w-12 h-12 mx-auto mb-4" />
+                <p>Error loading your orders. Please try again.</p>
+              </div>
+              <Button onClick={() => refetch()} variant="outline">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : orders.length === 0 ? (
+          <Card variant="mystical">
+            <CardContent className="p-12 text-center">
+              <Truck className="w-12 h-12 mx-auto mb-4 text-slate-400" />
+              <p className="text-slate-300">
+                {filter === 'to_ship' ? 'Nothing to ship right now.' : "You haven't shipped any orders yet."}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => {
+              const form = getForm(order);
+              const unshipped = order.items.filter((item) => !item.shipmentId);
+              const address = order.shippingAddress;
+
+              return (
+                <Card key={order.id} variant="mystical">
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg text-white">
+                        {[order.user.firstName, order.user.lastName].filter(Boolean).join(' ') || 'Buyer'}
+                      </CardTitle>
+                      <Badge variant="mystical">{order.status}</Badge>
+                    </div>
+                    {order.paidAt && (
+                      <p className="text-sm text-slate-400">
+                        Paid {formatRelativeTime(new Date(order.paidAt))}
+                      </p>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {address && (
+                      <div className="text-sm text-slate-300">
+                        <p>{address.name}</p>
+                        <p>{address.line1}</p>
+                        {address.line2 && <p>{address.line2}</p>}
+                        <p>{address.city}, {address.state} {address.postalCode}</p>
+                        <p>{address.country}</p>
+                      </div>
+                    )}
+
+                    {order.notes && (
+                      <p className="text-sm text-slate-400 italic">"{order.notes}"</p>
+                    )}
+
+                    <div className="space-y-2">
+                      {order.items.map((item) => (
+                        <label key={item.id} className="flex items-center gap-3 text-sm text-slate-300">
+                          {item.shipmentId ? (
+                            <CheckCircle className="w-4 h-4 text-green-400" />
+                          ) : (
+                            <input
+                              type="checkbox"
+                              checked={form.itemIds.includes(item.id)}
+                              onChange={() => toggleItem(order, item.id)}
+                            />
+                          )}
+                          <span>
+                            {item.product.name}
+                            {item.quantity > 1 && ` × ${item.quantity}`}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+
+                    {order.shipments.map((shipment) => (
+                      <div key={shipment.id} className="flex items-center justify-between rounded-lg bg-slate-800/50 px-4 py-3 text-sm">
+                        <span className="text-white">
+                          {shipment.carrier.toUpperCase()} {shipment.trackingNumber}
+                        </span>
+                        <span className="text-slate-400">
+                          {shipment.deliveredAt
+                            ? `Delivered ${formatRelativeTime(new Date(shipment.deliveredAt))}`
+                            : `Shipped ${formatRelativeTime(new Date(shipment.shippedAt))}`}
+                        </span>
+                      </div>
+                    ))}
+
+                    {order.status === 'processing' && unshipped.length > 0 && (
+                      <div className="flex flex-col md:flex-row gap-2">
+                        <select
+                          value={form.carrier}
+                          onChange={(e) => updateForm(order, { carrier: e.target.value })}
+                          className="bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white"
+                        >
+                          {CARRIERS.map((carrier) => (
+                            <option key={carrier.value} value={carrier.value}>{carrier.label}</option>
+                          ))}
+                        </select>
+                        <Input
+                          placeholder="Tracking number"
+                          value={form.trackingNumber}
+                          onChange={(e) => updateForm(order, { trackingNumber: e.target.value })}
+                        />
+                        <Button disabled={shipping === order.id} onClick={() => handleShip(order)}>
+                          <Truck className="w-4 h-4 mr-1" />
+                          Mark Shipped
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { loadStripe } from '@stripe/stripe-js';
 import {
   Elements,
@@ -6,7 +6,7 @@ import {
   useStripe,
   useElements,
 } from '@stripe/react-stripe-js';
-import { DollarSign, CreditCard, AlertCircle, Check } from 'lucide-react';
+import { DollarSign, CreditCard, AlertCircle, Check, RefreshCw } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -23,6 +23,182 @@ interface AddFundsDialogProps {
 }
 
 const PRESET_AMOUNTS = [10, 25, 50, 100];
+const RELOAD_THRESHOLDS = [5, 10, 20];
+
+interface AutoReloadState {
+  enabled: boolean;
+  amount: number;
+  threshold: number;
+  failures: number;
+  paymentMethod: { id: string; brand?: string; last4?: string } | null;
+  pendingAuthorization: {
+    paymentIntentId: string;
+    clientSecret: string;
+    paymentMethodId: string | null;
+    amount: number;
+  } | null;
+}
+
+function AutoReloadSettings({ onReloaded }: { onReloaded: (amount: number) => void }) {
+  const stripe = useStripe();
+  const [settings, setSettings] = useState<AutoReloadState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [authorizing, setAuthorizing] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/payments/auto-reload')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setSettings(data))
+      .catch((err) => console.error('Failed to load auto-reload settings:', err));
+  }, []);
+
+  if (!settings) {
+    return null;
+  }
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/payments/auto-reload', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          enabled: settings.enabled,
+          amount: settings.amount,
+          threshold: settings.threshold,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save auto-reload settings');
+      }
+
+      setSettings({ ...settings, ...result });
+      toast.success(result.enabled ? 'Auto-reload is on' : 'Auto-reload is off');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save auto-reload settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAuthorize = async () => {
+    const pending = settings.pendingAuthorization;
+    if (!stripe || !pending) return;
+
+    setAuthorizing(true);
+    try {
+      const { error } = await stripe.confirmCardPayment(pending.clientSecret, {
+        payment_method: pending.paymentMethodId || undefined,
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Authorization failed');
+      }
+
+      setSettings({ ...settings, pendingAuthorization: null });
+      toast.success(`Authorized ${formatCurrency(pending.amount)} reload`);
+      onReloaded(pending.amount);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Authorization failed');
+    } finally {
+      setAuthorizing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center">
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Auto-reload
+        </Label>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          disabled={!settings.paymentMethod}
+          onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+          className="w-4 h-4 accent-mystical-pink-500"
+        />
+      </div>
+
+      {settings.paymentMethod ? (
+        <p className="text-xs text-slate-400">
+          Charges your {settings.paymentMethod.brand} ending in {settings.paymentMethod.last4}
+        </p>
+      ) : (
+        <p className="text-xs text-slate-500">
+          Save a card when adding funds to enable auto-reload
+        </p>
+      )}
+
+      {settings.enabled && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <p className="text-xs text-slate-400">When balance falls below</p>
+            <select
+              value={settings.threshold}
+              onChange={(e) => setSettings({ ...settings, threshold: parseFloat(e.target.value) })}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white focus:border-mystical-pink-500 focus:outline-none"
+            >
+              {RELOAD_THRESHOLDS.map((threshold) => (
+                <option key={threshold} value={threshold}>
+                  {formatCurrency(threshold)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-slate-400">Add</p>
+            <select
+              value={settings.amount}
+              onChange={(e) => setSettings({ ...settings, amount: parseFloat(e.target.value) })}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white focus:border-mystical-pink-500 focus:outline-none"
+            >
+              {PRESET_AMOUNTS.map((amount) => (
+                <option key={amount} value={amount}>
+                  {formatCurrency(amount)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {settings.failures > 0 && (
+        <p className="text-xs text-yellow-400">
+          Your last {settings.failures === 1 ? 'reload' : `${settings.failures} reloads`} failed
+        </p>
+      )}
+
+      {settings.pendingAuthorization && (
+        <div className="flex items-center justify-between bg-yellow-500/10 border border-yellow-500/20 rounded-md p-3">
+          <span className="text-yellow-400 text-xs">
+            Your bank needs you to approve a {formatCurrency(settings.pendingAuthorization.amount)} reload
+          </span>
+          <Button size="sm" variant="outline" loading={authorizing} onClick={handleAuthorize}>
+            Approve
+          </Button>
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        loading={saving}
+        disabled={saving || (!settings.paymentMethod && !settings.enabled)}
+        onClick={handleSave}
+      >
+        Save auto-reload settings
+      </Button>
+    </div>
+  );
+}
 
 function PaymentForm({ 
   amount, 
@@ -37,6 +213,7 @@ function PaymentForm({
   const elements = useElements();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [saveCard, setSaveCard] = useState(false);
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
@@ -78,6 +255,7 @@ function PaymentForm({
         body: JSON.stringify({
           amount,
           paymentMethodId: paymentMethod.id,
+          savePaymentMethod: saveCard,
         }),
       });
 
@@ -146,6 +324,16 @@ function PaymentForm({
         </div>
       </div>
 
+      <label className="flex items-center space-x-2 text-sm text-slate-300">
+        <input
+          type="checkbox"
+          checked={saveCard}
+          onChange={(e) => setSaveCard(e.target.checked)}
+          className="w-4 h-4 accent-mystical-pink-500"
+        />
+        <span>Save this card for auto-reload</span>
+      </label>
+
       {/* Error Message */}
       {error && (
         <div className="flex items-center space-x-2 text-red-400 text-sm bg-red-500/10 border border-red-500/20 rounded-md p-3">
@@ -322,6 +510,10 @@ export default function AddFundsDialog({
               </Button>
             </div>
 
+            <Elements stripe={stripePromise}>
+              <AutoReloadSettings onReloaded={onSuccess} />
+            </Elements>
+
             {/* Benefits */}
             <div className="bg-mystical-pink-500/10 border border-mystical-pink-500/20 rounded-lg p-4 text-center">
               <p className="text-mystical-pink-400 text-sm font-medium mb-2">
@@ -1,4 +1,11 @@
 import React, { useState } from 'react';
+import { loadStripe } from '@stripe/stripe-js';
+import {
+  Elements,
+  CardElement,
+  useStripe,
+  useElements,
+} from '@stripe/react-stripe-js';
 import { CreditCard, DollarSign, X } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -9,10 +16,16 @@ import { Badge } from '@/components/ui/badge';
 import { useAsyncOperation, useApi } from '@/lib/hooks';
 import { formatCurrency } from '@/lib/utils';
 
+const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!);
+
 interface AddFundsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddFunds: (amount: number, paymentMethodId?: string) => Promise<void>;
+  // Resolves with the add-funds response so 3D Secure can be completed here
+  onAddFunds: (
+    amount: number,
+    paymentMethodId?: string
+  ) => Promise<{ status?: string; clientSecret?: string } | void>;
   currentBalance: string;
 }
 
@@ -30,6 +43,86 @@ interface PaymentMethod {
 
 const PRESET_AMOUNTS = [10, 25, 50, 100, 200];
 
+function NewCardForm({ onSaved }: { onSaved: (paymentMethodId: string) => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const cardElement = elements?.getElement(CardElement);
+
+    if (!stripe || !cardElement) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/payments/methods', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save card');
+      }
+
+      const { error: setupError, setupIntent } = await stripe.confirmCardSetup(result.clientSecret, {
+        payment_method: { card: cardElement },
+      });
+
+      if (setupError || !setupIntent?.payment_method) {
+        throw new Error(setupError?.message || 'Failed to save card');
+      }
+
+      onSaved(setupIntent.payment_method as string);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save card');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-slate-800/30 rounded-lg">
+      <div className="p-3 border border-slate-600 rounded-md bg-slate-800 focus-within:border-mystical-pink-500 transition-colors">
+        <CardElement
+          options={{
+            style: {
+              base: {
+                fontSize: '16px',
+                color: '#ffffff',
+                '::placeholder': {
+                  color: '#94a3b8',
+                },
+                iconColor: '#ec4899',
+              },
+              invalid: {
+                color: '#ef4444',
+                iconColor: '#ef4444',
+              },
+            },
+            hidePostalCode: true,
+          }}
+        />
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        loading={saving}
+        disabled={!stripe || saving}
+        onClick={handleSave}
+      >
+        Save Card
+      </Button>
+    </div>
+  );
+}
+
 export default function AddFundsModal({
   isOpen,
   onClose,
@@ -40,21 +133,25 @@ export default function AddFundsModal({
   const [customAmount, setCustomAmount] = useState<string>('');
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('');
   const [showCardForm, setShowCardForm] = useState(false);
-  const [cardDetails, setCardDetails] = useState({
-    number: '',
-    expiry: '',
-    cvc: '',
-    name: '',
-  });
 
-  const { data: paymentMethods } = useApi<PaymentMethod[]>('/api/payments/methods');
+  const { data: paymentMethods, refetch: refetchPaymentMethods } = useApi<PaymentMethod[]>('/api/payments/methods');
   
   const {
     execute: processPayment,
     loading: processing,
     error: paymentError
-  } = useAsyncOperation(async (finalAmount: number) => {
-    await onAddFunds(finalAmount, selectedPaymentMethod || undefined);
+  } = useAsyncOperation(async (finalAmount: number, paymentMethodId: string) => {
+    const result = await onAddFunds(finalAmount, paymentMethodId);
+
+    // Saved cards are confirmed server-side; the bank may still ask for 3D Secure
+    if (result?.status === 'requires_action' && result.clientSecret) {
+      const stripe = await stripePromise;
+      const confirmation = await stripe?.confirmCardPayment(result.clientSecret);
+
+      if (!stripe || confirmation?.error) {
+        throw new Error(confirmation?.error?.message || 'Payment confirmation failed');
+      }
+    }
   });
 
   const handleAmountSelect = (selectedAmount: number) => {
@@ -74,31 +171,36 @@ export default function AddFundsModal({
     return parseFloat(amount) || 0;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const payWith = async (paymentMethodId: string) => {
     const finalAmount = getFinalAmount();
     
-    if (finalAmount < 1) {
+    if (finalAmount < 1 || !paymentMethodId) {
       return;
     }
 
-    if (showCardForm) {
-      // Handle new card processing
-      // In production, this would integrate with Stripe Elements
-      console.log('Processing new card:', cardDetails);
+    try {
+      await processPayment(finalAmount, paymentMethodId);
+    } catch {
+      // Error is surfaced by useAsyncOperation
+      return;
     }
 
-    await processPayment(finalAmount);
-    
-    if (!paymentError) {
-      onClose();
-      setAmount('');
-      setCustomAmount('');
-      setSelectedPaymentMethod('');
-      setShowCardForm(false);
-      setCardDetails({ number: '', expiry: '', cvc: '', name: '' });
-    }
+    onClose();
+    setAmount('');
+    setCustomAmount('');
+    setSelectedPaymentMethod('');
+    setShowCardForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await payWith(selectedPaymentMethod);
+  };
+
+  const handleCardSaved = async (paymentMethodId: string) => {
+    await refetchPaymentMethods();
+    setSelectedPaymentMethod(paymentMethodId);
+    setShowCardForm(false);
   };
 
   const handleClose = () => {
@@ -209,11 +311,27 @@ export default function AddFundsModal({
                           </div>
                         </div>
                       </div>
-                      {method.isDefault && (
-                        <Badge variant="cosmic" className="text-xs">
-                          Default
-                        </Badge>
-                      )}
+                      <div className="flex items-center space-x-2">
+                        {method.isDefault && (
+                          <Badge variant="cosmic" className="text-xs">
+                            Default
+                          </Badge>
+                        )}
+                        {getFinalAmount() >= 1 && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            disabled={processing}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setSelectedPaymentMethod(method.id);
+                              payWith(method.id);
+                            }}
+                          >
+                            Pay {formatCurrency(getFinalAmount())}
+                          </Button>
+                        )}
+                      </div>
                     </CardContent>
                   </Card>
                 ))}
@@ -244,60 +362,9 @@ export default function AddFundsModal({
 
             {/* New Card Form */}
             {showCardForm && (
-              <div className="space-y-4 p-4 bg-slate-800/30 rounded-lg">
-                <div className="space-y-2">
-                  <Label htmlFor="card-number" variant="mystical">
-                    Card Number
-                  </Label>
-                  <Input
-                    id="card-number"
-                    variant="mystical"
-                    placeholder="1234 5678 9012 3456"
-                    value={cardDetails.number}
-                    onChange={(e) => setCardDetails(prev => ({ ...prev, number: e.target.value }))}
-                  />
-                </div>
-                
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="card-expiry" variant="mystical">
-                      Expiry
-                    </Label>
-                    <Input
-                      id="card-expiry"
-                      variant="mystical"
-                      placeholder="MM/YY"
-                      value={cardDetails.expiry}
-                      onChange={(e) => setCardDetails(prev => ({ ...prev, expiry: e.target.value }))}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="card-cvc" variant="mystical">
-                      CVC
-                    </Label>
-                    <Input
-                      id="card-cvc"
-                      variant="mystical"
-                      placeholder="123"
-                      value={cardDetails.cvc}
-                      onChange={(e) => setCardDetails(prev => ({ ...prev, cvc: e.target.value }))}
-                    />
-                  </div>
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="card-name" variant="mystical">
-                    Name on Card
-                  </Label>
-                  <Input
-                    id="card-name"
-                    variant="mystical"
-                    placeholder="John Doe"
-                    value={cardDetails.name}
-                    onChange={(e) => setCardDetails(prev => ({ ...prev, name: e.target.value }))}
-                  />
-                </div>
-              </div>
+              <Elements stripe={stripePromise}>
+                <NewCardForm onSaved={handleCardSaved} />
+              </Elements>
             )}
           </div>
 
@@ -354,11 +421,7 @@ export default function AddFundsModal({
               type="submit"
               variant="default"
               loading={processing}
-              disabled={
-                getFinalAmount() < 1 || 
-                (!selectedPaymentMethod && !showCardForm) ||
-                (showCardForm && (!cardDetails.number || !cardDetails.expiry || !cardDetails.cvc || !cardDetails.name))
-              }
+              disabled={getFinalAmount() < 1 || !selectedPaymentMethod}
               className="flex-1"
             >
               Add {formatCurrency(getFinalAmount())}
@@ -55,6 +55,26 @@ interface RecentActivity {
   metadata?: any;
 }
 
+interface DisputeQueueItem {
+  id: string;
+  reason: string;
+  description: string;
+  status: 'open' | 'investigating' | 'resolved' | 'closed';
+  evidence: string[] | null;
+  transcript: { messages: Array<{ id: string; senderName: string; role: 'client' | 'reader'; content: string }> } | null;
+  adminNotes: string | null;
+  createdAt: string;
+  session: {
+    id: string;
+    type: string;
+    duration: number | null;
+    totalCost: string;
+    recordings: Array<{ id: string; status: string; startedAt: string | null }>;
+  };
+  initiator: { id: string; firstName: string | null; lastName: string | null; email: string };
+  respondent: { id: string; firstName: string | null; lastName: string | null; email: string };
+}
+
 interface PendingAction {
   id: string;
   type: 'reader_application' | 'dispute_resolution' | 'content_moderation' | 'refund_request';
@@ -93,6 +113,59 @@ export default function AdminDashboard({ user }: AdminDashboardProps) {
     rating: number;
   }>>('/api/admin/readers/top?limit=5');
 
+  const { data: disputeQueue, loading: disputesLoading, refetch: refetchDisputes } = useApi<{ disputes: DisputeQueueItem[] }>(
+    '/api/admin/disputes'
+  );
+
+  const [selectedDisputeId, setSelectedDisputeId] = useState<string | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [resolution, setResolution] = useState('');
+  const [disputeError, setDisputeError] = useState<string | null>(null);
+  const [updatingDispute, setUpdatingDispute] = useState(false);
+
+  const selectDispute = (disputeId: string) => {
+    setSelectedDisputeId(selectedDisputeId === disputeId ? null : disputeId);
+    setRefundAmount('');
+    setResolution('');
+    setDisputeError(null);
+  };
+
+  const handleUpdateDispute = async (
+    dispute: DisputeQueueItem,
+    status: DisputeQueueItem['status'],
+    refund?: number
+  ) => {
+    setUpdatingDispute(true);
+    setDisputeError(null);
+
+    try {
+      const response = await fetch(`/api/admin/disputes/${dispute.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          resolution: resolution || undefined,
+          refundAmount: refund,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update dispute');
+      }
+
+      if (status !== 'investigating') {
+        setSelectedDisputeId(null);
+      }
+
+      await refetchDisputes();
+    } catch (error) {
+      setDisputeError(error instanceof Error ? error.message : 'Failed to update dispute');
+    } finally {
+      setUpdatingDispute(false);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await refetchStats();
@@ -448,6 +521,190 @@ export default function AdminDashboard({ user }: AdminDashboardProps) {
         </Card>
       </div>
 
+      {/* Dispute Queue */}
+      <Card variant="mystical">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2" />
+            Dispute Queue
+            {disputeQueue && disputeQueue.disputes.length > 0 && (
+              <Badge variant="away" className="ml-2">
+                {disputeQueue.disputes.length}
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {disputesLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-4 bg-slate-700 rounded w-3/4 mb-2" />
+                  <div className="h-3 bg-slate-700 rounded w-1/2" />
+                </div>
+              ))}
+            </div>
+          ) : disputeQueue && disputeQueue.disputes.length > 0 ? (
+            <div className="space-y-4">
+              {disputeQueue.disputes.map((dispute) => {
+                const sessionCost = parseFloat(dispute.session.totalCost || '0');
+                const isSelected = selectedDisputeId === dispute.id;
+
+                return (
+                  <div key={dispute.id} className="p-3 rounded-lg bg-slate-800/50">
+                    <div
+                      className="flex items-start justify-between cursor-pointer"
+                      onClick={() => selectDispute(dispute.id)}
+                    >
+                      <div>
+                        <h4 className="font-medium text-white text-sm">{dispute.reason}</h4>
+                        <p className="text-xs text-slate-400">
+                          {dispute.initiator.firstName} {dispute.initiator.lastName} vs{' '}
+                          {dispute.respondent.firstName} {dispute.respondent.lastName} •{' '}
+                          {dispute.session.type} reading • {formatCurrency(sessionCost)}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <Badge variant={dispute.status === 'open' ? 'away' : 'cosmic'} className="text-xs">
+                          {dispute.status}
+                        </Badge>
+                        <div className="text-xs text-slate-500 mt-1">
+                          {formatRelativeTime(new Date(dispute.createdAt))}
+                        </div>
+                      </div>
+                    </div>
+
+                    {isSelected && (
+                      <div className="mt-4 space-y-4">
+                        <p className="text-sm text-slate-300">{dispute.description}</p>
+
+                        {dispute.evidence && dispute.evidence.length > 0 && (
+                          <div className="space-y-1">
+                            <div className="text-xs font-medium text-slate-400">Evidence</div>
+                            {dispute.evidence.map((url) => (
+                              <a
+                                key={url}
+                                href={url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="block text-xs text-mystical-pink-400 truncate"
+                              >
+                                {url}
+                              </a>
+                            ))}
+                          </div>
+                        )}
+
+                        <div className="space-y-1">
+                          <div className="text-xs font-medium text-slate-400">Transcript</div>
+                          <div className="max-h-48 overflow-y-auto rounded bg-slate-900/50 p-2 space-y-1">
+                            {dispute.transcript && dispute.transcript.messages.length > 0 ? (
+                              dispute.transcript.messages.map((message) => (
+                                <p key={message.id} className="text-xs text-slate-300">
+                                  <span className={message.role === 'client' ? 'text-blue-400' : 'text-mystical-pink-400'}>
+                                    {message.senderName}:
+                                  </span>{' '}
+                                  {message.content}
+                                </p>
+                              ))
+                            ) : (
+                              <p className="text-xs text-slate-500">No chat messages for this session</p>
+                            )}
+                          </div>
+                        </div>
+
+                        {dispute.session.recordings.some((recording) => recording.status === 'ready') && (
+                          <div className="space-y-1">
+                            <div className="text-xs font-medium text-slate-400">Recordings</div>
+                            {dispute.session.recordings
+                              .filter((recording) => recording.status === 'ready')
+                              .map((recording, index) => (
+                                <a
+                                  key={recording.id}
+                                  href={`/api/recordings/${recording.id}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="block text-xs text-mystical-pink-400"
+                                >
+                                  Recording {index + 1}
+                                  {recording.startedAt && ` • started ${formatRelativeTime(new Date(recording.startedAt))}`}
+                                </a>
+                              ))}
+                          </div>
+                        )}
+
+                        <textarea
+                          value={resolution}
+                          onChange={(e) => setResolution(e.target.value)}
+                          placeholder="Resolution shared with both parties"
+                          rows={2}
+                          className="w-full bg-slate-800 border border-slate-600 rounded-md px-3 py-2 text-white text-sm"
+                        />
+
+                        <div className="flex flex-wrap items-center gap-2">
+                          <input
+                            type="number"
+                            min={0}
+                            max={sessionCost}
+                            step="0.01"
+                            value={refundAmount}
+                            onChange={(e) => setRefundAmount(e.target.value)}
+                            placeholder="Refund amount"
+                            className="w-32 bg-slate-800 border border-slate-600 rounded-md px-3 py-2 text-white text-sm"
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRefundAmount(sessionCost.toFixed(2))}
+                          >
+                            Full Refund
+                          </Button>
+                          <Button
+                            size="sm"
+                            loading={updatingDispute}
+                            disabled={!resolution.trim()}
+                            onClick={() => handleUpdateDispute(dispute, 'resolved', parseFloat(refundAmount) || 0)}
+                          >
+                            Resolve
+                          </Button>
+                          {dispute.status === 'open' && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={updatingDispute}
+                              onClick={() => handleUpdateDispute(dispute, 'investigating')}
+                            >
+                              Investigate
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={updatingDispute}
+                            onClick={() => handleUpdateDispute(dispute, 'closed')}
+                          >
+                            Close Without Refund
+                          </Button>
+                        </div>
+
+                        {disputeError && (
+                          <p className="text-xs text-red-400">{disputeError}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <Shield className="w-12 h-12 text-slate-600 mx-auto mb-4" />
+              <p className="text-slate-400">No disputes waiting for review</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Top Readers */}
       <Card variant="mystical">
         <CardHeader>
@@ -159,6 +159,11 @@ export default function ClientDashboard({ user }: ClientDashboardProps) {
               <div className="text-sm text-slate-400">
                 Available for readings
               </div>
+              {balance && parseFloat(balance.pendingCharges || '0') > 0 && (
+                <div className="text-xs text-slate-500 mt-1">
+                  {formatCurrency(parseFloat(balance.pendingCharges))} on hold for active readings
+                </div>
+              )}
             </div>
             
             {balance && parseFloat(balance.balance) < 10 && (
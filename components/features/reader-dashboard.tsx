@@ -18,7 +18,9 @@ import {
   Award,
   Timer,
   Radio,
-  CreditCard
+  CreditCard,
+  Bell,
+  ShoppingBag
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -27,6 +29,8 @@ import { Progress } from '@/components/ui/progress';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { formatCurrency, formatDuration, formatRelativeTime } from '@/lib/utils';
 import { useApi, useReaderProfile } from '@/lib/hooks';
+import { ablyService } from '@/lib/ably';
+import { ReadingSession } from '@/components/features/reading-session';
 
 interface ReaderDashboardProps {
   user: any;
@@ -68,6 +72,56 @@ interface RecentSession {
   createdAt: string;
 }
 
+interface StreamReport {
+  streamId: string;
+  title: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  durationSeconds: number;
+  peakViewers: number;
+  uniqueViewers: number;
+  averageWatchTimeSeconds: number;
+  likes: number;
+  timeline: Array<{ at: string; viewers: number }>;
+  gifts: { count: number; revenue: number; earnings: number };
+  tickets: { sold: number; revenue: number };
+  conversions: { viewers: number; readings: number; rate: number; revenue: number };
+}
+
+interface ProductSale {
+  id: string;
+  orderId: string;
+  grossAmount: string;
+  marketplaceFee: string;
+  sellerAmount: string;
+  status: 'held' | 'released' | 'reversed';
+  releaseAt: string;
+  createdAt: string;
+  product: {
+    id: string;
+    name: string;
+  };
+  orderItem: {
+    quantity: number;
+  };
+}
+
+interface ProductSalesData {
+  sales: ProductSale[];
+  summary: { held: number; released: number; reversed: number };
+}
+
+interface ReadingRequest {
+  id: string;
+  type: 'chat' | 'voice' | 'video';
+  ratePerMinute: string;
+  requestExpiresAt: string;
+  client: {
+    firstName: string;
+    profileImage?: string;
+  };
+}
+
 export default function ReaderDashboard({ user }: ReaderDashboardProps) {
   const [statusLoading, setStatusLoading] = useState(false);
   
@@ -89,6 +143,60 @@ export default function ReaderDashboard({ user }: ReaderDashboardProps) {
     '/api/reader/earnings/weekly'
   );
 
+  const { data: streamReportData } = useApi<{ reports: StreamReport[] }>(
+    '/api/live/streams/reports?limit=5'
+  );
+  const [selectedStreamId, setSelectedStreamId] = useState<string | null>(null);
+
+  const { data: productSales } = useApi<ProductSalesData>('/api/shop/sales?limit=10');
+
+  const { data: requestData, refetch: refetchRequests } = useApi<{ requests: ReadingRequest[] }>(
+    '/api/readings/requests'
+  );
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Ring on new requests; polling catches missed messages and expiries
+  useEffect(() => {
+    let unsubscribe: (() => Promise<void>) | undefined;
+
+    ablyService
+      .subscribeToReadingRequests(user.id, () => {
+        refetchRequests().catch(() => {});
+      })
+      .then((cleanup) => {
+        unsubscribe = cleanup;
+      })
+      .catch((error) => console.error('Failed to subscribe to reading requests:', error));
+
+    const poll = setInterval(() => refetchRequests().catch(() => {}), 15000);
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => {
+      clearInterval(poll);
+      clearInterval(clock);
+      unsubscribe?.();
+    };
+  }, [user.id, refetchRequests]);
+
+  const handleRequestResponse = async (sessionId: string, action: 'accept' | 'decline') => {
+    setRespondingTo(sessionId);
+    try {
+      const response = await fetch(`/api/readings/${sessionId}/${action}`, { method: 'POST' });
+
+      if (response.ok && action === 'accept') {
+        setActiveSessionId(sessionId);
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} reading request:`, error);
+    } finally {
+      setRespondingTo(null);
+      refetchRequests().catch(() => {});
+      refetchProfile();
+    }
+  };
+
   const handleStatusToggle = async (isOnline: boolean) => {
     setStatusLoading(true);
     try {
@@ -173,6 +281,29 @@ export default function ReaderDashboard({ user }: ReaderDashboardProps) {
     },
   ];
 
+  if (activeSessionId) {
+    return (
+      <ReadingSession
+        sessionId={activeSessionId}
+        onSessionEnd={() => {
+          setActiveSessionId(null);
+          refetchProfile();
+        }}
+      />
+    );
+  }
+
+  const pendingRequests = (requestData?.requests || []).filter(
+    (request) => new Date(request.requestExpiresAt).getTime() > now
+  );
+
+  const streamReports = streamReportData?.reports || [];
+  const streamReport =
+    streamReports.find((report) => report.streamId === selectedStreamId) || streamReports[0];
+  const peakSample = streamReport
+    ? Math.max(...streamReport.timeline.map((sample) => sample.viewers), 1)
+    : 1;
+
   return (
     <div className="space-y-8">
       {/* Welcome Header */}
@@ -273,6 +404,61 @@ export default function ReaderDashboard({ user }: ReaderDashboardProps) {
         </CardContent>
       </Card>
 
+      {/* Incoming Requests */}
+      {pendingRequests.length > 0 && (
+        <Card variant="cosmic" glow>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Bell className="w-5 h-5 mr-2 animate-pulse" />
+              Incoming Requests
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {pendingRequests.map((request) => (
+              <div
+                key={request.id}
+                className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg"
+              >
+                <div className="flex items-center space-x-3">
+                  <Avatar size="sm">
+                    <AvatarImage src={request.client.profileImage} />
+                    <AvatarFallback>
+                      {request.client.firstName?.[0]}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <div className="text-white font-medium">
+                      {request.client.firstName} • {request.type} reading
+                    </div>
+                    <div className="text-xs text-slate-400">
+                      {formatCurrency(parseFloat(request.ratePerMinute))}/min • expires in{' '}
+                      {Math.max(0, Math.ceil((new Date(request.requestExpiresAt).getTime() - now) / 1000))}s
+                    </div>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleRequestResponse(request.id, 'accept')}
+                    loading={respondingTo === request.id}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRequestResponse(request.id, 'decline')}
+                    disabled={respondingTo === request.id}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Earnings Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {earningsCards.map((card, index) => (
@@ -467,6 +653,138 @@ export default function ReaderDashboard({ user }: ReaderDashboardProps) {
         </CardContent>
       </Card>
 
+      {/* Stream Reports */}
+      {streamReport && (
+        <Card variant="mystical">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center">
+                <Radio className="w-5 h-5 mr-2" />
+                Stream Reports
+              </span>
+              {streamReport.endedAt && (
+                <span className="text-sm font-normal text-slate-400">
+                  {formatRelativeTime(new Date(streamReport.endedAt))}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {streamReports.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {streamReports.map((report) => (
+                  <Button
+                    key={report.streamId}
+                    size="sm"
+                    variant={report.streamId === streamReport.streamId ? 'default' : 'ghost'}
+                    onClick={() => setSelectedStreamId(report.streamId)}
+                  >
+                    {report.title}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <div className="text-2xl font-bold text-white">{streamReport.peakViewers}</div>
+                <div className="text-xs text-slate-400">
+                  Peak viewers • {streamReport.uniqueViewers} total
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-white">
+                  {formatDuration(streamReport.averageWatchTimeSeconds)}
+                </div>
+                <div className="text-xs text-slate-400">
+                  Average watch time of {formatDuration(streamReport.durationSeconds)}
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-white">
+                  {formatCurrency(streamReport.gifts.earnings)}
+                </div>
+                <div className="text-xs text-slate-400">
+                  From {streamReport.gifts.count} gifts
+                  {streamReport.tickets.sold > 0 && ` • ${streamReport.tickets.sold} tickets sold`}
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-white">{streamReport.conversions.rate}%</div>
+                <div className="text-xs text-slate-400">
+                  {streamReport.conversions.viewers} viewers booked {streamReport.conversions.readings} readings
+                  ({formatCurrency(streamReport.conversions.revenue)})
+                </div>
+              </div>
+            </div>
+
+            {streamReport.timeline.length > 0 ? (
+              <div>
+                <div className="text-sm text-slate-300 mb-2">Viewers over time</div>
+                <div className="flex items-end h-32 gap-px">
+                  {streamReport.timeline.map((sample) => (
+                    <div
+                      key={sample.at}
+                      className="flex-1 bg-mystical-pink-500/70 rounded-t"
+                      style={{ height: `${Math.max(2, (sample.viewers / peakSample) * 100)}%` }}
+                      title={`${new Date(sample.at).toLocaleTimeString()}: ${sample.viewers} viewers`}
+                    />
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">No viewers were recorded for this stream</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Product Sales */}
+      {productSales && productSales.sales.length > 0 && (
+        <Card variant="mystical">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center">
+                <ShoppingBag className="w-5 h-5 mr-2" />
+                Product Sales
+              </span>
+              <span className="text-sm font-normal text-slate-400">
+                {formatCurrency(productSales.summary.held)} on hold • {formatCurrency(productSales.summary.released)} released
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {productSales.sales.map((sale) => (
+              <div key={sale.id} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg">
+                <div>
+                  <div className="text-white font-medium">
+                    {sale.product.name}
+                    {sale.orderItem.quantity > 1 && ` × ${sale.orderItem.quantity}`}
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    {formatRelativeTime(new Date(sale.createdAt))} • {formatCurrency(parseFloat(sale.grossAmount))} less {formatCurrency(parseFloat(sale.marketplaceFee))} fee
+                    {sale.status === 'held' && ` • releases by ${new Date(sale.releaseAt).toLocaleDateString()}`}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className={sale.status === 'reversed' ? 'text-slate-500 line-through' : 'text-white font-medium'}>
+                    {formatCurrency(parseFloat(sale.sellerAmount))}
+                  </div>
+                  <Badge variant={sale.status === 'reversed' ? 'destructive' : sale.status === 'released' ? 'mystical' : 'outline'}>
+                    {sale.status}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+            <Link href="/shop/sales">
+              <Button variant="outline" size="sm" className="w-full">
+                Orders to Ship
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Link href="/reader/pricing">
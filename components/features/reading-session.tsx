@@ -13,7 +13,8 @@ import {
   X,
   Star,
   Heart,
-  AlertCircle
+  AlertCircle,
+  Circle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -24,11 +25,14 @@ import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { formatCurrency, formatDuration } from '@/lib/utils';
-import { useReadingSession, useClientBalance } from '@/lib/hooks';
-import { agoraService } from '@/lib/agora';
-import { ablyService } from '@/lib/ably';
+import { useReadingSession, useClientBalance, useCurrentUser } from '@/lib/hooks';
+import { agoraService, fetchAgoraToken } from '@/lib/agora';
+import { ablyService, ChannelNames } from '@/lib/ably';
 import { cn } from '@/lib/utils';
 
+// How often the client pings the server-side meter
+const METER_INTERVAL_MS = 30 * 1000;
+
 interface ReadingSessionProps {
   sessionId?: string;
   readerId?: string;
@@ -37,6 +41,12 @@ interface ReadingSessionProps {
   onSessionStart?: (session: any) => void;
 }
 
+interface RecordingState {
+  clientConsent: boolean;
+  readerConsent: boolean;
+  isRecording: boolean;
+}
+
 interface Message {
   id: string;
   type: 'text' | 'image' | 'system';
@@ -67,16 +77,29 @@ export function ReadingSession({
   const [rating, setRating] = useState(0);
   const [review, setReview] = useState('');
   const [isSubmittingReview, setIsSubmittingReview] = useState(false);
+  const [lowBalance, setLowBalance] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [recording, setRecording] = useState<RecordingState>({
+    clientConsent: false,
+    readerConsent: false,
+    isRecording: false,
+  });
+  const [isUpdatingConsent, setIsUpdatingConsent] = useState(false);
 
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const localVideoRef = useRef<HTMLDivElement>(null);
   const remoteVideoRef = useRef<HTMLDivElement>(null);
   const durationTimerRef = useRef<NodeJS.Timeout>();
+  const meterTimerRef = useRef<NodeJS.Timeout>();
+  const syncMeterRef = useRef<() => Promise<void>>();
+  const leaveAblyRef = useRef<() => Promise<void>>();
 
   // Hooks
-  const { session, loading, startSession, endSession } = useReadingSession(sessionId);
-  const { balance, refetch: refetchBalance } = useClientBalance();
+  const { session, loading, startSession, endSession, meterSession, refetch: refetchSession } = useReadingSession(sessionId);
+  const { refetch: refetchBalance } = useClientBalance();
+  const { user: currentUser } = useCurrentUser();
 
   // Initialize session if starting new one
   useEffect(() => {
@@ -85,16 +108,11 @@ export function ReadingSession({
     }
   }, [readerId, sessionType, sessionId]);
 
-  // Setup duration timer
+  // Setup duration timer (display only - billing is metered on the server)
   useEffect(() => {
-    if (session?.status === 'active') {
+    if (session?.status === 'active' && !isPaused) {
       durationTimerRef.current = setInterval(() => {
         setDuration(prev => prev + 1);
-        
-        // Calculate current cost
-        const minutes = Math.ceil((duration + 1) / 60);
-        const rate = session.ratePerMinute;
-        setCurrentCost(minutes * rate);
       }, 1000);
 
       return () => {
@@ -103,22 +121,87 @@ export function ReadingSession({
         }
       };
     }
-  }, [session, duration]);
+  }, [session, isPaused]);
+
+  // Send metering heartbeats and sync cost with the server. A booked reading
+  // waits as pending until both participants are here; the heartbeat is what
+  // starts it.
+  useEffect(() => {
+    if (session?.status !== 'active' && session?.status !== 'pending') return;
+
+    const syncMeter = async () => {
+      try {
+        const meter = await meterSession();
+        if (!meter || meter.status === 'pending') return;
+
+        // Started, or closed, since we loaded it
+        if (session.status === 'pending') {
+          refetchSession();
+          return;
+        }
+
+        setDuration(meter.elapsedSeconds);
+        setCurrentCost(meter.amountReserved);
+        setLowBalance(meter.lowBalance);
+        setIsPaused(meter.paused);
+
+        if (meter.status !== 'active') {
+          handleSessionEnded(meter.endReason);
+        }
+      } catch (error) {
+        console.error('Failed to sync session meter:', error);
+      }
+    };
+
+    syncMeterRef.current = syncMeter;
+    syncMeter();
+    meterTimerRef.current = setInterval(syncMeter, METER_INTERVAL_MS);
+
+    return () => {
+      if (meterTimerRef.current) {
+        clearInterval(meterTimerRef.current);
+      }
+    };
+  }, [session, meterSession, refetchSession]);
+
+  // Recording is opt-in for voice and video readings; pick up where things stand
+  useEffect(() => {
+    if (session?.status !== 'active' || sessionType === 'chat') return;
+
+    const loadRecordingState = async () => {
+      try {
+        const response = await fetch(`/api/readings/${session.id}/recording`);
+        if (!response.ok) return;
+
+        const { clientConsent, readerConsent, isRecording } = await response.json();
+        setRecording({ clientConsent, readerConsent, isRecording });
+      } catch (error) {
+        console.error('Failed to load recording state:', error);
+      }
+    };
+
+    loadRecordingState();
+  }, [session?.id, session?.status, sessionType]);
 
   // Setup real-time communication
   useEffect(() => {
     if (session && session.agoraChannelName) {
       setupAgoraConnection();
     }
-    if (session && session.ablyChannelName) {
-      setupAblyConnection();
-    }
 
     return () => {
       cleanup();
     };
   }, [session]);
 
+  // Join the chat channel once we know who we are, so presence reflects the
+  // right participant
+  useEffect(() => {
+    if (session?.ablyChannelName && currentUser) {
+      setupAblyConnection();
+    }
+  }, [session, currentUser]);
+
   // Auto-scroll messages
   useEffect(() => {
     scrollToBottom();
@@ -146,10 +229,35 @@ export function ReadingSession({
     }
   };
 
+  const handleSessionEnded = (reason?: string | null) => {
+    if (meterTimerRef.current) {
+      clearInterval(meterTimerRef.current);
+    }
+
+    addSystemMessage(
+      reason === 'insufficient_funds'
+        ? 'Session ended: your balance ran out'
+        : reason === 'disconnected'
+          ? 'Session ended: the connection was not restored in time'
+          : 'Session ended'
+    );
+    cleanup();
+    refetchBalance();
+    onSessionEnd?.();
+  };
+
   const setupAgoraConnection = async () => {
-    if (!session?.agoraChannelName || !session?.agoraToken) return;
+    if (!session?.agoraChannelName) return;
 
     try {
+      const grant = await fetchAgoraToken({ sessionId: session.id });
+
+      // Long sessions outlive a single token; the server only renews while the session is active
+      agoraService.onTokenRequired = async () => {
+        const renewed = await fetchAgoraToken({ sessionId: session.id });
+        return renewed.token;
+      };
+
       // Setup event listeners
       agoraService.onUserJoined = (uid) => {
         addSystemMessage('Reader joined the session');
@@ -159,11 +267,19 @@ export function ReadingSession({
         addSystemMessage('Reader left the session');
       };
 
+      agoraService.onRejoined = () => {
+        addSystemMessage('Call reconnected');
+      };
+
+      agoraService.onRejoinFailed = () => {
+        addSystemMessage('Could not reconnect the call. Billing pauses until you rejoin.');
+      };
+
       // Join channel
       await agoraService.joinChannel(
-        session.agoraToken,
-        session.agoraChannelName,
-        session.clientId || 'client',
+        grant.token,
+        grant.channelName,
+        grant.uid,
         'host'
       );
 
@@ -182,30 +298,129 @@ export function ReadingSession({
   };
 
   const setupAblyConnection = async () => {
-    if (!session?.ablyChannelName) return;
+    if (!session?.ablyChannelName || !currentUser || leaveAblyRef.current) return;
+
+    const role = currentUser.id === session.readerId ? 'reader' : 'client';
 
     try {
-      const { channel, sendMessage } = await ablyService.joinReadingSession(
+      const { channel, leave } = await ablyService.joinReadingSession(
         session.id,
-        session.clientId,
+        currentUser.id,
         {
-          name: 'Client',
-          role: 'client',
+          name: currentUser.firstName || (role === 'reader' ? 'Reader' : 'Client'),
+          avatar: currentUser.profileImage || undefined,
+          role,
         }
       );
 
-      // Listen for messages
+      const stopPresence = await ablyService.subscribeToPresence(
+        ChannelNames.readingSession(session.id),
+        (action, member) => {
+          if (member?.userId === currentUser.id || action === 'update') return;
+
+          addSystemMessage(
+            action === 'leave'
+              ? `${member.username} disconnected. Waiting for them to reconnect...`
+              : `${member.username} is connected`
+          );
+
+          // Let the server pause or resume billing right away
+          syncMeterRef.current?.();
+        }
+      );
+
+      leaveAblyRef.current = async () => {
+        await leave();
+        await stopPresence();
+      };
+
+      // Ably reconnects on its own; catch up on anything missed while offline
+      ablyService.onDisconnected = () => {
+        setIsReconnecting(true);
+      };
+
+      ablyService.onConnected = () => {
+        setIsReconnecting(false);
+        loadMessageHistory();
+        syncMeterRef.current?.();
+      };
+
+      // Listen for messages, which the server publishes once they are stored
       await channel.subscribe('message', (message) => {
-        setMessages(prev => [...prev, message.data]);
+        addMessages([message.data]);
       });
 
-      // Store send function for later use
-      (window as any).sendAblyMessage = sendMessage;
+      await loadMessageHistory();
+
+      // Listen for billing events published by the server
+      await channel.subscribe('system', (message: { data: any }) => {
+        if (message.data?.type === 'low_balance') {
+          setLowBalance(true);
+          addSystemMessage(
+            `Low balance: about ${message.data.data.remainingMinutes} minute(s) remaining`
+          );
+        } else if (message.data?.type === 'session_ended') {
+          handleSessionEnded(message.data.data.reason);
+        } else if (message.data?.type === 'status_update') {
+          const { state } = message.data.data;
+
+          if (state === 'paused') {
+            setIsPaused(true);
+            addSystemMessage('Billing paused until everyone is connected again');
+          } else if (state === 'resumed') {
+            setIsPaused(false);
+            addSystemMessage('Billing resumed');
+          }
+        } else if (message.data?.type === 'recording_update') {
+          handleRecordingUpdate(message.data.data);
+        }
+      });
     } catch (error) {
       console.error('Failed to setup Ably connection:', error);
     }
   };
 
+  const handleRecordingUpdate = (next: RecordingState) => {
+    setRecording(prev => {
+      if (next.isRecording && !prev.isRecording) {
+        addSystemMessage('Recording started');
+      } else if (!next.isRecording && prev.isRecording) {
+        addSystemMessage('Recording stopped');
+      } else if (!next.isRecording && (next.clientConsent !== next.readerConsent)) {
+        addSystemMessage(
+          `${next.clientConsent ? 'The client' : 'The reader'} would like to record this reading`
+        );
+      }
+
+      return next;
+    });
+  };
+
+  const updateRecordingConsent = async (consent: boolean) => {
+    if (!session) return;
+
+    setIsUpdatingConsent(true);
+
+    try {
+      const response = await fetch(`/api/readings/${session.id}/recording`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ consent }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update recording consent');
+      }
+
+      handleRecordingUpdate(await response.json());
+    } catch (error) {
+      console.error('Failed to update recording consent:', error);
+    } finally {
+      setIsUpdatingConsent(false);
+    }
+  };
+
   const enableVideo = async () => {
     try {
       const videoTrack = await agoraService.enableVideo();
@@ -254,14 +469,54 @@ export function ReadingSession({
     }
   };
 
+  const addMessages = (incoming: Message[]) => {
+    setMessages(prev => {
+      const seen = new Set(prev.map(message => message.id));
+      return [...prev, ...incoming.filter(message => !seen.has(message.id))];
+    });
+  };
+
+  // Pick up messages sent before this client joined or while it was offline
+  const loadMessageHistory = async () => {
+    if (!session) return;
+
+    try {
+      const response = await fetch(`/api/readings/${session.id}/messages`);
+
+      if (!response.ok) return;
+
+      const { messages: history } = await response.json();
+      addMessages(history.map((message: any) => ({
+        id: message.id,
+        type: message.type,
+        content: message.content,
+        senderId: message.senderId,
+        senderName: message.senderId === session.clientId ? 'Client' : 'Reader',
+        timestamp: message.createdAt,
+      })));
+    } catch (error) {
+      console.error('Failed to load message history:', error);
+    }
+  };
+
   const sendMessage = async () => {
-    if (!newMessage.trim() || !(window as any).sendAblyMessage) return;
+    if (!newMessage.trim() || !session) return;
 
     try {
-      await (window as any).sendAblyMessage({
-        type: 'text',
-        content: newMessage,
+      const response = await fetch(`/api/readings/${session.id}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'text',
+          content: newMessage,
+        }),
       });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to send message');
+      }
+
       setNewMessage('');
     } catch (error) {
       console.error('Failed to send message:', error);
@@ -284,10 +539,19 @@ export function ReadingSession({
     if (durationTimerRef.current) {
       clearInterval(durationTimerRef.current);
     }
+
+    if (meterTimerRef.current) {
+      clearInterval(meterTimerRef.current);
+    }
     
     try {
+      agoraService.onTokenRequired = undefined;
       await agoraService.leaveChannel();
-      // Cleanup Ably connection would go here
+
+      if (leaveAblyRef.current) {
+        await leaveAblyRef.current();
+        leaveAblyRef.current = undefined;
+      }
     } catch (error) {
       console.error('Error during cleanup:', error);
     }
@@ -311,6 +575,10 @@ export function ReadingSession({
     });
   };
 
+  const isReader = !!currentUser && currentUser.id === session?.readerId;
+  const myRecordingConsent = isReader ? recording.readerConsent : recording.clientConsent;
+  const otherRecordingConsent = isReader ? recording.clientConsent : recording.readerConsent;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -341,10 +609,20 @@ export function ReadingSession({
                     {session.reader.displayName}
                   </h2>
                   <div className="flex items-center space-x-2">
-                    <Badge variant="online">Connected</Badge>
+                    {isReconnecting ? (
+                      <Badge variant="away">Reconnecting...</Badge>
+                    ) : (
+                      <Badge variant="online">Connected</Badge>
+                    )}
                     <Badge variant="mystical">
                       {sessionType.charAt(0).toUpperCase() + sessionType.slice(1)} Session
                     </Badge>
+                    {recording.isRecording && (
+                      <Badge variant="live">
+                        <Circle className="w-2 h-2 mr-1 fill-current" />
+                        Recording
+                      </Badge>
+                    )}
                   </div>
                 </div>
               </>
@@ -378,7 +656,40 @@ export function ReadingSession({
         </div>
 
         {/* Balance Warning */}
-        {balance && parseFloat(balance.balance) < currentCost + 5 && (
+        {isPaused && (
+          <div className="mt-3 p-3 bg-blue-500/10 border border-blue-500/20 rounded-md">
+            <div className="flex items-center space-x-2 text-blue-400 text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>
+                Billing is paused while waiting for the other participant to reconnect
+              </span>
+            </div>
+          </div>
+        )}
+
+        {sessionType !== 'chat' && otherRecordingConsent && !myRecordingConsent && (
+          <div className="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
+            <div className="flex items-center justify-between text-red-400 text-sm">
+              <div className="flex items-center space-x-2">
+                <Circle className="w-4 h-4" />
+                <span>
+                  {isReader ? 'The client' : 'Your reader'} would like to record this reading.
+                  Recordings are only available to the two of you and to support if there is a dispute.
+                </span>
+              </div>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => updateRecordingConsent(true)}
+                disabled={isUpdatingConsent}
+              >
+                Allow Recording
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {lowBalance && (
           <div className="mt-3 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
             <div className="flex items-center space-x-2 text-yellow-400 text-sm">
               <AlertCircle className="w-4 h-4" />
@@ -434,6 +745,17 @@ export function ReadingSession({
                   {isVideoEnabled ? <Video className="w-6 h-6" /> : <VideoOff className="w-6 h-6" />}
                 </Button>
               )}
+
+              <Button
+                variant={myRecordingConsent ? "destructive" : "secondary"}
+                size="lg"
+                onClick={() => updateRecordingConsent(!myRecordingConsent)}
+                disabled={isUpdatingConsent}
+                className="rounded-full"
+                title={myRecordingConsent ? 'Stop recording' : 'Ask to record this reading'}
+              >
+                <Circle className={cn("w-6 h-6", myRecordingConsent && "fill-current")} />
+              </Button>
             </div>
           </div>
         )}
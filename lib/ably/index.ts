@@ -1,15 +1,18 @@
 import Ably from 'ably';
 
-if (!process.env.NEXT_PUBLIC_ABLY_KEY) {
-  throw new Error('NEXT_PUBLIC_ABLY_KEY is not set');
+const isServer = typeof window === 'undefined';
+
+if (isServer && !process.env.ABLY_SECRET_KEY) {
+  throw new Error('ABLY_SECRET_KEY is not set');
 }
 
-// Ably client instance
-export const ably = new Ably.Realtime({
-  key: process.env.NEXT_PUBLIC_ABLY_KEY,
-  clientId: typeof window !== 'undefined' ? `client-${Date.now()}` : undefined,
-  echoMessages: false,
-});
+// Ably client instance. The server uses the secret key; browsers get scoped
+// tokens from /api/ably/token and only connect once something needs them.
+export const ably = new Ably.Realtime(
+  isServer
+    ? { key: process.env.ABLY_SECRET_KEY, echoMessages: false }
+    : { authUrl: '/api/ably/token', autoConnect: false, echoMessages: false }
+);
 
 // Message types
 export interface ChatMessage {
@@ -25,11 +28,21 @@ export interface ChatMessage {
 }
 
 export interface SystemMessage {
-  type: 'user_joined' | 'user_left' | 'session_started' | 'session_ended' | 'gift_sent' | 'status_update';
+  type: 'user_joined' | 'user_left' | 'session_started' | 'session_ended' | 'gift_sent' | 'status_update' | 'low_balance' | 'request_closed' | 'recording_update' | 'message_removed' | 'like_update' | 'viewer_count';
   data: Record<string, any>;
   timestamp: string;
 }
 
+export interface ReadingRequestEvent {
+  sessionId: string;
+  clientId: string;
+  clientName: string;
+  clientAvatar?: string | null;
+  type: 'chat' | 'voice' | 'video';
+  ratePerMinute: number;
+  expiresAt: string;
+}
+
 export interface PresenceData {
   userId: string;
   username: string;
@@ -90,6 +103,10 @@ export class AblyService {
       return this.connectionPromise;
     }
 
+    if (['initialized', 'closed', 'failed'].includes(ably.connection.state)) {
+      ably.connect();
+    }
+
     this.connectionPromise = new Promise((resolve, reject) => {
       if (this.isConnected) {
         resolve();
@@ -132,11 +149,15 @@ export class AblyService {
     userInfo: { name: string; avatar?: string; role: 'client' | 'reader' }
   ): Promise<{
     channel: Ably.Types.RealtimeChannelPromise;
-    sendMessage: (message: Omit<ChatMessage, 'id' | 'timestamp' | 'senderId' | 'senderName' | 'senderAvatar'>) => Promise<void>;
     leave: () => Promise<void>;
   }> {
     await this.ensureConnection();
 
+    // A session that started after our token was issued isn't in its capability yet
+    if (!isServer) {
+      await ably.auth.authorize();
+    }
+
     const channelName = `reading-session:${sessionId}`;
     const channel = ably.channels.get(channelName);
     
@@ -151,26 +172,13 @@ export class AblyService {
       status: 'online',
     });
 
-    const sendMessage = async (messageData: Omit<ChatMessage, 'id' | 'timestamp' | 'senderId' | 'senderName' | 'senderAvatar'>) => {
-      const message: ChatMessage = {
-        id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        timestamp: new Date().toISOString(),
-        senderId: userId,
-        senderName: userInfo.name,
-        senderAvatar: userInfo.avatar,
-        ...messageData,
-      };
-
-      await channel.publish('message', message);
-    };
-
     const leave = async () => {
       await channel.presence.leave();
       await channel.detach();
       this.channels.delete(channelName);
     };
 
-    return { channel, sendMessage, leave };
+    return { channel, leave };
   }
 
   /**
@@ -188,6 +196,12 @@ export class AblyService {
   }> {
     await this.ensureConnection();
 
+    // A stream that was scheduled, or a ticket bought, after our token was
+    // issued isn't in its capability yet
+    if (!isServer) {
+      await ably.auth.authorize();
+    }
+
     const channelName = `live-stream:${streamId}`;
     const channel = ably.channels.get(channelName);
     
@@ -342,6 +356,104 @@ export class AblyService {
     await channel.publish('status-update', status);
   }
 
+  /**
+   * Subscribe to incoming reading requests on the reader's status channel
+   */
+  async subscribeToReadingRequests(
+    readerId: string,
+    onRequest: (request: ReadingRequestEvent) => void
+  ): Promise<() => Promise<void>> {
+    await this.ensureConnection();
+
+    const channelName = `reader:${readerId}:status`;
+    const channel = ably.channels.get(channelName);
+
+    this.channels.set(channelName, channel);
+
+    await channel.subscribe('reading-request', (message) => {
+      onRequest(message.data);
+    });
+
+    return async () => {
+      await channel.unsubscribe('reading-request');
+    };
+  }
+
+  /**
+   * Ring a reader with a new reading request
+   */
+  async publishReadingRequest(
+    readerId: string,
+    request: ReadingRequestEvent
+  ): Promise<void> {
+    await this.ensureConnection();
+
+    const channelName = `reader:${readerId}:status`;
+    const channel = ably.channels.get(channelName);
+
+    await channel.publish('reading-request', request);
+  }
+
+  /**
+   * Publish a stored chat message to a reading session channel
+   */
+  async publishSessionMessage(
+    sessionId: string,
+    message: ChatMessage
+  ): Promise<void> {
+    await this.ensureConnection();
+
+    const channelName = `reading-session:${sessionId}`;
+    const channel = ably.channels.get(channelName);
+
+    await channel.publish('message', message);
+  }
+
+  /**
+   * Publish a system event to a reading session channel
+   */
+  async publishSessionEvent(
+    sessionId: string,
+    message: SystemMessage
+  ): Promise<void> {
+    await this.ensureConnection();
+
+    const channelName = `reading-session:${sessionId}`;
+    const channel = ably.channels.get(channelName);
+
+    await channel.publish('system', message);
+  }
+
+  /**
+   * Publish a stored chat message to a live stream channel
+   */
+  async publishStreamMessage(
+    streamId: string,
+    message: ChatMessage
+  ): Promise<void> {
+    await this.ensureConnection();
+
+    const channelName = `live-stream:${streamId}`;
+    const channel = ably.channels.get(channelName);
+
+    await channel.publish('chat', message);
+  }
+
+  /**
+   * Publish a system event to a live stream channel
+   */
+  async publishStreamEvent(
+    streamId: string,
+    message: SystemMessage
+  ): Promise<void> {
+    await this.ensureConnection();
+
+    const channelName = `live-stream:${streamId}`;
+    const channel = ably.channels.get(channelName);
+
+    await channel.publish('system', message);
+  }
+
   /**
    * Send notification to user
    */
@@ -490,39 +602,6 @@ export class AblyService {
   }
 }
 
-// Server-side functions for Ably token authentication (when using token auth)
-export async function generateAblyToken(
-  clientId: string,
-  capability?: Record<string, string[]>
-): Promise<string> {
-  if (typeof window !== 'undefined') {
-    throw new Error('Token generation should be done server-side');
-  }
-
-  try {
-    const response = await fetch('/api/ably/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        clientId,
-        capability,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to generate token');
-    }
-
-    const { token } = await response.json();
-    return token;
-  } catch (error) {
-    console.error('Error generating Ably token:', error);
-    throw error;
-  }
-}
-
 // Utility functions
 export function formatChatMessage(
   content: string,
@@ -544,7 +623,7 @@ export function formatChatMessage(
 
 export function isSystemMessage(message: any): message is SystemMessage {
   return message && typeof message.type === 'string' && 
-         ['user_joined', 'user_left', 'session_started', 'session_ended', 'gift_sent', 'status_update'].includes(message.type);
+         ['user_joined', 'user_left', 'session_started', 'session_ended', 'gift_sent', 'status_update', 'low_balance', 'request_closed', 'recording_update', 'message_removed', 'like_update', 'viewer_count'].includes(message.type);
 }
 
 export function formatSystemMessage(
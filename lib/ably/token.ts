@@ -0,0 +1,108 @@
+import Ably from 'ably';
+import { db } from '@/lib/db';
+import { readingSessions, liveStreams, streamTickets } from '@/lib/db/schema';
+import { and, or, eq, inArray, sql } from 'drizzle-orm';
+import { hasPermission, type AuthUser } from '@/lib/auth';
+import { ChannelNames } from '@/lib/ably';
+
+// Server-only: signs token requests with the secret key. Browsers fetch
+// them from /api/ably/token via the client's authUrl.
+
+export const ABLY_TOKEN_CONFIG = {
+  ttlSeconds: 60 * 60, // The client library re-authenticates before this runs out
+};
+
+type Capability = Record<string, Ably.CapabilityOp[]>;
+
+let rest: Ably.Rest | null = null;
+
+function getRestClient(): Ably.Rest {
+  if (!process.env.ABLY_SECRET_KEY) {
+    throw new Error('ABLY_SECRET_KEY is not set');
+  }
+
+  if (!rest) {
+    rest = new Ably.Rest({ key: process.env.ABLY_SECRET_KEY });
+  }
+
+  return rest;
+}
+
+/**
+ * Channels a user may use from the browser:
+ * - their own user:{id}:* channels
+ * - their own reader status channel, where reading requests arrive
+ * - reading-session:{id} for pending and active sessions they are part of;
+ *   only the server publishes there, chat goes through the messages API
+ * - live-stream:{id} as a viewer of upcoming and live streams they can
+ *   watch: their own, free public ones and ones they hold a ticket for (the
+ *   same rule as getStreamAccess); the server publishes stream events
+ * - live-stream:* and admin:moderation, for moderators only
+ */
+export async function buildAblyCapability(user: AuthUser): Promise<Capability> {
+  const capability: Capability = {
+    [`user:${user.id}:*`]: ['subscribe', 'publish', 'history'],
+  };
+
+  if (user.role === 'reader') {
+    capability[ChannelNames.readerStatus(user.id)] = ['subscribe'];
+  }
+
+  const sessions = await db
+    .select({ id: readingSessions.id })
+    .from(readingSessions)
+    .where(
+      and(
+        or(eq(readingSessions.clientId, user.id), eq(readingSessions.readerId, user.id)),
+        inArray(readingSessions.status, ['pending', 'active'])
+      )
+    );
+
+  for (const session of sessions) {
+    capability[ChannelNames.readingSession(session.id)] = ['subscribe', 'presence', 'history'];
+  }
+
+  const ticketed = db
+    .select({ streamId: streamTickets.streamId })
+    .from(streamTickets)
+    .where(and(eq(streamTickets.userId, user.id), eq(streamTickets.status, 'active')));
+
+  const streams = await db
+    .select({ id: liveStreams.id })
+    .from(liveStreams)
+    .where(
+      and(
+        inArray(liveStreams.status, ['scheduled', 'live']),
+        or(
+          eq(liveStreams.readerId, user.id),
+          sql`(coalesce(${liveStreams.isPrivate}, false) = false and coalesce(${liveStreams.accessPrice}, 0) <= 0)`,
+          inArray(liveStreams.id, ticketed)
+        )
+      )
+    );
+
+  for (const stream of streams) {
+    capability[ChannelNames.liveStream(stream.id)] = ['subscribe', 'presence', 'history'];
+  }
+
+  if (hasPermission(user, 'moderate_content')) {
+    capability['live-stream:*'] = ['subscribe', 'presence', 'history'];
+    capability[ChannelNames.adminModeration()] = ['subscribe', 'publish', 'presence', 'history'];
+  }
+
+  return capability;
+}
+
+/**
+ * Signed token request for the user, with their user id as the Ably clientId
+ * so presence can't be spoofed
+ */
+export async function createAblyTokenRequest(user: AuthUser): Promise<Ably.TokenRequest> {
+  const capability = await buildAblyCapability(user);
+
+  return getRestClient().auth.createTokenRequest({
+    clientId: user.id,
+    capability: JSON.stringify(capability),
+    ttl: ABLY_TOKEN_CONFIG.ttlSeconds * 1000,
+  });
+}
@@ -7,6 +7,7 @@ import AgoraRTC, {
   ClientRole,
   UID
 } from 'agora-rtc-sdk-ng';
+import type { AgoraTokenGrant } from '@/lib/agora/token';
 
 if (!process.env.NEXT_PUBLIC_AGORA_APP_ID) {
   throw new Error('NEXT_PUBLIC_AGORA_APP_ID is not set');
@@ -33,6 +34,9 @@ export class AgoraService {
   private localTracks: LocalTracks = {};
   private remoteUsers: Map<UID, AgoraUser> = new Map();
   private isJoined = false;
+  private joinParams: { token: string; channelName: string; uid: UID; role: ClientRole } | null = null;
+  private rejoinAttempts = 0;
+  private static readonly MAX_REJOIN_ATTEMPTS = 5;
 
   constructor() {
     this.client = AgoraRTC.createClient({
@@ -51,6 +55,8 @@ export class AgoraService {
     this.client.on('user-joined', this.handleUserJoined.bind(this));
     this.client.on('user-left', this.handleUserLeft.bind(this));
     this.client.on('connection-state-change', this.handleConnectionStateChange.bind(this));
+    this.client.on('token-privilege-will-expire', this.handleTokenWillExpire.bind(this));
+    this.client.on('token-privilege-did-expire', this.handleTokenDidExpire.bind(this));
   }
 
   private async handleUserPublished(user: any, mediaType: 'video' | 'audio') {
@@ -103,20 +109,97 @@ export class AgoraService {
     }
   }
 
-  private handleConnectionStateChange(curState: string, revState: string) {
+  private handleConnectionStateChange(curState: string, revState: string, reason?: string) {
     console.log(`Agora connection state changed from ${revState} to ${curState}`);
+
+    // The SDK retries brief drops itself; rejoin when it gives up, unless we left on purpose
+    if (curState === 'DISCONNECTED' && this.isJoined && reason !== 'LEAVE') {
+      this.isJoined = false;
+      this.rejoin();
+    }
     
     if (this.onConnectionStateChange) {
       this.onConnectionStateChange(curState, revState);
     }
   }
 
+  private async handleTokenWillExpire() {
+    if (!this.client || !this.joinParams || !this.onTokenRequired) return;
+
+    try {
+      const token = await this.onTokenRequired();
+      await this.client.renewToken(token);
+      this.joinParams.token = token;
+      console.log('Renewed Agora token');
+    } catch (error) {
+      console.error('Error renewing Agora token:', error);
+    }
+  }
+
+  private handleTokenDidExpire() {
+    // Renewal failed or came too late; the SDK has dropped us, so rejoin with a fresh token
+    if (this.isJoined) {
+      this.isJoined = false;
+      this.rejoin();
+    }
+  }
+
   // Event callbacks - to be set by the consuming component
   public onUserPublished?: (uid: UID, mediaType: 'video' | 'audio') => void;
   public onUserUnpublished?: (uid: UID, mediaType: 'video' | 'audio') => void;
   public onUserJoined?: (uid: UID) => void;
   public onUserLeft?: (uid: UID) => void;
   public onConnectionStateChange?: (curState: string, revState: string) => void;
+  public onRejoined?: () => void;
+  public onRejoinFailed?: () => void;
+  public onTokenRequired?: () => Promise<string>;
+
+  /**
+   * Rejoin the last channel with backoff and republish local tracks
+   */
+  private async rejoin(): Promise<void> {
+    while (this.client && this.joinParams && !this.isJoined && this.rejoinAttempts < AgoraService.MAX_REJOIN_ATTEMPTS) {
+      const delay = Math.min(1000 * 2 ** this.rejoinAttempts, 10000);
+      this.rejoinAttempts++;
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      // Left the channel while waiting
+      if (!this.joinParams) return;
+
+      try {
+        // The old token may be what got us dropped
+        const token = this.onTokenRequired ? await this.onTokenRequired() : this.joinParams.token;
+
+        if (!this.joinParams) return;
+
+        const { channelName, uid, role } = this.joinParams;
+        this.joinParams.token = token;
+
+        this.client.setClientRole(role);
+        await this.client.join(AGORA_APP_ID, channelName, token, uid);
+        this.isJoined = true;
+
+        const tracks = [this.localTracks.audioTrack, this.localTracks.videoTrack].filter(
+          (track): track is NonNullable<typeof track> => !!track
+        );
+        if (tracks.length > 0) {
+          await this.client.publish(tracks);
+        }
+
+        this.rejoinAttempts = 0;
+        console.log('Rejoined Agora channel:', channelName);
+        this.onRejoined?.();
+        return;
+      } catch (error) {
+        console.error('Error rejoining Agora channel:', error);
+      }
+    }
+
+    if (!this.isJoined && this.joinParams) {
+      this.onRejoinFailed?.();
+    }
+  }
 
   /**
    * Join a channel
@@ -135,6 +218,8 @@ export class AgoraService {
       this.client.setClientRole(role);
       await this.client.join(AGORA_APP_ID, channelName, token, uid);
       this.isJoined = true;
+      this.joinParams = { token, channelName, uid, role };
+      this.rejoinAttempts = 0;
       console.log('Successfully joined Agora channel:', channelName);
     } catch (error) {
       console.error('Error joining Agora channel:', error);
@@ -146,6 +231,8 @@ export class AgoraService {
    * Leave the channel
    */
   async leaveChannel(): Promise<void> {
+    this.joinParams = null;
+
     if (!this.client || !this.isJoined) {
       return;
     }
@@ -411,45 +498,27 @@ export class AgoraService {
   }
 }
 
-// Server-side token generation (when AGORA_APP_CERTIFICATE is available)
-export async function generateAgoraToken(
-  channelName: string,
-  uid: string,
-  role: 'publisher' | 'subscriber' = 'publisher',
-  expirationTime: number = 3600 // 1 hour
-): Promise<string> {
-  // In a real application, this should be done server-side
-  // For now, return a placeholder token
-  // You would use the agora-access-token library here
-  
-  if (typeof window !== 'undefined') {
-    throw new Error('Token generation should be done server-side');
-  }
-
-  try {
-    const response = await fetch('/api/agora/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        channelName,
-        uid,
-        role,
-        expirationTime,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to generate token');
-    }
+/**
+ * Ask the server for an RTC token for a reading session or live stream.
+ * Call again to renew; the server re-checks access every time.
+ */
+export async function fetchAgoraToken(
+  target: { sessionId: string } | { streamId: string }
+): Promise<AgoraTokenGrant> {
+  const response = await fetch('/api/agora/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(target),
+  });
 
-    const { token } = await response.json();
-    return token;
-  } catch (error) {
-    console.error('Error generating Agora token:', error);
-    throw error;
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to get Agora token');
   }
+
+  return response.json();
 }
 
 // Utility functions for Agora integration
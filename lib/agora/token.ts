@@ -0,0 +1,282 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { db } from '@/lib/db';
+import { users, readingSessions, liveStreams } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getStreamAccess } from '@/lib/tickets';
+import { getSessionFundedUntil } from '@/lib/billing';
+import type { AgoraTokenInput } from '@/lib/validations';
+
+// Server-only: signs tokens with the app certificate. Never import this from
+// client code; browsers get tokens from /api/agora/token.
+
+export const AGORA_TOKEN_CONFIG = {
+  tokenTtlSeconds: 60 * 60, // Clients renew before this runs out
+  minTtlSeconds: 60, // Never hand out a token that is about to expire
+};
+
+export type AgoraRole = 'publisher' | 'subscriber';
+
+export interface AgoraTokenGrant {
+  token: string;
+  appId: string;
+  channelName: string;
+  uid: number;
+  role: AgoraRole;
+  expiresAt: string;
+}
+
+const VERSION = '007';
+const SERVICE_RTC = 1;
+
+const Privileges = {
+  joinChannel: 1,
+  publishAudioStream: 2,
+  publishVideoStream: 3,
+  publishDataStream: 4,
+} as const;
+
+// AccessToken2 wire format: little-endian integers, length-prefixed strings
+
+function packUint16(value: number): Buffer {
+  const buf = Buffer.alloc(2);
+  buf.writeUInt16LE(value);
+  return buf;
+}
+
+function packUint32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32LE(value);
+  return buf;
+}
+
+function packString(value: string | Buffer): Buffer {
+  const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  return Buffer.concat([packUint16(bytes.length), bytes]);
+}
+
+function packPrivileges(privileges: Record<number, number>): Buffer {
+  const keys = Object.keys(privileges).map(Number).sort((a, b) => a - b);
+
+  return Buffer.concat([
+    packUint16(keys.length),
+    ...keys.map((key) => Buffer.concat([packUint16(key), packUint32(privileges[key])])),
+  ]);
+}
+
+function hmac(key: Buffer | string, message: Buffer | string): Buffer {
+  return crypto.createHmac('sha256', key).update(message).digest();
+}
+
+/**
+ * Build an AccessToken2 RTC token for a uid on a channel. Integer uids are
+ * passed as their decimal string, as Agora's own token builders do.
+ * Publishers can send audio, video and data; subscribers can only join.
+ */
+export function buildRtcToken(params: {
+  appId: string;
+  appCertificate: string;
+  channelName: string;
+  account: string;
+  role: AgoraRole;
+  expiresInSeconds: number;
+  issuedAt?: number;
+}): string {
+  const issuedAt = params.issuedAt ?? Math.floor(Date.now() / 1000);
+  const salt = crypto.randomInt(1, 99999999);
+  const expire = params.expiresInSeconds;
+
+  const privileges: Record<number, number> = { [Privileges.joinChannel]: expire };
+  if (params.role === 'publisher') {
+    privileges[Privileges.publishAudioStream] = expire;
+    privileges[Privileges.publishVideoStream] = expire;
+    privileges[Privileges.publishDataStream] = expire;
+  }
+
+  const rtcService = Buffer.concat([
+    packUint16(SERVICE_RTC),
+    packPrivileges(privileges),
+    packString(params.channelName),
+    packString(params.account),
+  ]);
+
+  const signingInfo = Buffer.concat([
+    packString(params.appId),
+    packUint32(issuedAt),
+    packUint32(expire),
+    packUint32(salt),
+    packUint16(1),
+    rtcService,
+  ]);
+
+  const signingKey = hmac(packUint32(salt), hmac(packUint32(issuedAt), params.appCertificate));
+  const signature = hmac(signingKey, signingInfo);
+
+  const content = zlib.deflateSync(Buffer.concat([packString(signature), signingInfo]));
+
+  return VERSION + content.toString('base64');
+}
+
+function getCredentials(): { appId: string; appCertificate: string } {
+  const appId = process.env.NEXT_PUBLIC_AGORA_APP_ID;
+  const appCertificate = process.env.AGORA_APP_CERTIFICATE;
+
+  if (!appId || !appCertificate) {
+    throw new Error('Agora is not configured');
+  }
+
+  return { appId, appCertificate };
+}
+
+/**
+ * The user's integer Agora uid. Everyone joins calls with one rather than a
+ * string account, since the cloud recorder can only subscribe to integer uids.
+ */
+async function getAgoraUid(userId: string): Promise<number> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { agoraUid: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return user.agoraUid;
+}
+
+async function grant(
+  channelName: string,
+  userId: string,
+  role: AgoraRole,
+  expiresAt: Date
+): Promise<AgoraTokenGrant> {
+  const { appId, appCertificate } = getCredentials();
+  const uid = await getAgoraUid(userId);
+  const expiresInSeconds = Math.max(
+    AGORA_TOKEN_CONFIG.minTtlSeconds,
+    Math.floor((expiresAt.getTime() - Date.now()) / 1000)
+  );
+
+  return {
+    token: buildRtcToken({
+      appId,
+      appCertificate,
+      channelName,
+      account: String(uid),
+      role,
+      expiresInSeconds,
+    }),
+    appId,
+    channelName,
+    uid,
+    role,
+    expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+  };
+}
+
+function defaultExpiry(): Date {
+  return new Date(Date.now() + AGORA_TOKEN_CONFIG.tokenTtlSeconds * 1000);
+}
+
+/**
+ * Both participants publish. A pending request's token only lasts until the
+ * request expires; once accepted, a token lasts only as long as the client's
+ * funds cover the call, and is renewable for as long as the session stays
+ * active.
+ */
+async function issueSessionToken(userId: string, sessionId: string): Promise<AgoraTokenGrant> {
+  const session = await db.query.readingSessions.findFirst({
+    where: eq(readingSessions.id, sessionId),
+  });
+
+  if (!session || (session.clientId !== userId && session.readerId !== userId)) {
+    throw new Error('Session not found');
+  }
+
+  if (session.status !== 'pending' && session.status !== 'active') {
+    throw new Error('Session is not active');
+  }
+
+  if (!session.agoraChannelName) {
+    throw new Error('Session has no call channel');
+  }
+
+  let expiresAt = defaultExpiry();
+  if (session.status === 'pending' && session.requestExpiresAt && session.requestExpiresAt < expiresAt) {
+    expiresAt = session.requestExpiresAt;
+  }
+
+  // Longer calls renew as the client's funds allow
+  if (session.status === 'active') {
+    const fundedUntil = await getSessionFundedUntil(session);
+    if (fundedUntil && fundedUntil < expiresAt) {
+      expiresAt = fundedUntil;
+    }
+  }
+
+  return grant(session.agoraChannelName, userId, 'publisher', expiresAt);
+}
+
+/**
+ * The host publishes once the stream is scheduled or live. Viewers can only
+ * subscribe, only while the stream is live, and need a ticket for paid or
+ * private streams.
+ */
+async function issueStreamToken(userId: string, streamId: string): Promise<AgoraTokenGrant> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, streamId),
+  });
+
+  if (!stream || !stream.agoraChannelName) {
+    throw new Error('Stream not found');
+  }
+
+  if (stream.readerId === userId) {
+    if (stream.status !== 'scheduled' && stream.status !== 'live') {
+      throw new Error('Stream has ended');
+    }
+
+    return grant(stream.agoraChannelName, userId, 'publisher', defaultExpiry());
+  }
+
+  if (stream.status !== 'live') {
+    throw new Error('Stream is not live');
+  }
+
+  const access = await getStreamAccess(stream, userId);
+  if (!access.hasAccess) {
+    throw new Error('A ticket is required to watch this stream');
+  }
+
+  return grant(stream.agoraChannelName, userId, 'subscriber', defaultExpiry());
+}
+
+/**
+ * Token for the cloud recorder. It only needs to join and listen, and has to
+ * outlast the longest recording.
+ */
+export function issueRecorderToken(channelName: string, recorderUid: string, expiresInSeconds: number): string {
+  const { appId, appCertificate } = getCredentials();
+
+  return buildRtcToken({
+    appId,
+    appCertificate,
+    channelName,
+    account: recorderUid,
+    role: 'subscriber',
+    expiresInSeconds,
+  });
+}
+
+/**
+ * Issue an RTC token for a reading session or live stream channel the user
+ * belongs to. Called again to renew before the previous token expires.
+ */
+export async function issueAgoraToken(userId: string, input: AgoraTokenInput): Promise<AgoraTokenGrant> {
+  if (input.sessionId) {
+    return issueSessionToken(userId, input.sessionId);
+  }
+
+  return issueStreamToken(userId, input.streamId!);
+}
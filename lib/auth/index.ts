@@ -255,11 +255,23 @@ export async function canAccessResource(
         return session?.clientId === userId || session?.readerId === userId;
 
       case 'stream':
-        // Check if user is the stream creator or has access
+        // Check if user is the stream creator, or the stream is free and
+        // public, or they hold a ticket
         const stream = await db.query.liveStreams.findFirst({
           where: eq(liveStreams.id, resourceId),
         });
-        return stream?.readerId === userId || !stream?.isPrivate;
+        if (!stream) return false;
+        if (stream.readerId === userId) return true;
+        if (!stream.isPrivate && parseFloat(stream.accessPrice || '0') <= 0) return true;
+
+        const ticket = await db.query.streamTickets.findFirst({
+          where: and(
+            eq(streamTickets.streamId, stream.id),
+            eq(streamTickets.userId, userId),
+            eq(streamTickets.status, 'active')
+          ),
+        });
+        return !!ticket;
 
       case 'product':
         // Anyone can view products, only seller can edit
@@ -439,5 +451,6 @@ import {
   forumPosts,
   forumReplies,
   analyticsEvents,
+  streamTickets,
 } from '@/lib/db/schema';
-import { or } from 'drizzle-orm';
+import { or, and } from 'drizzle-orm';
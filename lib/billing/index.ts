@@ -0,0 +1,594 @@
+import { db } from '@/lib/db';
+import { readingSessions, clientBalances, readerProfiles } from '@/lib/db/schema';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { processReadingPayment, triggerAutoReload } from '@/lib/stripe';
+import { ablyService, formatSystemMessage } from '@/lib/ably';
+import { recordSessionHold } from '@/lib/ledger';
+import { getSessionCharge } from '@/lib/pricing';
+import { saveSessionTranscript } from '@/lib/transcripts';
+import { stopSessionRecording } from '@/lib/recordings';
+
+// Metering configuration
+export const METERING_CONFIG = {
+  minimumStartMinutes: 2, // Funds required before a session can start
+  initialHoldMinutes: 5, // Minutes placed on hold when a session starts
+  holdExtensionMinutes: 5, // Minutes added to the hold when it runs low
+  lowBalanceWarningMinutes: 3, // Warn when the balance covers this many minutes or fewer
+  heartbeatIntervalSeconds: 30, // How often participants should hit the meter endpoint
+  reconnectGraceSeconds: 120, // How long billing stays paused for a dropped participant before the session ends
+} as const;
+
+export type SessionEndReason = 'client' | 'reader' | 'insufficient_funds' | 'disconnected' | 'abandoned';
+
+export interface MeterResult {
+  sessionId: string;
+  status: 'active' | 'completed' | 'cancelled' | 'pending' | 'disputed';
+  elapsedSeconds: number;
+  billedMinutes: number;
+  amountReserved: number;
+  holdAmount: number;
+  remainingBalance: number;
+  remainingMinutes: number;
+  lowBalance: boolean;
+  paused: boolean;
+  endReason?: string | null;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type ReadingSession = typeof readingSessions.$inferSelect;
+type NewReadingSession = typeof readingSessions.$inferInsert;
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Minutes that must be paid for at a given point in the session.
+ * The minute currently in progress is always reserved up front.
+ */
+export function getMinutesDue(elapsedSeconds: number): number {
+  return Math.floor(elapsedSeconds / 60) + 1;
+}
+
+/**
+ * Minutes that cost money once a session's free minutes are used up
+ */
+export function getChargeableMinutes(minutes: number, freeMinutes: number): number {
+  return Math.max(0, minutes - freeMinutes);
+}
+
+/**
+ * Billable seconds since the session started. Time spent paused is left
+ * out, and the clock stops at the moment a pause began.
+ */
+function getElapsedSeconds(
+  session: Pick<ReadingSession, 'startedAt' | 'pausedAt' | 'pausedSeconds'>,
+  now: Date
+): number {
+  if (!session.startedAt) return 0;
+
+  const until = session.pausedAt && session.pausedAt < now ? session.pausedAt : now;
+  const elapsed = Math.floor((until.getTime() - session.startedAt.getTime()) / 1000);
+
+  return Math.max(0, elapsed - (session.pausedSeconds || 0));
+}
+
+function getHeldMinutes(holdAmount: number, ratePerMinute: number): number {
+  const rateInCents = toCents(ratePerMinute);
+  return rateInCents > 0 ? Math.floor(toCents(holdAmount) / rateInCents) : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * When an active session runs out of money if nobody tops up: its free
+ * minutes, the hold and the available balance, counted on the billing clock.
+ * Returns null for sessions that cost nothing.
+ */
+export async function getSessionFundedUntil(session: ReadingSession, now: Date = new Date()): Promise<Date | null> {
+  const ratePerMinute = parseFloat(session.ratePerMinute);
+
+  if (toCents(ratePerMinute) <= 0) {
+    return null;
+  }
+
+  const balance = await db.query.clientBalances.findFirst({
+    where: eq(clientBalances.userId, session.clientId),
+  });
+
+  const fundedMinutes = (session.freeMinutes || 0) +
+    getHeldMinutes(parseFloat(session.holdAmount || '0'), ratePerMinute) +
+    getHeldMinutes(parseFloat(balance?.balance || '0'), ratePerMinute);
+  const remainingSeconds = Math.max(0, fundedMinutes * 60 - getElapsedSeconds(session, now));
+
+  return new Date(now.getTime() + remainingSeconds * 1000);
+}
+
+/**
+ * Move funds for up to `minutes` minutes from the available balance into
+ * pending charges. Must be called inside a transaction holding the balance
+ * row lock. Returns the amount actually placed on hold.
+ */
+async function holdFunds(
+  tx: Transaction,
+  clientId: string,
+  sessionId: string,
+  ratePerMinute: number,
+  minutes: number,
+  availableBalance: number
+): Promise<number> {
+  if (minutes <= 0) return 0;
+
+  const rateInCents = toCents(ratePerMinute);
+  const affordable = rateInCents > 0
+    ? Math.min(minutes, Math.floor(toCents(availableBalance) / rateInCents))
+    : 0;
+  const amount = fromCents(affordable * rateInCents);
+
+  if (amount > 0) {
+    await tx
+      .update(clientBalances)
+      .set({
+        balance: sql`${clientBalances.balance} - ${amount}`,
+        pendingCharges: sql`${clientBalances.pendingCharges} + ${amount}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(clientBalances.userId, clientId));
+
+    await recordSessionHold(tx, clientId, sessionId, amount);
+  }
+
+  return amount;
+}
+
+/**
+ * Capture part of a hold and return the rest to the available balance.
+ */
+async function settleHold(
+  tx: Transaction,
+  clientId: string,
+  sessionId: string,
+  holdAmount: number,
+  captureAmount: number
+): Promise<void> {
+  if (holdAmount <= 0) return;
+
+  const release = fromCents(toCents(holdAmount) - toCents(captureAmount));
+
+  await tx
+    .update(clientBalances)
+    .set({
+      balance: sql`${clientBalances.balance} + ${release}`,
+      pendingCharges: sql`greatest(${clientBalances.pendingCharges} - ${holdAmount}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(clientBalances.userId, clientId));
+
+  // The captured part stays in the hold account until processReadingPayment,
+  // in the same transaction, moves it to the reader and the platform
+  if (release > 0) {
+    await recordSessionHold(tx, clientId, sessionId, -release);
+  }
+}
+
+/**
+ * Create a reading session and place the initial hold on the client balance
+ * in one transaction, so two sessions can never be started on the same funds.
+ */
+export async function createReadingSessionWithHold(values: NewReadingSession) {
+  return await db.transaction(async (tx) => {
+    const [balance] = await tx
+      .select()
+      .from(clientBalances)
+      .where(eq(clientBalances.userId, values.clientId))
+      .for('update');
+
+    const ratePerMinute = parseFloat(values.ratePerMinute as string);
+    const freeMinutes = values.freeMinutes || 0;
+    const availableBalance = parseFloat(balance?.balance || '0');
+
+    // Free minutes count towards the minimum, so a promotion can cover it entirely
+    const minimumRequired =
+      ratePerMinute * getChargeableMinutes(METERING_CONFIG.minimumStartMinutes, freeMinutes);
+
+    if (availableBalance < minimumRequired || (!balance && minimumRequired > 0)) {
+      throw new Error('Insufficient balance. Please add funds to your account.');
+    }
+
+    const [session] = await tx
+      .insert(readingSessions)
+      .values(values)
+      .returning();
+
+    const holdAmount = await holdFunds(
+      tx,
+      values.clientId,
+      session.id,
+      ratePerMinute,
+      METERING_CONFIG.initialHoldMinutes,
+      availableBalance
+    );
+
+    const [heldSession] = await tx
+      .update(readingSessions)
+      .set({ holdAmount: holdAmount.toFixed(2) })
+      .where(eq(readingSessions.id, session.id))
+      .returning();
+
+    return heldSession;
+  });
+}
+
+/**
+ * Release the whole hold of a session that never got billed
+ * (declined, timed out or cancelled before it started).
+ */
+export async function releaseSessionHold(sessionId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    const [session] = await tx
+      .select()
+      .from(readingSessions)
+      .where(eq(readingSessions.id, sessionId))
+      .for('update');
+
+    if (!session) return;
+
+    const holdAmount = parseFloat(session.holdAmount || '0');
+    const captured = parseFloat(session.amountReserved || '0');
+
+    if (holdAmount <= 0) return;
+
+    await settleHold(tx, session.clientId, session.id, holdAmount, captured);
+
+    await tx
+      .update(readingSessions)
+      .set({
+        holdAmount: captured.toFixed(2),
+        updatedAt: new Date(),
+      })
+      .where(eq(readingSessions.id, session.id));
+  });
+}
+
+/**
+ * Reserve every minute that has elapsed in an active session against its hold,
+ * extending the hold from the available balance as needed. Ends the session
+ * automatically when the client can no longer pay.
+ */
+export async function meterReadingSession(sessionId: string): Promise<MeterResult> {
+  const now = new Date();
+
+  const { result, exhausted, reservedNow, clientId } = await db.transaction(async (tx) => {
+    const [session] = await tx
+      .select()
+      .from(readingSessions)
+      .where(eq(readingSessions.id, sessionId))
+      .for('update');
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const [balance] = await tx
+      .select()
+      .from(clientBalances)
+      .where(eq(clientBalances.userId, session.clientId))
+      .for('update');
+
+    const ratePerMinute = parseFloat(session.ratePerMinute);
+    const freeMinutes = session.freeMinutes || 0;
+    const elapsedSeconds = getElapsedSeconds(session, now);
+    let availableBalance = parseFloat(balance?.balance || '0');
+    let holdAmount = parseFloat(session.holdAmount || '0');
+    let billedMinutes = session.billedMinutes || 0;
+    let shortfall = false;
+    let reservedNow = 0;
+
+    if (session.status === 'active') {
+      const minutesDue = getMinutesDue(elapsedSeconds);
+      const paidMinutesDue = getChargeableMinutes(minutesDue, freeMinutes);
+
+      // Keep the hold one paid minute ahead of what is due
+      const heldMinutes = getHeldMinutes(holdAmount, ratePerMinute);
+      if (heldMinutes <= paidMinutesDue) {
+        const extension = await holdFunds(
+          tx,
+          session.clientId,
+          session.id,
+          ratePerMinute,
+          Math.max(METERING_CONFIG.holdExtensionMinutes, paidMinutesDue + 1 - heldMinutes),
+          availableBalance
+        );
+        holdAmount += extension;
+        availableBalance -= extension;
+      }
+
+      const coveredMinutes = Math.min(minutesDue, freeMinutes + getHeldMinutes(holdAmount, ratePerMinute));
+      reservedNow = Math.max(0, coveredMinutes - billedMinutes);
+      shortfall = coveredMinutes < minutesDue;
+      billedMinutes = Math.max(billedMinutes, coveredMinutes);
+
+      await tx
+        .update(readingSessions)
+        .set({
+          billedMinutes,
+          amountReserved: fromCents(getChargeableMinutes(billedMinutes, freeMinutes) * toCents(ratePerMinute)).toFixed(2),
+          holdAmount: holdAmount.toFixed(2),
+          lastMeteredAt: now,
+          updatedAt: now,
+        })
+        .where(eq(readingSessions.id, session.id));
+    }
+
+    const chargedMinutes = getChargeableMinutes(billedMinutes, freeMinutes);
+    const unusedHoldMinutes = Math.max(0, getHeldMinutes(holdAmount, ratePerMinute) - chargedMinutes);
+    const remainingMinutes = ratePerMinute > 0
+      ? Math.floor(availableBalance / ratePerMinute) + unusedHoldMinutes + Math.max(0, freeMinutes - billedMinutes)
+      : METERING_CONFIG.lowBalanceWarningMinutes + 1;
+
+    return {
+      exhausted: shortfall,
+      reservedNow,
+      clientId: session.clientId,
+      result: {
+        sessionId: session.id,
+        status: session.status || 'pending',
+        elapsedSeconds,
+        billedMinutes,
+        amountReserved: fromCents(chargedMinutes * toCents(ratePerMinute)),
+        holdAmount,
+        remainingBalance: availableBalance,
+        remainingMinutes,
+        lowBalance: session.status === 'active' &&
+          remainingMinutes <= METERING_CONFIG.lowBalanceWarningMinutes,
+        paused: !!session.pausedAt,
+        endReason: session.endReason,
+      } as MeterResult,
+    };
+  });
+
+  if (exhausted) {
+    const ended = await endReadingSession(sessionId, 'insufficient_funds');
+
+    return {
+      ...result,
+      status: 'completed',
+      billedMinutes: ended?.billedMinutes ?? result.billedMinutes,
+      amountReserved: parseFloat(ended?.amountReserved || result.amountReserved.toString()),
+      holdAmount: 0,
+      lowBalance: false,
+      paused: false,
+      endReason: 'insufficient_funds',
+    };
+  }
+
+  // Only warn when a new minute was reserved so heartbeats don't spam the channel
+  if (result.lowBalance && reservedNow > 0) {
+    try {
+      await ablyService.publishSessionEvent(
+        sessionId,
+        formatSystemMessage('low_balance', {
+          remainingBalance: result.remainingBalance,
+          remainingMinutes: result.remainingMinutes,
+        })
+      );
+    } catch (error) {
+      console.error('Failed to publish low balance warning:', error);
+    }
+  }
+
+  // Holds draw the balance down minute by minute, so top it up mid-session
+  if (reservedNow > 0) {
+    try {
+      await triggerAutoReload(clientId);
+    } catch (error) {
+      console.error('Auto-reload failed during metering:', error);
+    }
+  }
+
+  return result;
+}
+
+function getPausedSeconds(session: Pick<ReadingSession, 'pausedAt'>, now: Date): number {
+  if (!session.pausedAt) return 0;
+  return Math.max(0, Math.floor((now.getTime() - session.pausedAt.getTime()) / 1000));
+}
+
+/**
+ * Stop the billing clock while a participant is disconnected. Minutes up to
+ * the pause are metered first so nothing already used goes unbilled.
+ * Returns false when the session isn't active or is already paused.
+ */
+export async function pauseSessionBilling(sessionId: string): Promise<boolean> {
+  await meterReadingSession(sessionId);
+
+  const [paused] = await db
+    .update(readingSessions)
+    .set({ pausedAt: new Date(), updatedAt: new Date() })
+    .where(
+      and(
+        eq(readingSessions.id, sessionId),
+        eq(readingSessions.status, 'active'),
+        isNull(readingSessions.pausedAt)
+      )
+    )
+    .returning();
+
+  return !!paused;
+}
+
+/**
+ * Restart the billing clock once everyone is back. The paused stretch is
+ * added to pausedSeconds so it is never charged.
+ */
+export async function resumeSessionBilling(sessionId: string): Promise<boolean> {
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const [session] = await tx
+      .select()
+      .from(readingSessions)
+      .where(eq(readingSessions.id, sessionId))
+      .for('update');
+
+    if (!session || session.status !== 'active' || !session.pausedAt) {
+      return false;
+    }
+
+    await tx
+      .update(readingSessions)
+      .set({
+        pausedAt: null,
+        pausedSeconds: (session.pausedSeconds || 0) + getPausedSeconds(session, now),
+        updatedAt: now,
+      })
+      .where(eq(readingSessions.id, session.id));
+
+    return true;
+  });
+}
+
+/**
+ * End an active reading session, capture what was reserved from the hold and
+ * release the rest. Returns null when the session was not active (already
+ * ended elsewhere).
+ */
+export async function endReadingSession(
+  sessionId: string,
+  reason: SessionEndReason
+) {
+  const endTime = new Date();
+
+  const settlement = await db.transaction(async (tx) => {
+    const [session] = await tx
+      .select()
+      .from(readingSessions)
+      .where(eq(readingSessions.id, sessionId))
+      .for('update');
+
+    if (!session || session.status !== 'active') {
+      return null;
+    }
+
+    const [balance] = await tx
+      .select()
+      .from(clientBalances)
+      .where(eq(clientBalances.userId, session.clientId))
+      .for('update');
+
+    const ratePerMinute = parseFloat(session.ratePerMinute);
+    const freeMinutes = session.freeMinutes || 0;
+    const duration = getElapsedSeconds(session, endTime);
+    const finalMinutes = Math.max(1, Math.ceil(duration / 60));
+    const paidFinalMinutes = getChargeableMinutes(finalMinutes, freeMinutes);
+    let holdAmount = parseFloat(session.holdAmount || '0');
+
+    // Catch up on minutes that elapsed since the last heartbeat, if affordable
+    const heldMinutes = getHeldMinutes(holdAmount, ratePerMinute);
+    if (heldMinutes < paidFinalMinutes) {
+      holdAmount += await holdFunds(
+        tx,
+        session.clientId,
+        session.id,
+        ratePerMinute,
+        paidFinalMinutes - heldMinutes,
+        parseFloat(balance?.balance || '0')
+      );
+    }
+
+    // Charge the elapsed minutes, never more than the hold covers
+    const billedMinutes = Math.min(finalMinutes, freeMinutes + getHeldMinutes(holdAmount, ratePerMinute));
+    const charge = getSessionCharge({
+      billedMinutes,
+      freeMinutes,
+      ratePerMinute,
+      baseRatePerMinute: parseFloat(session.baseRatePerMinute || session.ratePerMinute),
+    });
+    const amount = charge.amount;
+
+    await settleHold(tx, session.clientId, session.id, holdAmount, amount);
+
+    const [updatedSession] = await tx
+      .update(readingSessions)
+      .set({
+        status: 'completed',
+        endedAt: endTime,
+        duration,
+        billedMinutes,
+        amountReserved: amount.toFixed(2),
+        holdAmount: '0',
+        totalCost: amount.toFixed(2),
+        pricingBreakdown: {
+          ...((session.pricingBreakdown as Record<string, any>) || {}),
+          charge,
+        },
+        pausedAt: null,
+        pausedSeconds: (session.pausedSeconds || 0) + getPausedSeconds(session, endTime),
+        endReason: reason,
+        updatedAt: endTime,
+      })
+      .where(eq(readingSessions.id, session.id))
+      .returning();
+
+    await tx
+      .update(readerProfiles)
+      .set({ isAvailable: true })
+      .where(eq(readerProfiles.userId, session.readerId));
+
+    if (amount > 0) {
+      await processReadingPayment(
+        tx,
+        session.clientId,
+        session.readerId,
+        session.id,
+        amount,
+        duration
+      );
+    }
+
+    return { session: updatedSession, amount, duration };
+  });
+
+  if (!settlement) {
+    return null;
+  }
+
+  const { session, amount, duration } = settlement;
+
+  if (amount > 0) {
+    try {
+      await triggerAutoReload(session.clientId);
+    } catch (error) {
+      console.error('Auto-reload failed after reading payment:', error);
+    }
+  }
+
+  try {
+    await saveSessionTranscript(session.id);
+  } catch (error) {
+    console.error('Failed to save session transcript:', error);
+  }
+
+  try {
+    await stopSessionRecording(session.id);
+  } catch (error) {
+    console.error('Failed to stop session recording:', error);
+  }
+
+  try {
+    await ablyService.publishSessionEvent(
+      session.id,
+      formatSystemMessage('session_ended', {
+        reason,
+        duration,
+        totalCost: amount,
+      })
+    );
+  } catch (error) {
+    console.error('Failed to publish session end event:', error);
+  }
+
+  return session;
+}
@@ -0,0 +1,681 @@
+import { db } from '@/lib/db';
+import {
+  bookings,
+  users,
+  readerProfiles,
+  clientBalances,
+  transactions,
+} from '@/lib/db/schema';
+import { eq, and, or, lt, gt, lte, ne, sql } from 'drizzle-orm';
+import { METERING_CONFIG } from '@/lib/billing';
+import { openBookedReading } from '@/lib/readings';
+import { PLATFORM_FEE_PERCENTAGE } from '@/lib/stripe';
+import { recordCancellationFee } from '@/lib/ledger';
+import { notifyUser } from '@/lib/notifications';
+import { quoteReadingPrice } from '@/lib/pricing';
+import {
+  getZonedDateParts,
+  zonedTimeToUtc,
+  formatDateInTimeZone,
+} from '@/lib/utils';
+
+// Booking configuration
+export const BOOKING_CONFIG = {
+  durations: [15, 30, 45, 60], // Bookable lengths in minutes
+  slotIntervalMinutes: 30, // Spacing between offered start times
+  minLeadMinutes: 60, // Earliest a slot can be booked before it starts
+  maxDaysAhead: 30, // Furthest ahead a slot can be booked
+  freeCancellationHours: 24, // Clients can cancel or reschedule for free until this close to the start
+  lateCancellationFeePercent: 50, // Share of the estimated cost charged for late client cancellations
+  maxReschedules: 2,
+  reminderMinutesBefore: [24 * 60, 15],
+  conversionGraceMinutes: 10, // A booking still converts into a session this long after its start
+} as const;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface BookingSlot {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+type AvailabilitySchedule = Record<string, { enabled: boolean; start: string; end: string }>;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Booking = typeof bookings.$inferSelect;
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function getWeekday(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+function overlaps(startA: Date, endA: Date, startB: Date, endB: Date): boolean {
+  return startA < endB && endA > startB;
+}
+
+/**
+ * Availability windows as UTC instants for each reader-local day in range
+ */
+function getAvailabilityWindows(
+  availability: AvailabilitySchedule,
+  timeZone: string,
+  from: Date,
+  to: Date
+): BookingSlot[] {
+  const windows: BookingSlot[] = [];
+  // Start a day early so windows that began before `from` are included
+  let day = addDays(getZonedDateParts(from, timeZone).date, -1);
+  const lastDay = getZonedDateParts(to, timeZone).date;
+
+  while (day <= lastDay) {
+    const schedule = availability[getWeekday(day)];
+
+    if (schedule?.enabled && schedule.start < schedule.end) {
+      windows.push({
+        startsAt: zonedTimeToUtc(day, schedule.start, timeZone),
+        endsAt: zonedTimeToUtc(day, schedule.end, timeZone),
+      });
+    }
+
+    day = addDays(day, 1);
+  }
+
+  return windows;
+}
+
+async function getReaderForBooking(executor: typeof db | Transaction, readerId: string) {
+  const reader = await executor.query.users.findFirst({
+    where: and(eq(users.id, readerId), eq(users.role, 'reader')),
+    with: {
+      readerProfile: true,
+    },
+  });
+
+  if (!reader || !reader.readerProfile || !reader.readerProfile.isApproved) {
+    throw new Error('Reader not found');
+  }
+
+  return {
+    reader,
+    profile: reader.readerProfile,
+    timeZone: reader.timezone || 'UTC',
+    availability: (reader.readerProfile.availability || {}) as AvailabilitySchedule,
+  };
+}
+
+/**
+ * Confirmed bookings of a reader or client that overlap a time range
+ */
+async function findConflictingBookings(
+  executor: typeof db | Transaction,
+  params: {
+    readerId: string;
+    clientId?: string;
+    startsAt: Date;
+    endsAt: Date;
+    excludeBookingId?: string;
+  }
+) {
+  const { readerId, clientId, startsAt, endsAt, excludeBookingId } = params;
+
+  return executor
+    .select()
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.status, 'confirmed'),
+        clientId
+          ? or(eq(bookings.readerId, readerId), eq(bookings.clientId, clientId))
+          : eq(bookings.readerId, readerId),
+        lt(bookings.startsAt, endsAt),
+        gt(bookings.endsAt, startsAt),
+        excludeBookingId ? ne(bookings.id, excludeBookingId) : undefined
+      )
+    );
+}
+
+/**
+ * Bookable slots for a reader, generated from their weekly availability in
+ * their own time zone and excluding existing bookings
+ */
+export async function getAvailableSlots(
+  readerId: string,
+  options: { durationMinutes: number; from?: Date; days?: number }
+): Promise<BookingSlot[]> {
+  const { availability, timeZone } = await getReaderForBooking(db, readerId);
+
+  const now = new Date();
+  const earliest = new Date(now.getTime() + BOOKING_CONFIG.minLeadMinutes * 60 * 1000);
+  const latest = new Date(now.getTime() + BOOKING_CONFIG.maxDaysAhead * 24 * 60 * 60 * 1000);
+  const from = options.from && options.from > earliest ? options.from : earliest;
+  const days = Math.min(options.days || 7, BOOKING_CONFIG.maxDaysAhead);
+  const to = new Date(Math.min(from.getTime() + days * 24 * 60 * 60 * 1000, latest.getTime()));
+
+  if (from >= to) {
+    return [];
+  }
+
+  const durationMs = options.durationMinutes * 60 * 1000;
+  // Slots starting just before `to` run past it, so look that far ahead too
+  const booked = await findConflictingBookings(db, {
+    readerId,
+    startsAt: from,
+    endsAt: new Date(to.getTime() + durationMs),
+  });
+  const intervalMs = BOOKING_CONFIG.slotIntervalMinutes * 60 * 1000;
+  const slots: BookingSlot[] = [];
+
+  for (const window of getAvailabilityWindows(availability, timeZone, from, to)) {
+    for (
+      let start = window.startsAt.getTime();
+      start + durationMs <= window.endsAt.getTime();
+      start += intervalMs
+    ) {
+      const startsAt = new Date(start);
+      const endsAt = new Date(start + durationMs);
+
+      if (startsAt < from || startsAt >= to) continue;
+      if (booked.some((booking) => overlaps(startsAt, endsAt, booking.startsAt, booking.endsAt))) continue;
+
+      slots.push({ startsAt, endsAt });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Check a requested time against the booking window, the reader's
+ * availability and existing bookings. Throws with a user-facing message.
+ */
+async function assertSlotBookable(
+  tx: Transaction,
+  params: {
+    readerId: string;
+    clientId: string;
+    startsAt: Date;
+    endsAt: Date;
+    availability: AvailabilitySchedule;
+    timeZone: string;
+    excludeBookingId?: string;
+  }
+): Promise<void> {
+  const { startsAt, endsAt, availability, timeZone } = params;
+  const now = Date.now();
+
+  if (startsAt.getTime() < now + BOOKING_CONFIG.minLeadMinutes * 60 * 1000) {
+    throw new Error(`Bookings must be made at least ${BOOKING_CONFIG.minLeadMinutes} minutes in advance`);
+  }
+
+  if (startsAt.getTime() > now + BOOKING_CONFIG.maxDaysAhead * 24 * 60 * 60 * 1000) {
+    throw new Error(`Bookings can only be made up to ${BOOKING_CONFIG.maxDaysAhead} days ahead`);
+  }
+
+  const windows = getAvailabilityWindows(availability, timeZone, startsAt, endsAt);
+  const withinAvailability = windows.some(
+    (window) => startsAt >= window.startsAt && endsAt <= window.endsAt
+  );
+
+  if (!withinAvailability) {
+    throw new Error('The reader is not available at that time');
+  }
+
+  const conflicts = await findConflictingBookings(tx, params);
+
+  if (conflicts.length > 0) {
+    throw new Error('That time conflicts with another booking');
+  }
+}
+
+/**
+ * Fee a cancellation by `userId` would cost the client right now.
+ * Readers never pay a fee and clients cancel for free until the
+ * free-cancellation window closes.
+ */
+export function getCancellationFee(booking: Booking, userId: string, now: Date = new Date()): number {
+  if (userId !== booking.clientId) {
+    return 0;
+  }
+
+  const hoursUntilStart = (booking.startsAt.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+  if (hoursUntilStart >= BOOKING_CONFIG.freeCancellationHours) {
+    return 0;
+  }
+
+  const estimatedCost = parseFloat(booking.estimatedCost);
+  return Math.round(estimatedCost * BOOKING_CONFIG.lateCancellationFeePercent) / 100;
+}
+
+async function lockBooking(tx: Transaction, bookingId: string, userId: string) {
+  const [booking] = await tx
+    .select()
+    .from(bookings)
+    .where(eq(bookings.id, bookingId))
+    .for('update');
+
+  if (!booking || (booking.clientId !== userId && booking.readerId !== userId)) {
+    throw new Error('Booking not found');
+  }
+
+  if (booking.status !== 'confirmed') {
+    throw new Error('Only confirmed bookings can be changed');
+  }
+
+  return booking;
+}
+
+/**
+ * Book a slot with a reader at their current rate
+ */
+export async function createBooking(params: {
+  clientId: string;
+  readerId: string;
+  type: 'chat' | 'voice' | 'video';
+  startsAt: Date;
+  durationMinutes: number;
+  notes?: string;
+}): Promise<Booking> {
+  const { clientId, readerId, type, startsAt, durationMinutes, notes } = params;
+  const endsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000);
+
+  const booking = await db.transaction(async (tx) => {
+    const { profile, availability, timeZone } = await getReaderForBooking(tx, readerId);
+
+    // Serialise bookings per reader so two clients can't take the same slot
+    await tx
+      .select({ id: readerProfiles.id })
+      .from(readerProfiles)
+      .where(eq(readerProfiles.id, profile.id))
+      .for('update');
+
+    const pricing = (profile.pricing || {}) as Record<string, number>;
+    const ratePerMinute = pricing[type];
+
+    if (!ratePerMinute) {
+      throw new Error('The reader does not offer this reading type');
+    }
+
+    const balance = await tx.query.clientBalances.findFirst({
+      where: eq(clientBalances.userId, clientId),
+    });
+
+    if (parseFloat(balance?.balance || '0') < ratePerMinute * METERING_CONFIG.minimumStartMinutes) {
+      throw new Error('Insufficient balance. Please add funds to your account.');
+    }
+
+    await assertSlotBookable(tx, {
+      readerId,
+      clientId,
+      startsAt,
+      endsAt,
+      availability,
+      timeZone,
+    });
+
+    const [created] = await tx
+      .insert(bookings)
+      .values({
+        clientId,
+        readerId,
+        type,
+        startsAt,
+        endsAt,
+        durationMinutes,
+        ratePerMinute: ratePerMinute.toFixed(2),
+        estimatedCost: (Math.round(ratePerMinute * durationMinutes * 100) / 100).toFixed(2),
+        notes,
+        remindersSent: [],
+      })
+      .returning();
+
+    return created;
+  });
+
+  await notifyBookingParty(booking, booking.readerId, {
+    title: 'New booking',
+    content: `A ${booking.type} reading was booked for ${await formatForUser(booking.readerId, booking.startsAt)}.`,
+  });
+
+  return booking;
+}
+
+/**
+ * Move a confirmed booking to a new start time. Clients can only reschedule
+ * inside the free-cancellation window; readers can always reschedule.
+ */
+export async function rescheduleBooking(
+  bookingId: string,
+  userId: string,
+  startsAt: Date
+): Promise<Booking> {
+  const booking = await db.transaction(async (tx) => {
+    const current = await lockBooking(tx, bookingId, userId);
+
+    if (userId === current.clientId && getCancellationFee(current, userId) > 0) {
+      throw new Error(
+        `Bookings can only be rescheduled more than ${BOOKING_CONFIG.freeCancellationHours} hours before they start`
+      );
+    }
+
+    if ((current.rescheduleCount || 0) >= BOOKING_CONFIG.maxReschedules) {
+      throw new Error('This booking cannot be rescheduled again');
+    }
+
+    const { profile, availability, timeZone } = await getReaderForBooking(tx, current.readerId);
+
+    await tx
+      .select({ id: readerProfiles.id })
+      .from(readerProfiles)
+      .where(eq(readerProfiles.id, profile.id))
+      .for('update');
+
+    const endsAt = new Date(startsAt.getTime() + current.durationMinutes * 60 * 1000);
+
+    await assertSlotBookable(tx, {
+      readerId: current.readerId,
+      clientId: current.clientId,
+      startsAt,
+      endsAt,
+      availability,
+      timeZone,
+      excludeBookingId: current.id,
+    });
+
+    const [updated] = await tx
+      .update(bookings)
+      .set({
+        startsAt,
+        endsAt,
+        rescheduleCount: sql`${bookings.rescheduleCount} + 1`,
+        remindersSent: [],
+        updatedAt: new Date(),
+      })
+      .where(eq(bookings.id, current.id))
+      .returning();
+
+    return updated;
+  });
+
+  const otherParty = userId === booking.clientId ? booking.readerId : booking.clientId;
+  await notifyBookingParty(booking, otherParty, {
+    title: 'Booking rescheduled',
+    content: `Your ${booking.type} reading was moved to ${await formatForUser(otherParty, booking.startsAt)}.`,
+  });
+
+  return booking;
+}
+
+/**
+ * Cancel a confirmed booking and charge the late-cancellation fee when it
+ * applies. The fee is capped at the client's available balance.
+ */
+export async function cancelBooking(
+  bookingId: string,
+  userId: string,
+  reason?: string
+): Promise<Booking> {
+  const booking = await db.transaction(async (tx) => {
+    const current = await lockBooking(tx, bookingId, userId);
+    let fee = getCancellationFee(current, userId);
+
+    if (fee > 0) {
+      const [balance] = await tx
+        .select()
+        .from(clientBalances)
+        .where(eq(clientBalances.userId, current.clientId))
+        .for('update');
+
+      fee = Math.min(fee, Math.max(0, parseFloat(balance?.balance || '0')));
+    }
+
+    if (fee > 0) {
+      const platformFee = Math.round(fee * PLATFORM_FEE_PERCENTAGE) / 100;
+      const readerEarnings = (Math.round(fee * 100) - Math.round(platformFee * 100)) / 100;
+
+      await tx
+        .update(clientBalances)
+        .set({
+          balance: sql`${clientBalances.balance} - ${fee}`,
+          totalSpent: sql`${clientBalances.totalSpent} + ${fee}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(clientBalances.userId, current.clientId));
+
+      await tx
+        .update(readerProfiles)
+        .set({
+          pendingPayout: sql`${readerProfiles.pendingPayout} + ${readerEarnings}`,
+          totalEarnings: sql`${readerProfiles.totalEarnings} + ${readerEarnings}`,
+        })
+        .where(eq(readerProfiles.userId, current.readerId));
+
+      await recordCancellationFee(tx, {
+        clientId: current.clientId,
+        readerId: current.readerId,
+        bookingId: current.id,
+        amount: fee,
+        platformFee,
+      });
+
+      await tx.insert(transactions).values({
+        userId: current.clientId,
+        type: 'charge',
+        amount: fee.toFixed(2),
+        status: 'completed',
+        description: 'Late cancellation fee',
+        platformFee: platformFee.toFixed(2),
+        metadata: { bookingId: current.id },
+      });
+
+      await tx.insert(transactions).values({
+        userId: current.readerId,
+        type: 'earning',
+        amount: readerEarnings.toFixed(2),
+        status: 'completed',
+        description: 'Late cancellation fee',
+        metadata: { bookingId: current.id },
+      });
+    }
+
+    const [updated] = await tx
+      .update(bookings)
+      .set({
+        status: 'cancelled',
+        cancelledBy: userId,
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+        cancellationFee: fee.toFixed(2),
+        updatedAt: new Date(),
+      })
+      .where(eq(bookings.id, current.id))
+      .returning();
+
+    return updated;
+  });
+
+  const otherParty = userId === booking.clientId ? booking.readerId : booking.clientId;
+  await notifyBookingParty(booking, otherParty, {
+    title: 'Booking cancelled',
+    content: `Your ${booking.type} reading on ${await formatForUser(otherParty, booking.startsAt)} was cancelled.`,
+  });
+
+  return booking;
+}
+
+/**
+ * Open a reading session for a booking whose slot has arrived. The usual
+ * balance hold applies; if the client can't cover it the booking is
+ * cancelled instead. The session stays pending, and unbilled, until both
+ * participants have joined, which they have conversionGraceMinutes to do.
+ * A reader still busy with another reading is tried again on the next run.
+ */
+async function convertBooking(booking: Booking): Promise<string | null> {
+  const [claimed] = await db
+    .update(bookings)
+    .set({ status: 'converted', updatedAt: new Date() })
+    .where(and(eq(bookings.id, booking.id), eq(bookings.status, 'confirmed')))
+    .returning();
+
+  if (!claimed) {
+    return null;
+  }
+
+  try {
+    // Promotions running when the slot starts apply on top of the booked rate
+    const quote = await quoteReadingPrice({
+      readerId: claimed.readerId,
+      clientId: claimed.clientId,
+      type: claimed.type,
+      baseRatePerMinute: parseFloat(claimed.ratePerMinute),
+    });
+
+    const session = await openBookedReading({
+      bookingId: claimed.id,
+      clientId: claimed.clientId,
+      readerId: claimed.readerId,
+      quote,
+      joinBy: new Date(Date.now() + BOOKING_CONFIG.conversionGraceMinutes * 60 * 1000),
+    });
+
+    if (!session) {
+      await db
+        .update(bookings)
+        .set({ status: 'confirmed', updatedAt: new Date() })
+        .where(eq(bookings.id, claimed.id));
+
+      return null;
+    }
+
+    for (const userId of [claimed.clientId, claimed.readerId]) {
+      await notifyBookingParty(claimed, userId, {
+        title: 'Your reading is ready',
+        content: `Your booked ${claimed.type} reading is open. It starts once you have both joined.`,
+        sessionId: session.id,
+      });
+    }
+
+    return session.id;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Could not start the session';
+
+    await db
+      .update(bookings)
+      .set({
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+        updatedAt: new Date(),
+      })
+      .where(eq(bookings.id, claimed.id));
+
+    for (const userId of [claimed.clientId, claimed.readerId]) {
+      await notifyBookingParty(claimed, userId, {
+        title: 'Booked reading could not start',
+        content: reason,
+      });
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Send due reminders, convert bookings whose slot has arrived and mark
+ * bookings that were never started as missed. Meant to run every minute.
+ */
+export async function processDueBookings(now: Date = new Date()) {
+  const results = { remindersSent: 0, converted: 0, missed: 0 };
+
+  for (const minutesBefore of BOOKING_CONFIG.reminderMinutesBefore) {
+    const windowEnd = new Date(now.getTime() + minutesBefore * 60 * 1000);
+
+    // Claiming the reminder in the same update keeps overlapping runs from
+    // sending it twice
+    const due = await db
+      .update(bookings)
+      .set({
+        remindersSent: sql`coalesce(${bookings.remindersSent}, '[]'::jsonb) || ${JSON.stringify([minutesBefore])}::jsonb`,
+      })
+      .where(
+        and(
+          eq(bookings.status, 'confirmed'),
+          gt(bookings.startsAt, now),
+          lte(bookings.startsAt, windowEnd),
+          sql`not (coalesce(${bookings.remindersSent}, '[]'::jsonb) @> ${JSON.stringify([minutesBefore])}::jsonb)`
+        )
+      )
+      .returning();
+
+    for (const booking of due) {
+      for (const userId of [booking.clientId, booking.readerId]) {
+        await notifyBookingParty(booking, userId, {
+          title: 'Upcoming reading',
+          content: `Your ${booking.type} reading starts ${await formatForUser(userId, booking.startsAt)}.`,
+        });
+      }
+      results.remindersSent++;
+    }
+  }
+
+  const graceStart = new Date(now.getTime() - BOOKING_CONFIG.conversionGraceMinutes * 60 * 1000);
+
+  const ready = await db.query.bookings.findMany({
+    where: and(
+      eq(bookings.status, 'confirmed'),
+      lte(bookings.startsAt, now),
+      gt(bookings.startsAt, graceStart)
+    ),
+  });
+
+  for (const booking of ready) {
+    if (await convertBooking(booking)) {
+      results.converted++;
+    }
+  }
+
+  const missed = await db
+    .update(bookings)
+    .set({ status: 'missed', updatedAt: new Date() })
+    .where(and(eq(bookings.status, 'confirmed'), lte(bookings.startsAt, graceStart)))
+    .returning({ id: bookings.id });
+
+  results.missed = missed.length;
+
+  return results;
+}
+
+async function formatForUser(userId: string, date: Date): Promise<string> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { timezone: true },
+  });
+
+  return formatDateInTimeZone(date, user?.timezone || 'UTC');
+}
+
+async function notifyBookingParty(
+  booking: Booking,
+  userId: string,
+  message: { title: string; content: string; sessionId?: string }
+): Promise<void> {
+  try {
+    await notifyUser(userId, {
+      type: 'reading',
+      title: message.title,
+      content: message.content,
+      data: {
+        bookingId: booking.id,
+        startsAt: booking.startsAt.toISOString(),
+        sessionId: message.sessionId,
+      },
+      actionUrl: '/dashboard',
+    });
+  } catch (error) {
+    console.error('Failed to send booking notification:', error);
+  }
+}
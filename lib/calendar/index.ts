@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import {
+  users,
+  liveStreams,
+  bookings,
+  streamRsvps,
+  streamTickets,
+  userFavorites,
+} from '@/lib/db/schema';
+import { eq, and, or, gte, inArray } from 'drizzle-orm';
+
+type LiveStream = typeof liveStreams.$inferSelect;
+type Booking = typeof bookings.$inferSelect;
+
+export const CALENDAR_CONFIG = {
+  defaultStreamMinutes: 60, // Streams have no set end, so block out this long
+  productId: '-//SoulSeer//Calendar//EN',
+};
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  updatedAt?: Date | null;
+}
+
+function appUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || ''}${path}`;
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Lines longer than 75 octets are folded onto continuation lines that start
+ * with a space (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  const limit = () => (parts.length === 0 ? 75 : 74);
+
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + size > limit()) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Render events as an iCalendar document
+ */
+export function buildICalendar(name: string, events: CalendarEvent[]): string {
+  const now = formatIcsDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_CONFIG.productId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${formatIcsDate(event.start)}`,
+      `DTEND:${formatIcsDate(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatIcsDate(event.updatedAt)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function streamEvent(stream: LiveStream, readerName: string): CalendarEvent {
+  const start = stream.scheduledAt!;
+
+  return {
+    uid: `stream-${stream.id}@soulseer`,
+    start,
+    end: new Date(start.getTime() + CALENDAR_CONFIG.defaultStreamMinutes * 60 * 1000),
+    summary: `Live: ${stream.title}`,
+    description: [`Live stream with ${readerName}`, stream.description].filter(Boolean).join('\n\n'),
+    url: appUrl(`/live/${stream.id}`),
+    updatedAt: stream.updatedAt,
+  };
+}
+
+function bookingEvent(booking: Booking, otherPartyName: string): CalendarEvent {
+  return {
+    uid: `booking-${booking.id}@soulseer`,
+    start: booking.startsAt,
+    end: booking.endsAt,
+    summary: `${booking.type.charAt(0).toUpperCase()}${booking.type.slice(1)} reading with ${otherPartyName}`,
+    description: booking.notes || undefined,
+    url: appUrl('/dashboard'),
+    updatedAt: booking.updatedAt,
+  };
+}
+
+async function getDisplayNames(userIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (userIds.length === 0) return names;
+
+  const rows = await db.query.users.findMany({
+    where: inArray(users.id, userIds),
+    columns: { id: true, firstName: true, lastName: true },
+    with: {
+      readerProfile: {
+        columns: { displayName: true },
+      },
+    },
+  });
+
+  rows.forEach((row) => {
+    names.set(
+      row.id,
+      row.readerProfile?.displayName || [row.firstName, row.lastName].filter(Boolean).join(' ') || 'SoulSeer user'
+    );
+  });
+
+  return names;
+}
+
+async function buildStreamEvents(streams: LiveStream[]): Promise<CalendarEvent[]> {
+  const names = await getDisplayNames(Array.from(new Set(streams.map((stream) => stream.readerId))));
+
+  return streams
+    .filter((stream) => !!stream.scheduledAt)
+    .map((stream) => streamEvent(stream, names.get(stream.readerId) || 'Reader'));
+}
+
+/**
+ * Public feed of a reader's upcoming streams. Private streams are left off.
+ */
+export async function getReaderCalendar(readerId: string): Promise<string | null> {
+  const reader = await db.query.users.findFirst({
+    where: and(eq(users.id, readerId), eq(users.role, 'reader')),
+    with: {
+      readerProfile: {
+        columns: { displayName: true },
+      },
+    },
+  });
+
+  if (!reader) return null;
+
+  const streams = await db.query.liveStreams.findMany({
+    where: and(
+      eq(liveStreams.readerId, readerId),
+      eq(liveStreams.status, 'scheduled'),
+      eq(liveStreams.isPrivate, false),
+      gte(liveStreams.scheduledAt, new Date())
+    ),
+  });
+
+  const name = reader.readerProfile?.displayName || reader.firstName || 'Reader';
+
+  return buildICalendar(`${name} on SoulSeer`, await buildStreamEvents(streams));
+}
+
+/**
+ * A user's personal feed: their booked readings, their own scheduled streams,
+ * streams they RSVP'd to or bought tickets for, and public streams from
+ * readers they follow
+ */
+export async function getUserCalendar(calendarToken: string): Promise<string | null> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.calendarToken, calendarToken),
+  });
+
+  if (!user || !user.isActive) return null;
+
+  const now = new Date();
+
+  const [upcomingBookings, rsvps, tickets, follows] = await Promise.all([
+    db.query.bookings.findMany({
+      where: and(
+        or(eq(bookings.clientId, user.id), eq(bookings.readerId, user.id)),
+        eq(bookings.status, 'confirmed'),
+        gte(bookings.startsAt, now)
+      ),
+    }),
+    db.select({ streamId: streamRsvps.streamId }).from(streamRsvps).where(eq(streamRsvps.userId, user.id)),
+    db
+      .select({ streamId: streamTickets.streamId })
+      .from(streamTickets)
+      .where(and(eq(streamTickets.userId, user.id), eq(streamTickets.status, 'active'))),
+    db
+      .select({ readerId: userFavorites.targetId })
+      .from(userFavorites)
+      .where(and(eq(userFavorites.userId, user.id), eq(userFavorites.targetType, 'reader'))),
+  ]);
+
+  const streamIds = [...rsvps, ...tickets].map((row) => row.streamId);
+  const readerIds = follows.map((row) => row.readerId);
+
+  const streamMatches = [eq(liveStreams.readerId, user.id)];
+  if (streamIds.length > 0) {
+    streamMatches.push(inArray(liveStreams.id, streamIds));
+  }
+  if (readerIds.length > 0) {
+    streamMatches.push(and(inArray(liveStreams.readerId, readerIds), eq(liveStreams.isPrivate, false))!);
+  }
+
+  const streams = await db.query.liveStreams.findMany({
+    where: and(
+      eq(liveStreams.status, 'scheduled'),
+      gte(liveStreams.scheduledAt, now),
+      or(...streamMatches)
+    ),
+  });
+
+  const otherParties = upcomingBookings.map((booking) =>
+    booking.clientId === user.id ? booking.readerId : booking.clientId
+  );
+  const names = await getDisplayNames(Array.from(new Set(otherParties)));
+
+  const events = [
+    ...upcomingBookings.map((booking) =>
+      bookingEvent(
+        booking,
+        names.get(booking.clientId === user.id ? booking.readerId : booking.clientId) || 'SoulSeer user'
+      )
+    ),
+    ...(await buildStreamEvents(streams)),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return buildICalendar('SoulSeer', events);
+}
+
+/**
+ * The secret that identifies a user's personal feed, created on first use
+ */
+export async function getCalendarToken(userId: string): Promise<string> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { calendarToken: true },
+  });
+
+  if (user?.calendarToken) {
+    return user.calendarToken;
+  }
+
+  return rotateCalendarToken(userId);
+}
+
+/**
+ * Replace the feed secret, cutting off any calendar subscribed to the old one
+ */
+export async function rotateCalendarToken(userId: string): Promise<string> {
+  const calendarToken = crypto.randomBytes(24).toString('hex');
+
+  await db
+    .update(users)
+    .set({ calendarToken, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  return calendarToken;
+}
+
+export function getCalendarFeedUrls(userId: string, calendarToken: string, isReader: boolean) {
+  return {
+    personal: appUrl(`/api/calendar/feed/${calendarToken}.ics`),
+    reader: isReader ? appUrl(`/api/calendar/readers/${userId}.ics`) : null,
+  };
+}
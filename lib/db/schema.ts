@@ -27,6 +27,13 @@ export const giftTypeEnum = pgEnum('gift_type', ['rose', 'crystal', 'star', 'moo
 export const messageTypeEnum = pgEnum('message_type', ['text', 'image', 'audio', 'video', 'file']);
 export const notificationTypeEnum = pgEnum('notification_type', ['reading', 'payment', 'message', 'stream', 'system']);
 export const disputeStatusEnum = pgEnum('dispute_status', ['open', 'investigating', 'resolved', 'closed']);
+export const bookingStatusEnum = pgEnum('booking_status', ['confirmed', 'cancelled', 'converted', 'missed']);
+export const waitlistStatusEnum = pgEnum('waitlist_status', ['waiting', 'offered', 'fulfilled', 'cancelled']);
+export const promotionKindEnum = pgEnum('promotion_kind', ['free_minutes', 'discount']);
+export const recordingStatusEnum = pgEnum('recording_status', ['starting', 'recording', 'stopping', 'ready', 'failed']);
+export const ticketStatusEnum = pgEnum('ticket_status', ['active', 'refunded']);
+export const sellerEarningStatusEnum = pgEnum('seller_earning_status', ['held', 'released', 'reversed']);
+export const ledgerAccountEnum = pgEnum('ledger_account', ['client_wallet', 'client_hold', 'reader_payable', 'seller_hold', 'platform_revenue', 'stripe_clearing']);
 
 // Users table - Main user accounts
 export const users = pgTable('users', {
@@ -43,6 +50,8 @@ export const users = pgTable('users', {
   lastSeen: timestamp('last_seen'),
   timezone: varchar('timezone', { length: 50 }).default('UTC'),
   language: varchar('language', { length: 10 }).default('en'),
+  calendarToken: varchar('calendar_token', { length: 64 }).unique(), // Secret for the personal .ics feed
+  agoraUid: serial('agora_uid').unique(), // Integer uid for Agora calls; cloud recording can't see string accounts
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
   deletedAt: timestamp('deleted_at'),
@@ -98,6 +107,8 @@ export const clientBalances = pgTable('client_balances', {
   autoReloadEnabled: boolean('auto_reload_enabled').default(false),
   autoReloadAmount: decimal('auto_reload_amount', { precision: 12, scale: 2 }).default('20'),
   autoReloadThreshold: decimal('auto_reload_threshold', { precision: 12, scale: 2 }).default('5'),
+  autoReloadFailures: integer('auto_reload_failures').default(0), // Consecutive failed reloads, reset on success
+  autoReloadLastAttemptAt: timestamp('auto_reload_last_attempt_at'),
   stripeCustomerId: varchar('stripe_customer_id', { length: 255 }),
   defaultPaymentMethodId: varchar('default_payment_method_id', { length: 255 }),
   createdAt: timestamp('created_at').defaultNow(),
@@ -115,14 +126,27 @@ export const readingSessions = pgTable('reading_sessions', {
   readerId: uuid('reader_id').references(() => users.id).notNull(),
   type: sessionTypeEnum('type').notNull(),
   status: sessionStatusEnum('status').default('pending'),
+  requestExpiresAt: timestamp('request_expires_at'), // Reader must accept a pending request before this
   startedAt: timestamp('started_at'),
   endedAt: timestamp('ended_at'),
   duration: integer('duration'), // in seconds
   ratePerMinute: decimal('rate_per_minute', { precision: 8, scale: 2 }).notNull(),
+  baseRatePerMinute: decimal('base_rate_per_minute', { precision: 8, scale: 2 }), // Reader's list rate before promotions
+  freeMinutes: integer('free_minutes').default(0), // Leading minutes not charged for
+  pricingBreakdown: jsonb('pricing_breakdown'), // Promotions applied at start and the final charge
   totalCost: decimal('total_cost', { precision: 12, scale: 2 }).default('0'),
+  billedMinutes: integer('billed_minutes').default(0), // Minutes already charged against the session hold
+  amountReserved: decimal('amount_reserved', { precision: 12, scale: 2 }).default('0'),
+  holdAmount: decimal('hold_amount', { precision: 12, scale: 2 }).default('0'), // Portion of clientBalances.pendingCharges held for this session
+  lastMeteredAt: timestamp('last_metered_at'),
+  pausedAt: timestamp('paused_at'), // Billing paused while a participant is disconnected
+  pausedSeconds: integer('paused_seconds').default(0), // Time spent paused, never billed
+  endReason: varchar('end_reason', { length: 50 }), // 'client', 'reader', 'insufficient_funds', 'disconnected', 'abandoned', etc.
   agoraChannelName: varchar('agora_channel_name', { length: 255 }),
   agoraToken: text('agora_token'),
   ablyChannelName: varchar('ably_channel_name', { length: 255 }),
+  clientRecordingConsent: boolean('client_recording_consent').default(false), // Recording needs both parties to opt in
+  readerRecordingConsent: boolean('reader_recording_consent').default(false),
   clientRating: integer('client_rating'), // 1-5 stars
   clientReview: text('client_review'),
   readerResponse: text('reader_response'),
@@ -142,6 +166,94 @@ export const readingSessions = pgTable('reading_sessions', {
   };
 });
 
+// Booked (scheduled) readings
+export const bookings = pgTable('bookings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientId: uuid('client_id').references(() => users.id).notNull(),
+  readerId: uuid('reader_id').references(() => users.id).notNull(),
+  type: sessionTypeEnum('type').notNull(),
+  status: bookingStatusEnum('status').default('confirmed'),
+  startsAt: timestamp('starts_at').notNull(),
+  endsAt: timestamp('ends_at').notNull(),
+  durationMinutes: integer('duration_minutes').notNull(),
+  ratePerMinute: decimal('rate_per_minute', { precision: 8, scale: 2 }).notNull(),
+  estimatedCost: decimal('estimated_cost', { precision: 12, scale: 2 }).notNull(),
+  notes: text('notes'),
+  rescheduleCount: integer('reschedule_count').default(0),
+  remindersSent: jsonb('reminders_sent'), // Minutes-before values already sent, e.g. [1440, 15]
+  cancelledBy: uuid('cancelled_by').references(() => users.id),
+  cancelledAt: timestamp('cancelled_at'),
+  cancellationReason: text('cancellation_reason'),
+  cancellationFee: decimal('cancellation_fee', { precision: 12, scale: 2 }).default('0'),
+  sessionId: uuid('session_id').references(() => readingSessions.id), // Set when the booking converts
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    clientIdIdx: index('booking_client_id_idx').on(table.clientId),
+    readerStartsAtIdx: index('booking_reader_starts_at_idx').on(table.readerId, table.startsAt),
+    statusStartsAtIdx: index('booking_status_starts_at_idx').on(table.status, table.startsAt),
+  };
+});
+
+// FIFO queue of clients waiting for a busy reader
+export const readingWaitlist = pgTable('reading_waitlist', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  readerId: uuid('reader_id').references(() => users.id).notNull(),
+  clientId: uuid('client_id').references(() => users.id).notNull(),
+  type: sessionTypeEnum('type').notNull(),
+  couponCode: varchar('coupon_code', { length: 50 }),
+  status: waitlistStatusEnum('status').default('waiting'),
+  sessionId: uuid('session_id').references(() => readingSessions.id), // Request created when the client's turn came
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    readerStatusIdx: index('waitlist_reader_status_idx').on(table.readerId, table.status, table.createdAt),
+    clientIdIdx: index('waitlist_client_id_idx').on(table.clientId),
+  };
+});
+
+// Reader and platform promotions applied when a reading starts
+export const promotions = pgTable('promotions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  readerId: uuid('reader_id').references(() => users.id), // Null for platform-wide promotions
+  createdBy: uuid('created_by').references(() => users.id).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  kind: promotionKindEnum('kind').notNull(),
+  freeMinutes: integer('free_minutes').default(0),
+  discountPercent: decimal('discount_percent', { precision: 5, scale: 2 }).default('0'),
+  sessionTypes: jsonb('session_types'), // Null applies to every reading type
+  newClientsOnly: boolean('new_clients_only').default(false),
+  schedule: jsonb('schedule'), // Happy hour: { days?: string[], start: 'HH:mm', end: 'HH:mm' } in the reader's time zone
+  couponCode: varchar('coupon_code', { length: 50 }).unique(), // Only applied when the client enters the code
+  startsAt: timestamp('starts_at'),
+  endsAt: timestamp('ends_at'),
+  maxRedemptions: integer('max_redemptions'),
+  maxRedemptionsPerClient: integer('max_redemptions_per_client'),
+  isActive: boolean('is_active').default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    readerIdIdx: index('promotion_reader_id_idx').on(table.readerId),
+    activeIdx: index('promotion_active_idx').on(table.isActive),
+  };
+});
+
+export const promotionRedemptions = pgTable('promotion_redemptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  promotionId: uuid('promotion_id').references(() => promotions.id).notNull(),
+  clientId: uuid('client_id').references(() => users.id).notNull(),
+  sessionId: uuid('session_id').references(() => readingSessions.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    promotionClientIdx: index('redemption_promotion_client_idx').on(table.promotionId, table.clientId),
+    sessionIdIdx: index('redemption_session_id_idx').on(table.sessionId),
+  };
+});
+
 // Session messages for chat history
 export const sessionMessages = pgTable('session_messages', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -175,11 +287,13 @@ export const liveStreams = pgTable('live_streams', {
   viewerCount: integer('viewer_count').default(0),
   maxViewers: integer('max_viewers').default(0),
   totalGiftsReceived: decimal('total_gifts_received', { precision: 12, scale: 2 }).default('0'),
+  likeCount: integer('like_count').default(0),
   isPrivate: boolean('is_private').default(false),
   accessPrice: decimal('access_price', { precision: 8, scale: 2 }),
   tags: jsonb('tags'),
   thumbnail: text('thumbnail'),
   recordingUrl: text('recording_url'),
+  remindersSent: jsonb('reminders_sent'), // Minutes-before values already sent, e.g. [1440, 15]
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => {
@@ -206,6 +320,104 @@ export const streamViewers = pgTable('stream_viewers', {
   };
 });
 
+// Concurrent viewer counts over the course of a stream, for the viewer timeline
+export const streamViewerSamples = pgTable('stream_viewer_samples', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  streamId: uuid('stream_id').references(() => liveStreams.id).notNull(),
+  viewerCount: integer('viewer_count').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    streamCreatedAtIdx: index('stream_viewer_sample_stream_created_at_idx').on(table.streamId, table.createdAt),
+  };
+});
+
+// Live stream chat. Hidden messages are kept for moderation review.
+export const streamChatMessages = pgTable('stream_chat_messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  streamId: uuid('stream_id').references(() => liveStreams.id).notNull(),
+  senderId: uuid('sender_id').references(() => users.id).notNull(),
+  content: text('content').notNull(),
+  isHidden: boolean('is_hidden').default(false),
+  moderatedBy: uuid('moderated_by').references(() => users.id),
+  moderatedAt: timestamp('moderated_at'),
+  moderationReason: text('moderation_reason'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    streamIdIdx: index('stream_chat_stream_id_idx').on(table.streamId),
+    senderIdIdx: index('stream_chat_sender_id_idx').on(table.senderId),
+    createdAtIdx: index('stream_chat_created_at_idx').on(table.createdAt),
+  };
+});
+
+// Viewers who want to hear when a scheduled stream starts
+export const streamRsvps = pgTable('stream_rsvps', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  streamId: uuid('stream_id').references(() => liveStreams.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    streamUserIdx: uniqueIndex('stream_rsvp_stream_user_idx').on(table.streamId, table.userId),
+    userIdIdx: index('stream_rsvp_user_id_idx').on(table.userId),
+  };
+});
+
+// One like per viewer per stream
+export const streamLikes = pgTable('stream_likes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  streamId: uuid('stream_id').references(() => liveStreams.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    streamUserIdx: uniqueIndex('stream_like_stream_user_idx').on(table.streamId, table.userId),
+  };
+});
+
+// Paid or private live stream access, one per viewer per stream
+export const streamTickets = pgTable('stream_tickets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  streamId: uuid('stream_id').references(() => liveStreams.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  status: ticketStatusEnum('status').default('active'),
+  price: decimal('price', { precision: 8, scale: 2 }).notNull(),
+  platformFee: decimal('platform_fee', { precision: 8, scale: 2 }).default('0'),
+  refundedAt: timestamp('refunded_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    streamUserIdx: uniqueIndex('stream_ticket_stream_user_idx').on(table.streamId, table.userId),
+    userIdIdx: index('stream_ticket_user_id_idx').on(table.userId),
+  };
+});
+
+// Cloud recordings of readings and live streams
+export const recordings = pgTable('recordings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => readingSessions.id),
+  streamId: uuid('stream_id').references(() => liveStreams.id),
+  status: recordingStatusEnum('status').default('starting'),
+  recorderUid: varchar('recorder_uid', { length: 20 }).notNull(), // Agora uid the recorder joins as
+  resourceId: text('resource_id'),
+  sid: varchar('sid', { length: 255 }),
+  storageKey: text('storage_key'), // Object key of the playable file
+  files: jsonb('files'), // Every file the recorder uploaded
+  error: text('error'),
+  startedAt: timestamp('started_at'),
+  endedAt: timestamp('ended_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    sessionIdIdx: index('recording_session_id_idx').on(table.sessionId),
+    streamIdIdx: index('recording_stream_id_idx').on(table.streamId),
+    statusIdx: index('recording_status_idx').on(table.status),
+  };
+});
+
 // Virtual gifts
 export const virtualGifts = pgTable('virtual_gifts', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -277,6 +489,7 @@ export const productReviews = pgTable('product_reviews', {
   isVerified: boolean('is_verified').default(false), // Verified purchase
   isHelpful: integer('is_helpful').default(0), // Helpful votes
   sellerResponse: text('seller_response'),
+  sellerRespondedAt: timestamp('seller_responded_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => {
@@ -284,6 +497,19 @@ export const productReviews = pgTable('product_reviews', {
     productIdIdx: index('review_product_id_idx').on(table.productId),
     userIdIdx: index('review_user_id_idx').on(table.userId),
     ratingIdx: index('review_rating_idx').on(table.rating),
+    productUserIdx: uniqueIndex('review_product_user_idx').on(table.productId, table.userId),
+  };
+});
+
+// Helpful votes on product reviews, one per user per review
+export const productReviewVotes = pgTable('product_review_votes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  reviewId: uuid('review_id').references(() => productReviews.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    reviewUserIdx: uniqueIndex('review_vote_review_user_idx').on(table.reviewId, table.userId),
   };
 });
 
@@ -300,6 +526,8 @@ export const orders = pgTable('orders', {
   currency: varchar('currency', { length: 3 }).default('USD'),
   shippingAddress: jsonb('shipping_address'),
   billingAddress: jsonb('billing_address'),
+  paymentMethod: varchar('payment_method', { length: 20 }), // 'balance' or 'card'
+  paidAt: timestamp('paid_at'),
   trackingNumber: varchar('tracking_number', { length: 255 }),
   shippedAt: timestamp('shipped_at'),
   deliveredAt: timestamp('delivered_at'),
@@ -322,14 +550,93 @@ export const orderItems = pgTable('order_items', {
   quantity: integer('quantity').notNull(),
   unitPrice: decimal('unit_price', { precision: 12, scale: 2 }).notNull(),
   totalPrice: decimal('total_price', { precision: 12, scale: 2 }).notNull(),
+  shipping: decimal('shipping', { precision: 12, scale: 2 }).default('0'), // Passed through to the seller
   digitalDownloadUrl: text('digital_download_url'),
   downloadCount: integer('download_count').default(0),
   maxDownloads: integer('max_downloads').default(5),
+  fulfilledAt: timestamp('fulfilled_at'), // Counted towards product sales from this point
+  shipmentId: uuid('shipment_id').references(() => shipments.id), // Set once a shipped item is sent
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => {
   return {
     orderIdIdx: index('order_item_order_id_idx').on(table.orderId),
     productIdIdx: index('order_item_product_id_idx').on(table.productId),
+    shipmentIdIdx: index('order_item_shipment_id_idx').on(table.shipmentId),
+  };
+});
+
+// A parcel one seller sent for some or all of their items on an order
+export const shipments = pgTable('shipments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').references(() => orders.id).notNull(),
+  sellerId: uuid('seller_id').references(() => users.id).notNull(),
+  carrier: varchar('carrier', { length: 20 }).notNull(), // 'usps', 'ups', 'fedex', 'dhl' or 'other'
+  trackingNumber: varchar('tracking_number', { length: 255 }).notNull(),
+  shippedAt: timestamp('shipped_at').defaultNow().notNull(),
+  deliveredAt: timestamp('delivered_at'), // Confirmed by the buyer, or automatically after a while
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    orderIdIdx: index('shipment_order_id_idx').on(table.orderId),
+    sellerIdIdx: index('shipment_seller_id_idx').on(table.sellerId),
+    deliveredAtIdx: index('shipment_delivered_at_idx').on(table.deliveredAt),
+  };
+});
+
+// Seller's share of each product sale. Held until the item is delivered or
+// the hold period runs out, then moved to the reader's pending payout.
+export const sellerEarnings = pgTable('seller_earnings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderItemId: uuid('order_item_id').references(() => orderItems.id).notNull(),
+  orderId: uuid('order_id').references(() => orders.id).notNull(),
+  sellerId: uuid('seller_id').references(() => users.id).notNull(),
+  productId: uuid('product_id').references(() => products.id).notNull(),
+  grossAmount: decimal('gross_amount', { precision: 12, scale: 2 }).notNull(), // Item price plus its shipping
+  feePercentage: decimal('fee_percentage', { precision: 5, scale: 2 }).notNull(), // Marketplace fee at the time of sale
+  marketplaceFee: decimal('marketplace_fee', { precision: 12, scale: 2 }).notNull(),
+  sellerAmount: decimal('seller_amount', { precision: 12, scale: 2 }).notNull(),
+  status: sellerEarningStatusEnum('status').default('held').notNull(),
+  releaseAt: timestamp('release_at').notNull(),
+  releasedAt: timestamp('released_at'),
+  reversedAt: timestamp('reversed_at'),
+  reversalReason: varchar('reversal_reason', { length: 50 }), // 'refund' or 'chargeback'
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    orderItemIdIdx: uniqueIndex('seller_earning_order_item_id_idx').on(table.orderItemId),
+    sellerIdIdx: index('seller_earning_seller_id_idx').on(table.sellerId),
+    statusReleaseAtIdx: index('seller_earning_status_release_at_idx').on(table.status, table.releaseAt),
+  };
+});
+
+// Every download of a purchased digital file
+export const downloadLogs = pgTable('download_logs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderItemId: uuid('order_item_id').references(() => orderItems.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  fileId: varchar('file_id', { length: 64 }).notNull(),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    orderItemIdIdx: index('download_log_order_item_id_idx').on(table.orderItemId),
+    userIdIdx: index('download_log_user_id_idx').on(table.userId),
+  };
+});
+
+// Shopping cart, one row per product per user
+export const cartItems = pgTable('cart_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  productId: uuid('product_id').references(() => products.id).notNull(),
+  quantity: integer('quantity').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    userProductIdx: uniqueIndex('cart_item_user_product_idx').on(table.userId, table.productId),
   };
 });
 
@@ -364,6 +671,60 @@ export const transactions = pgTable('transactions', {
   };
 });
 
+// Stripe webhook events, keyed by Stripe event id so retries are processed once
+export const stripeEvents = pgTable('stripe_events', {
+  id: varchar('id', { length: 255 }).primaryKey(), // Stripe event id (evt_...)
+  type: varchar('type', { length: 100 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // 'pending', 'processing', 'processed', 'failed'
+  attempts: integer('attempts').default(0),
+  lastError: text('last_error'),
+  payload: jsonb('payload').notNull(),
+  processedAt: timestamp('processed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    typeIdx: index('stripe_event_type_idx').on(table.type),
+    statusIdx: index('stripe_event_status_idx').on(table.status),
+  };
+});
+
+// Double-entry ledger. Every money movement is a journal of entries that
+// sums to zero; positive amounts are debits, negative amounts are credits.
+export const ledgerEntries = pgTable('ledger_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  journalId: uuid('journal_id').notNull(),
+  account: ledgerAccountEnum('account').notNull(),
+  userId: uuid('user_id').references(() => users.id), // Owner of client/reader accounts, null for platform accounts
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+  referenceType: varchar('reference_type', { length: 50 }).notNull(), // 'topup', 'session_hold', 'session_capture', 'gift', 'payout', 'dispute_refund', 'stream_ticket', 'stream_ticket_refund', 'order_payment', 'order_refund', 'seller_release', 'seller_reversal'
+  referenceId: varchar('reference_id', { length: 255 }),
+  description: text('description'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    journalIdIdx: index('ledger_journal_id_idx').on(table.journalId),
+    accountUserIdx: index('ledger_account_user_idx').on(table.account, table.userId),
+    referenceIdx: index('ledger_reference_idx').on(table.referenceType, table.referenceId),
+  };
+});
+
+// Results of ledger reconciliation runs
+export const ledgerReconciliations = pgTable('ledger_reconciliations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  status: varchar('status', { length: 20 }).notNull(), // 'clean', 'drift'
+  accountsChecked: integer('accounts_checked').default(0),
+  driftCount: integer('drift_count').default(0),
+  drifts: jsonb('drifts'), // [{ account, userId, expected, actual, difference }]
+  unbalancedJournals: jsonb('unbalanced_journals'), // Journal ids whose entries don't sum to zero
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    statusIdx: index('ledger_reconciliation_status_idx').on(table.status),
+    createdAtIdx: index('ledger_reconciliation_created_at_idx').on(table.createdAt),
+  };
+});
+
 // Messages between users
 export const messages = pgTable('messages', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -517,11 +878,13 @@ export const disputes = pgTable('disputes', {
   description: text('description').notNull(),
   status: disputeStatusEnum('status').default('open'),
   evidence: jsonb('evidence'), // URLs to uploaded evidence
+  transcript: jsonb('transcript'), // Snapshot of the session chat when the dispute was opened
   adminNotes: text('admin_notes'),
   resolution: text('resolution'),
   resolvedBy: uuid('resolved_by').references(() => users.id),
   resolvedAt: timestamp('resolved_at'),
   refundAmount: decimal('refund_amount', { precision: 12, scale: 2 }),
+  clawbackAmount: decimal('clawback_amount', { precision: 12, scale: 2 }), // Part of the refund taken back from the reader
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => {
@@ -535,6 +898,24 @@ export const disputes = pgTable('disputes', {
   };
 });
 
+// Audit trail of everything that happened to a dispute
+export const disputeEvents = pgTable('dispute_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  disputeId: uuid('dispute_id').references(() => disputes.id).notNull(),
+  actorId: uuid('actor_id').references(() => users.id).notNull(),
+  action: varchar('action', { length: 50 }).notNull(), // 'opened', 'status_changed', 'notes_updated', 'refunded'
+  fromStatus: disputeStatusEnum('from_status'),
+  toStatus: disputeStatusEnum('to_status'),
+  notes: text('notes'),
+  metadata: jsonb('metadata'), // Refund amounts, ledger journal id, etc.
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    disputeIdIdx: index('dispute_event_dispute_id_idx').on(table.disputeId),
+    createdAtIdx: index('dispute_event_created_at_idx').on(table.createdAt),
+  };
+});
+
 // Admin settings and configurations
 export const settings = pgTable('settings', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -588,6 +969,7 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   favorites: many(userFavorites),
   transactions: many(transactions),
   orders: many(orders),
+  cartItems: many(cartItems),
 }));
 
 export const readerProfilesRelations = relations(readerProfiles, ({ one }) => ({
@@ -604,12 +986,72 @@ export const readingSessionsRelations = relations(readingSessions, ({ one, many
   messages: many(sessionMessages),
   virtualGifts: many(virtualGifts),
   transactions: many(transactions),
+  recordings: many(recordings),
+}));
+
+export const bookingsRelations = relations(bookings, ({ one }) => ({
+  client: one(users, { fields: [bookings.clientId], references: [users.id] }),
+  reader: one(users, { fields: [bookings.readerId], references: [users.id] }),
+  session: one(readingSessions, { fields: [bookings.sessionId], references: [readingSessions.id] }),
+}));
+
+export const readingWaitlistRelations = relations(readingWaitlist, ({ one }) => ({
+  client: one(users, { fields: [readingWaitlist.clientId], references: [users.id] }),
+  reader: one(users, { fields: [readingWaitlist.readerId], references: [users.id] }),
+  session: one(readingSessions, { fields: [readingWaitlist.sessionId], references: [readingSessions.id] }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ one, many }) => ({
+  reader: one(users, { fields: [promotions.readerId], references: [users.id] }),
+  redemptions: many(promotionRedemptions),
+}));
+
+export const promotionRedemptionsRelations = relations(promotionRedemptions, ({ one }) => ({
+  promotion: one(promotions, { fields: [promotionRedemptions.promotionId], references: [promotions.id] }),
+  session: one(readingSessions, { fields: [promotionRedemptions.sessionId], references: [readingSessions.id] }),
+}));
+
+export const disputesRelations = relations(disputes, ({ one, many }) => ({
+  session: one(readingSessions, { fields: [disputes.sessionId], references: [readingSessions.id] }),
+  initiator: one(users, { fields: [disputes.initiatorId], references: [users.id] }),
+  respondent: one(users, { fields: [disputes.respondentId], references: [users.id] }),
+  events: many(disputeEvents),
+}));
+
+export const disputeEventsRelations = relations(disputeEvents, ({ one }) => ({
+  dispute: one(disputes, { fields: [disputeEvents.disputeId], references: [disputes.id] }),
+  actor: one(users, { fields: [disputeEvents.actorId], references: [users.id] }),
 }));
 
 export const liveStreamsRelations = relations(liveStreams, ({ one, many }) => ({
   reader: one(users, { fields: [liveStreams.readerId], references: [users.id] }),
   viewers: many(streamViewers),
   virtualGifts: many(virtualGifts),
+  recordings: many(recordings),
+  tickets: many(streamTickets),
+  chatMessages: many(streamChatMessages),
+  likes: many(streamLikes),
+  rsvps: many(streamRsvps),
+}));
+
+export const streamRsvpsRelations = relations(streamRsvps, ({ one }) => ({
+  stream: one(liveStreams, { fields: [streamRsvps.streamId], references: [liveStreams.id] }),
+  user: one(users, { fields: [streamRsvps.userId], references: [users.id] }),
+}));
+
+export const streamChatMessagesRelations = relations(streamChatMessages, ({ one }) => ({
+  stream: one(liveStreams, { fields: [streamChatMessages.streamId], references: [liveStreams.id] }),
+  sender: one(users, { fields: [streamChatMessages.senderId], references: [users.id] }),
+}));
+
+export const streamTicketsRelations = relations(streamTickets, ({ one }) => ({
+  stream: one(liveStreams, { fields: [streamTickets.streamId], references: [liveStreams.id] }),
+  user: one(users, { fields: [streamTickets.userId], references: [users.id] }),
+}));
+
+export const recordingsRelations = relations(recordings, ({ one }) => ({
+  session: one(readingSessions, { fields: [recordings.sessionId], references: [readingSessions.id] }),
+  stream: one(liveStreams, { fields: [recordings.streamId], references: [liveStreams.id] }),
 }));
 
 export const productsRelations = relations(products, ({ one, many }) => ({
@@ -618,12 +1060,54 @@ export const productsRelations = relations(products, ({ one, many }) => ({
   orderItems: many(orderItems),
 }));
 
+export const productReviewsRelations = relations(productReviews, ({ one, many }) => ({
+  product: one(products, { fields: [productReviews.productId], references: [products.id] }),
+  user: one(users, { fields: [productReviews.userId], references: [users.id] }),
+  votes: many(productReviewVotes),
+}));
+
+export const productReviewVotesRelations = relations(productReviewVotes, ({ one }) => ({
+  review: one(productReviews, { fields: [productReviewVotes.reviewId], references: [productReviews.id] }),
+  user: one(users, { fields: [productReviewVotes.userId], references: [users.id] }),
+}));
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, { fields: [orders.userId], references: [users.id] }),
   items: many(orderItems),
+  shipments: many(shipments),
   transactions: many(transactions),
 }));
 
+export const orderItemsRelations = relations(orderItems, ({ one, many }) => ({
+  order: one(orders, { fields: [orderItems.orderId], references: [orders.id] }),
+  product: one(products, { fields: [orderItems.productId], references: [products.id] }),
+  shipment: one(shipments, { fields: [orderItems.shipmentId], references: [shipments.id] }),
+  downloads: many(downloadLogs),
+}));
+
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
+  order: one(orders, { fields: [shipments.orderId], references: [orders.id] }),
+  seller: one(users, { fields: [shipments.sellerId], references: [users.id] }),
+  items: many(orderItems),
+}));
+
+export const sellerEarningsRelations = relations(sellerEarnings, ({ one }) => ({
+  orderItem: one(orderItems, { fields: [sellerEarnings.orderItemId], references: [orderItems.id] }),
+  order: one(orders, { fields: [sellerEarnings.orderId], references: [orders.id] }),
+  seller: one(users, { fields: [sellerEarnings.sellerId], references: [users.id] }),
+  product: one(products, { fields: [sellerEarnings.productId], references: [products.id] }),
+}));
+
+export const downloadLogsRelations = relations(downloadLogs, ({ one }) => ({
+  orderItem: one(orderItems, { fields: [downloadLogs.orderItemId], references: [orderItems.id] }),
+  user: one(users, { fields: [downloadLogs.userId], references: [users.id] }),
+}));
+
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  user: one(users, { fields: [cartItems.userId], references: [users.id] }),
+  product: one(products, { fields: [cartItems.productId], references: [products.id] }),
+}));
+
 export const forumPostsRelations = relations(forumPosts, ({ one, many }) => ({
   author: one(users, { fields: [forumPosts.authorId], references: [users.id] }),
   category: one(forumCategories, { fields: [forumPosts.categoryId], references: [forumCategories.id] }),
@@ -0,0 +1,446 @@
+import { db } from '@/lib/db';
+import {
+  disputes,
+  disputeEvents,
+  readingSessions,
+  clientBalances,
+  readerProfiles,
+  transactions,
+} from '@/lib/db/schema';
+import { eq, and, or, inArray, asc, desc, sql } from 'drizzle-orm';
+import { PLATFORM_FEE_PERCENTAGE } from '@/lib/stripe';
+import { recordDisputeRefund } from '@/lib/ledger';
+import { notifyUser } from '@/lib/notifications';
+import { buildSessionTranscript } from '@/lib/transcripts';
+import type { CreateDisputeInput, UpdateDisputeInput } from '@/lib/validations';
+
+export const DISPUTE_CONFIG = {
+  windowDays: 7, // How long after a session ends the client can dispute it
+};
+
+export type DisputeStatus = 'open' | 'investigating' | 'resolved' | 'closed';
+type Dispute = typeof disputes.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const FINAL_STATUSES: DisputeStatus[] = ['resolved', 'closed'];
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+async function recordDisputeEvent(
+  executor: typeof db | Transaction,
+  event: typeof disputeEvents.$inferInsert
+): Promise<void> {
+  await executor.insert(disputeEvents).values(event);
+}
+
+async function notifyDisputeParty(
+  dispute: Dispute,
+  userId: string,
+  message: { title: string; content: string }
+): Promise<void> {
+  try {
+    await notifyUser(userId, {
+      type: 'reading',
+      title: message.title,
+      content: message.content,
+      data: {
+        disputeId: dispute.id,
+        sessionId: dispute.sessionId,
+        status: dispute.status,
+      },
+      actionUrl: '/dashboard',
+    });
+  } catch (error) {
+    console.error('Failed to send dispute notification:', error);
+  }
+}
+
+/**
+ * Open a dispute on a completed session. Only the client can dispute, once
+ * per session, within DISPUTE_CONFIG.windowDays of the session ending. The
+ * chat transcript is snapshotted so later edits can't change the evidence.
+ */
+export async function openDispute(clientId: string, input: CreateDisputeInput): Promise<Dispute> {
+  const session = await db.query.readingSessions.findFirst({
+    where: and(
+      eq(readingSessions.id, input.sessionId),
+      eq(readingSessions.clientId, clientId)
+    ),
+  });
+
+  if (!session) {
+    throw new Error('Session not found');
+  }
+
+  if (session.isDisputed) {
+    throw new Error('This session has already been disputed');
+  }
+
+  if (session.status !== 'completed' || !session.endedAt) {
+    throw new Error('Only completed sessions can be disputed');
+  }
+
+  const windowEndsAt = new Date(session.endedAt.getTime() + DISPUTE_CONFIG.windowDays * 24 * 60 * 60 * 1000);
+  if (new Date() > windowEndsAt) {
+    throw new Error('The dispute window for this session has closed');
+  }
+
+  const transcript = await buildSessionTranscript(session.id);
+
+  const dispute = await db.transaction(async (tx) => {
+    // Claim the session so a second request can't open another dispute
+    const [claimed] = await tx
+      .update(readingSessions)
+      .set({ status: 'disputed', isDisputed: true, updatedAt: new Date() })
+      .where(
+        and(
+          eq(readingSessions.id, session.id),
+          eq(readingSessions.status, 'completed'),
+          eq(readingSessions.isDisputed, false)
+        )
+      )
+      .returning();
+
+    if (!claimed) {
+      throw new Error('This session has already been disputed');
+    }
+
+    const [created] = await tx
+      .insert(disputes)
+      .values({
+        sessionId: session.id,
+        initiatorId: clientId,
+        respondentId: session.readerId,
+        reason: input.reason,
+        description: input.description,
+        evidence: input.evidence || [],
+        transcript,
+      })
+      .returning();
+
+    await recordDisputeEvent(tx, {
+      disputeId: created.id,
+      actorId: clientId,
+      action: 'opened',
+      toStatus: 'open',
+      notes: input.reason,
+    });
+
+    return created;
+  });
+
+  await notifyDisputeParty(dispute, dispute.respondentId, {
+    title: 'Reading disputed',
+    content: `A client has disputed a ${session.type} reading: ${dispute.reason}`,
+  });
+
+  return dispute;
+}
+
+/**
+ * Disputes a user opened or was named in, newest first
+ */
+export async function listUserDisputes(userId: string) {
+  return db.query.disputes.findMany({
+    where: or(eq(disputes.initiatorId, userId), eq(disputes.respondentId, userId)),
+    columns: {
+      adminNotes: false,
+    },
+    with: {
+      session: {
+        columns: {
+          id: true,
+          type: true,
+          startedAt: true,
+          endedAt: true,
+          totalCost: true,
+        },
+      },
+    },
+    orderBy: [desc(disputes.createdAt)],
+  });
+}
+
+/**
+ * Admin investigation queue. Defaults to disputes that still need a decision,
+ * oldest first so nothing waits too long.
+ */
+export async function listDisputeQueue(statuses: DisputeStatus[] = ['open', 'investigating']) {
+  return db.query.disputes.findMany({
+    where: inArray(disputes.status, statuses),
+    with: {
+      session: {
+        columns: {
+          id: true,
+          type: true,
+          startedAt: true,
+          endedAt: true,
+          duration: true,
+          totalCost: true,
+          pricingBreakdown: true,
+        },
+        with: {
+          recordings: {
+            columns: {
+              id: true,
+              status: true,
+              startedAt: true,
+            },
+          },
+        },
+      },
+      initiator: {
+        columns: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+        },
+      },
+      respondent: {
+        columns: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+        },
+      },
+    },
+    orderBy: [asc(disputes.createdAt)],
+  });
+}
+
+/**
+ * A dispute with its session and full audit trail
+ */
+export async function getDispute(disputeId: string) {
+  return db.query.disputes.findFirst({
+    where: eq(disputes.id, disputeId),
+    with: {
+      session: true,
+      initiator: {
+        columns: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          profileImage: true,
+        },
+      },
+      respondent: {
+        columns: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          profileImage: true,
+        },
+      },
+      events: {
+        orderBy: [asc(disputeEvents.createdAt)],
+      },
+    },
+  });
+}
+
+/**
+ * Refund part or all of a disputed session to the client wallet. The
+ * reader's share of the refund is clawed back from their pending payout,
+ * which can go negative if they have already been paid; later earnings
+ * net it off.
+ */
+async function refundDisputedSession(
+  tx: Transaction,
+  dispute: Dispute,
+  session: typeof readingSessions.$inferSelect,
+  amount: number,
+  adminId: string
+): Promise<number> {
+  const platformShare = Math.round(amount * PLATFORM_FEE_PERCENTAGE) / 100;
+  const clawbackAmount = fromCents(toCents(amount) - toCents(platformShare));
+
+  await tx
+    .update(clientBalances)
+    .set({
+      balance: sql`${clientBalances.balance} + ${amount}`,
+      totalSpent: sql`${clientBalances.totalSpent} - ${amount}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(clientBalances.userId, session.clientId));
+
+  await tx
+    .update(readerProfiles)
+    .set({
+      pendingPayout: sql`${readerProfiles.pendingPayout} - ${clawbackAmount}`,
+      totalEarnings: sql`${readerProfiles.totalEarnings} - ${clawbackAmount}`,
+    })
+    .where(eq(readerProfiles.userId, session.readerId));
+
+  const journalId = await recordDisputeRefund(tx, {
+    clientId: session.clientId,
+    readerId: session.readerId,
+    disputeId: dispute.id,
+    amount,
+    clawbackAmount,
+  });
+
+  await tx.insert(transactions).values({
+    userId: session.clientId,
+    sessionId: session.id,
+    type: 'refund',
+    amount: amount.toFixed(2),
+    status: 'completed',
+    description: 'Reading session dispute refund',
+    metadata: { disputeId: dispute.id },
+  });
+
+  if (clawbackAmount > 0) {
+    await tx.insert(transactions).values({
+      userId: session.readerId,
+      sessionId: session.id,
+      type: 'clawback',
+      amount: clawbackAmount.toFixed(2),
+      status: 'completed',
+      description: 'Reading session dispute clawback',
+      metadata: { disputeId: dispute.id },
+    });
+  }
+
+  await recordDisputeEvent(tx, {
+    disputeId: dispute.id,
+    actorId: adminId,
+    action: 'refunded',
+    metadata: {
+      refundAmount: amount,
+      clawbackAmount,
+      platformShare,
+      journalId,
+    },
+  });
+
+  return clawbackAmount;
+}
+
+/**
+ * Move a dispute through the investigation workflow. Resolving can refund
+ * up to what the session cost; resolved and closed disputes are final and
+ * hand the session back to 'completed'.
+ */
+export async function updateDispute(
+  disputeId: string,
+  adminId: string,
+  input: UpdateDisputeInput
+): Promise<Dispute> {
+  const refundAmount = input.refundAmount || 0;
+
+  if (refundAmount > 0 && input.status !== 'resolved') {
+    throw new Error('A refund can only be issued when resolving a dispute');
+  }
+
+  if (input.status === 'resolved' && !input.resolution) {
+    throw new Error('A resolution is required to resolve a dispute');
+  }
+
+  const dispute = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(disputes)
+      .where(eq(disputes.id, disputeId))
+      .for('update');
+
+    if (!current) {
+      throw new Error('Dispute not found');
+    }
+
+    const fromStatus = (current.status || 'open') as DisputeStatus;
+
+    if (FINAL_STATUSES.includes(fromStatus)) {
+      throw new Error(`Dispute is already ${fromStatus}`);
+    }
+
+    const [session] = await tx
+      .select()
+      .from(readingSessions)
+      .where(eq(readingSessions.id, current.sessionId))
+      .for('update');
+
+    const isFinal = FINAL_STATUSES.includes(input.status);
+    let clawbackAmount = 0;
+
+    if (refundAmount > 0) {
+      const totalCost = parseFloat(session.totalCost || '0');
+
+      if (toCents(refundAmount) > toCents(totalCost)) {
+        throw new Error(`Refund can't exceed the session cost of ${totalCost.toFixed(2)}`);
+      }
+
+      clawbackAmount = await refundDisputedSession(tx, current, session, refundAmount, adminId);
+    }
+
+    if (isFinal && session.status === 'disputed') {
+      await tx
+        .update(readingSessions)
+        .set({ status: 'completed', updatedAt: new Date() })
+        .where(eq(readingSessions.id, session.id));
+    }
+
+    const [updated] = await tx
+      .update(disputes)
+      .set({
+        status: input.status,
+        adminNotes: input.adminNotes,
+        resolution: input.resolution,
+        refundAmount: isFinal ? refundAmount.toFixed(2) : undefined,
+        clawbackAmount: isFinal ? clawbackAmount.toFixed(2) : undefined,
+        resolvedBy: isFinal ? adminId : undefined,
+        resolvedAt: isFinal ? new Date() : undefined,
+        updatedAt: new Date(),
+      })
+      .where(eq(disputes.id, current.id))
+      .returning();
+
+    if (input.status !== fromStatus) {
+      await recordDisputeEvent(tx, {
+        disputeId: current.id,
+        actorId: adminId,
+        action: 'status_changed',
+        fromStatus,
+        toStatus: input.status,
+        notes: input.resolution,
+      });
+    }
+
+    if (input.adminNotes !== undefined && input.adminNotes !== current.adminNotes) {
+      await recordDisputeEvent(tx, {
+        disputeId: current.id,
+        actorId: adminId,
+        action: 'notes_updated',
+        notes: input.adminNotes,
+      });
+    }
+
+    return updated;
+  });
+
+  if (FINAL_STATUSES.includes(input.status)) {
+    const outcome = refundAmount > 0
+      ? `A refund of $${refundAmount.toFixed(2)} was issued.`
+      : 'No refund was issued.';
+
+    await notifyDisputeParty(dispute, dispute.initiatorId, {
+      title: 'Dispute resolved',
+      content: `Your dispute has been ${input.status}. ${outcome}`,
+    });
+
+    await notifyDisputeParty(dispute, dispute.respondentId, {
+      title: 'Dispute resolved',
+      content: `A dispute on your reading has been ${input.status}. ${outcome}`,
+    });
+  }
+
+  return dispute;
+}
@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import { products, orders, orderItems, downloadLogs } from '@/lib/db/schema';
+import { eq, and, inArray, isNotNull, desc, sql } from 'drizzle-orm';
+import { presignS3Url, type S3Location } from '@/lib/storage';
+import type { AuthUser } from '@/lib/auth';
+import type { ProductFileUploadInput, AddProductFileInput } from '@/lib/validations';
+
+// Server-only: signs download links and the storage URLs behind them.
+
+type Product = typeof products.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export const DOWNLOAD_CONFIG = {
+  linkTtlHours: 72, // Signed links handed to the buyer
+  fileUrlTtlSeconds: 300, // Storage URL a valid link redirects to
+  uploadUrlTtlSeconds: 900, // Time a seller has to start an upload
+  maxFileBytes: 500 * 1024 * 1024,
+  maxFilesPerProduct: 20,
+} as const;
+
+// Order statuses in which a paid order's downloads stay available
+const DOWNLOADABLE_ORDER_STATUSES = ['processing', 'shipped', 'delivered'] as const;
+
+export interface DigitalFile {
+  id: string;
+  name: string;
+  size: number;
+  contentType?: string;
+  storageKey?: string; // Uploaded to product storage
+  url?: string; // Older products link to files hosted elsewhere
+  uploadedAt?: string;
+}
+
+export interface DownloadLink {
+  url: string;
+  expiresAt: Date;
+}
+
+export interface PurchasedDownload {
+  itemId: string;
+  orderId: string;
+  purchasedAt: Date | null;
+  product: { id: string; name: string; images: unknown };
+  files: Array<Pick<DigitalFile, 'id' | 'name' | 'size'> & { url: string }>;
+  downloadCount: number;
+  maxDownloads: number | null;
+  downloadsRemaining: number | null;
+  linkExpiresAt: Date;
+}
+
+function getStorageLocation(): S3Location {
+  const bucket = process.env.PRODUCT_STORAGE_BUCKET;
+  const accessKey = process.env.PRODUCT_STORAGE_ACCESS_KEY;
+  const secretKey = process.env.PRODUCT_STORAGE_SECRET_KEY;
+
+  if (!bucket || !accessKey || !secretKey) {
+    throw new Error('Product file storage is not configured');
+  }
+
+  return {
+    bucket,
+    accessKey,
+    secretKey,
+    region: process.env.PRODUCT_STORAGE_REGION || 'us-east-1',
+  };
+}
+
+function getLinkSecret(): string {
+  const secret = process.env.DOWNLOAD_LINK_SECRET;
+
+  if (!secret) {
+    throw new Error('DOWNLOAD_LINK_SECRET is not set');
+  }
+
+  return secret;
+}
+
+/**
+ * Files attached to a product. Entries saved before files had ids are
+ * addressed by their position.
+ */
+export function getDigitalFiles(product: Pick<Product, 'digitalFiles'>): DigitalFile[] {
+  const files = Array.isArray(product.digitalFiles) ? (product.digitalFiles as DigitalFile[]) : [];
+  return files.map((file, index) => ({ ...file, id: file.id || String(index) }));
+}
+
+function signDownload(itemId: string, expires: number): string {
+  return crypto.createHmac('sha256', getLinkSecret()).update(`${itemId}.${expires}`).digest('hex');
+}
+
+/**
+ * Signed link to an order item's files. The signature covers the item and
+ * the expiry; which file is fetched is picked with the `file` parameter.
+ */
+export function createDownloadLink(itemId: string, fileId?: string, now: Date = new Date()): DownloadLink {
+  const expiresAt = new Date(now.getTime() + DOWNLOAD_CONFIG.linkTtlHours * 60 * 60 * 1000);
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const params = new URLSearchParams({ expires: String(expires), signature: signDownload(itemId, expires) });
+
+  if (fileId) {
+    params.set('file', fileId);
+  }
+
+  return {
+    url: `${process.env.NEXT_PUBLIC_APP_URL || ''}/api/shop/downloads/${itemId}?${params.toString()}`,
+    expiresAt,
+  };
+}
+
+function isValidSignature(itemId: string, expires: number, signature: string): boolean {
+  const expected = Buffer.from(signDownload(itemId, expires), 'hex');
+  const given = Buffer.from(signature, 'hex');
+
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+/**
+ * Store a fresh link on each digital item that was just fulfilled, so the
+ * order keeps a record of what the buyer was sent
+ */
+export async function attachDownloadLinks(executor: Executor, itemIds: string[]): Promise<void> {
+  if (itemIds.length === 0) return;
+
+  const digitalItems = await executor
+    .select({ id: orderItems.id })
+    .from(orderItems)
+    .innerJoin(products, eq(orderItems.productId, products.id))
+    .where(and(inArray(orderItems.id, itemIds), eq(products.type, 'digital')));
+
+  for (const item of digitalItems) {
+    await executor
+      .update(orderItems)
+      .set({ digitalDownloadUrl: createDownloadLink(item.id).url })
+      .where(eq(orderItems.id, item.id));
+  }
+}
+
+/**
+ * Check a signed link, count the download against the item's limit and log
+ * it. Returns the URL the file can be fetched from.
+ */
+export async function redeemDownload(params: {
+  itemId: string;
+  fileId?: string | null;
+  expires: number;
+  signature: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}): Promise<string> {
+  const { itemId, expires, signature } = params;
+
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now() || !isValidSignature(itemId, expires, signature)) {
+    throw new Error('This download link is invalid or has expired');
+  }
+
+  const item = await db.query.orderItems.findFirst({
+    where: eq(orderItems.id, itemId),
+    with: { order: true, product: true },
+  });
+
+  if (
+    !item ||
+    !item.fulfilledAt ||
+    item.product.type !== 'digital' ||
+    !(DOWNLOADABLE_ORDER_STATUSES as readonly string[]).includes(item.order.status || '')
+  ) {
+    throw new Error('This purchase is not available for download');
+  }
+
+  const files = getDigitalFiles(item.product);
+  const file = params.fileId ? files.find((candidate) => candidate.id === params.fileId) : files[0];
+
+  if (!file) {
+    throw new Error('File not found');
+  }
+
+  const fileUrl = file.storageKey
+    ? presignS3Url(getStorageLocation(), file.storageKey, DOWNLOAD_CONFIG.fileUrlTtlSeconds, {
+        query: {
+          'response-content-disposition': `attachment; filename="${file.name.replace(/["\\]/g, '')}"`,
+        },
+      })
+    : file.url;
+
+  if (!fileUrl) {
+    throw new Error('File not found');
+  }
+
+  await db.transaction(async (tx) => {
+    // A null limit means unlimited downloads
+    const [counted] = await tx
+      .update(orderItems)
+      .set({ downloadCount: sql`${orderItems.downloadCount} + 1` })
+      .where(
+        and(
+          eq(orderItems.id, item.id),
+          sql`(${orderItems.maxDownloads} is null or ${orderItems.downloadCount} < ${orderItems.maxDownloads})`
+        )
+      )
+      .returning();
+
+    if (!counted) {
+      throw new Error('You have reached the download limit for this purchase');
+    }
+
+    await tx.insert(downloadLogs).values({
+      orderItemId: item.id,
+      userId: item.order.userId,
+      fileId: file.id,
+      ipAddress: params.ipAddress,
+      userAgent: params.userAgent,
+    });
+  });
+
+  return fileUrl;
+}
+
+/**
+ * The buyer's digital purchases with fresh download links
+ */
+export async function getPurchaseLibrary(userId: string): Promise<PurchasedDownload[]> {
+  const rows = await db
+    .select({ item: orderItems, order: orders, product: products })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .innerJoin(products, eq(orderItems.productId, products.id))
+    .where(
+      and(
+        eq(orders.userId, userId),
+        inArray(orders.status, [...DOWNLOADABLE_ORDER_STATUSES]),
+        eq(products.type, 'digital'),
+        isNotNull(orderItems.fulfilledAt)
+      )
+    )
+    .orderBy(desc(orders.paidAt));
+
+  const now = new Date();
+
+  return rows.map(({ item, order, product }) => {
+    const downloadCount = item.downloadCount || 0;
+    const maxDownloads = item.maxDownloads;
+    const files = getDigitalFiles(product).map((file) => ({
+      id: file.id,
+      name: file.name,
+      size: file.size,
+      url: createDownloadLink(item.id, file.id, now).url,
+    }));
+
+    return {
+      itemId: item.id,
+      orderId: order.id,
+      purchasedAt: order.paidAt,
+      product: { id: product.id, name: product.name, images: product.images },
+      files,
+      downloadCount,
+      maxDownloads,
+      downloadsRemaining: maxDownloads === null ? null : Math.max(maxDownloads - downloadCount, 0),
+      linkExpiresAt: createDownloadLink(item.id, undefined, now).expiresAt,
+    };
+  });
+}
+
+async function getManagedProduct(productId: string, user: AuthUser): Promise<Product> {
+  const product = await db.query.products.findFirst({
+    where: eq(products.id, productId),
+  });
+
+  if (!product || (product.sellerId !== user.id && user.role !== 'admin')) {
+    throw new Error('Product not found');
+  }
+
+  if (product.type !== 'digital') {
+    throw new Error('Only digital products have downloadable files');
+  }
+
+  return product;
+}
+
+export async function listProductFiles(productId: string, user: AuthUser): Promise<DigitalFile[]> {
+  return getDigitalFiles(await getManagedProduct(productId, user));
+}
+
+/**
+ * Presigned URL the seller's browser uploads a file to. The file is attached
+ * to the product once the upload has finished, with addProductFile.
+ */
+export async function createProductFileUpload(
+  productId: string,
+  user: AuthUser,
+  input: ProductFileUploadInput
+): Promise<{ uploadUrl: string; storageKey: string; expiresAt: Date }> {
+  const product = await getManagedProduct(productId, user);
+
+  if (input.size > DOWNLOAD_CONFIG.maxFileBytes) {
+    throw new Error(`Files can be at most ${DOWNLOAD_CONFIG.maxFileBytes / (1024 * 1024)} MB`);
+  }
+
+  if (getDigitalFiles(product).length >= DOWNLOAD_CONFIG.maxFilesPerProduct) {
+    throw new Error(`A product can have at most ${DOWNLOAD_CONFIG.maxFilesPerProduct} files`);
+  }
+
+  const safeName = input.name.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(0, 100);
+  const storageKey = `products/${product.id}/${crypto.randomUUID()}-${safeName}`;
+
+  return {
+    uploadUrl: presignS3Url(getStorageLocation(), storageKey, DOWNLOAD_CONFIG.uploadUrlTtlSeconds, {
+      method: 'PUT',
+    }),
+    storageKey,
+    expiresAt: new Date(Date.now() + DOWNLOAD_CONFIG.uploadUrlTtlSeconds * 1000),
+  };
+}
+
+export async function addProductFile(
+  productId: string,
+  user: AuthUser,
+  input: AddProductFileInput
+): Promise<DigitalFile[]> {
+  const product = await getManagedProduct(productId, user);
+
+  if (!input.storageKey.startsWith(`products/${product.id}/`)) {
+    throw new Error('File was not uploaded for this product');
+  }
+
+  const files = getDigitalFiles(product);
+
+  if (files.some((file) => file.storageKey === input.storageKey)) {
+    return files;
+  }
+
+  if (files.length >= DOWNLOAD_CONFIG.maxFilesPerProduct) {
+    throw new Error(`A product can have at most ${DOWNLOAD_CONFIG.maxFilesPerProduct} files`);
+  }
+
+  const updated: DigitalFile[] = [
+    ...files,
+    {
+      id: crypto.randomUUID(),
+      name: input.name,
+      size: input.size,
+      contentType: input.contentType,
+      storageKey: input.storageKey,
+      uploadedAt: new Date().toISOString(),
+    },
+  ];
+
+  await db
+    .update(products)
+    .set({ digitalFiles: updated, updatedAt: new Date() })
+    .where(eq(products.id, product.id));
+
+  return updated;
+}
+
+/**
+ * Detach a file from a product. Buyers who already have it lose access to it
+ * through their library, but the stored object is kept.
+ */
+export async function removeProductFile(
+  productId: string,
+  user: AuthUser,
+  fileId: string
+): Promise<DigitalFile[]> {
+  const product = await getManagedProduct(productId, user);
+  const files = getDigitalFiles(product);
+  const updated = files.filter((file) => file.id !== fileId);
+
+  if (updated.length === files.length) {
+    throw new Error('File not found');
+  }
+
+  await db
+    .update(products)
+    .set({ digitalFiles: updated, updatedAt: new Date() })
+    .where(eq(products.id, product.id));
+
+  return updated;
+}
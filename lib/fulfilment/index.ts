@@ -0,0 +1,410 @@
+import { db } from '@/lib/db';
+import { orders, orderItems, products, shipments } from '@/lib/db/schema';
+import { eq, and, lt, asc, desc, inArray, isNull, isNotNull } from 'drizzle-orm';
+import { fulfilOrderItems } from '@/lib/orders';
+import { releaseSellerEarningsForItems } from '@/lib/marketplace';
+import { notifyUser } from '@/lib/notifications';
+import type { AuthUser } from '@/lib/auth';
+import type { ShipOrderInput } from '@/lib/validations';
+
+type Order = typeof orders.$inferSelect;
+type Shipment = typeof shipments.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const FULFILMENT_CONFIG = {
+  autoConfirmDays: 10, // Parcels the buyer hasn't confirmed are treated as received after this long
+} as const;
+
+export type SellerOrderFilter = 'to_ship' | 'shipped';
+
+const TRACKING_URLS: Record<string, (trackingNumber: string) => string> = {
+  usps: (trackingNumber) => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${trackingNumber}`,
+  ups: (trackingNumber) => `https://www.ups.com/track?tracknum=${trackingNumber}`,
+  fedex: (trackingNumber) => `https://www.fedex.com/fedextrack/?trknbr=${trackingNumber}`,
+  dhl: (trackingNumber) => `https://www.dhl.com/en/express/tracking.html?AWB=${trackingNumber}`,
+};
+
+/**
+ * Carrier's tracking page for a parcel, or null for carriers we don't know
+ */
+export function getTrackingUrl(carrier: string, trackingNumber: string): string | null {
+  const buildUrl = TRACKING_URLS[carrier];
+  return buildUrl ? buildUrl(encodeURIComponent(trackingNumber)) : null;
+}
+
+export function withTrackingUrl<T extends Pick<Shipment, 'carrier' | 'trackingNumber'>>(shipment: T) {
+  return { ...shipment, trackingUrl: getTrackingUrl(shipment.carrier, shipment.trackingNumber) };
+}
+
+/**
+ * A seller's paid orders with items to ship, oldest first, or the ones they
+ * have shipped, newest first. Only the seller's own shipped items and
+ * parcels are included.
+ */
+export async function listSellerOrders(
+  sellerId: string,
+  filter: SellerOrderFilter = 'to_ship',
+  limit: number = 20
+) {
+  const toShip = filter === 'to_ship';
+
+  const matching = await db
+    .selectDistinct({ orderId: orders.id, paidAt: orders.paidAt })
+    .from(orderItems)
+    .innerJoin(products, eq(orderItems.productId, products.id))
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .where(
+      and(
+        eq(products.sellerId, sellerId),
+        eq(products.shippingRequired, true),
+        toShip
+          ? and(eq(orders.status, 'processing'), isNull(orderItems.shipmentId))
+          : and(inArray(orders.status, ['processing', 'shipped', 'delivered']), isNotNull(orderItems.shipmentId))
+      )
+    )
+    .orderBy(toShip ? asc(orders.paidAt) : desc(orders.paidAt))
+    .limit(limit);
+
+  if (matching.length === 0) {
+    return [];
+  }
+
+  const rows = await db.query.orders.findMany({
+    where: inArray(orders.id, matching.map((row) => row.orderId)),
+    columns: {
+      id: true,
+      status: true,
+      shippingAddress: true,
+      notes: true,
+      paidAt: true,
+      shippedAt: true,
+      deliveredAt: true,
+    },
+    with: {
+      user: {
+        columns: { firstName: true, lastName: true },
+      },
+      items: {
+        with: {
+          product: {
+            columns: { id: true, name: true, images: true, sellerId: true, shippingRequired: true },
+          },
+        },
+      },
+      shipments: {
+        where: eq(shipments.sellerId, sellerId),
+      },
+    },
+  });
+
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  return matching.map(({ orderId }) => {
+    const order = byId.get(orderId)!;
+
+    return {
+      ...order,
+      items: order.items.filter((item) => item.product.sellerId === sellerId && item.product.shippingRequired),
+      shipments: order.shipments.map(withTrackingUrl),
+    };
+  });
+}
+
+/**
+ * Record a parcel for some of the items on a paid order. Without item ids
+ * every item the seller still has to ship goes in it. The order moves to
+ * shipped once nothing is left to ship.
+ */
+export async function shipOrderItems(
+  orderId: string,
+  user: AuthUser,
+  input: ShipOrderInput
+): Promise<{ order: Order; shipment: Shipment; complete: boolean }> {
+  const result = await db.transaction(async (tx) => {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId))
+      .for('update');
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const items = await tx
+      .select({ item: orderItems, sellerId: products.sellerId })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(and(eq(orderItems.orderId, order.id), eq(products.shippingRequired, true)));
+
+    const ownItems = items.filter((row) => user.role === 'admin' || row.sellerId === user.id);
+
+    if (ownItems.length === 0) {
+      throw new Error('Order not found');
+    }
+
+    if (order.status !== 'processing') {
+      throw new Error('Only paid orders awaiting shipment can be shipped');
+    }
+
+    const requested = input.itemIds;
+    const toShip = requested
+      ? ownItems.filter((row) => requested.includes(row.item.id))
+      : ownItems.filter((row) => !row.item.shipmentId);
+
+    if (requested && toShip.length !== new Set(requested).size) {
+      throw new Error('Some of these items are not yours to ship');
+    }
+
+    if (toShip.length === 0) {
+      throw new Error('Nothing is left to ship on this order');
+    }
+
+    if (toShip.some((row) => row.item.shipmentId)) {
+      throw new Error('Some of these items have already shipped');
+    }
+
+    const sellerIds = new Set(toShip.map((row) => row.sellerId));
+
+    if (sellerIds.size > 1) {
+      throw new Error('Items from different sellers ship separately');
+    }
+
+    const now = new Date();
+    const itemIds = toShip.map((row) => row.item.id);
+
+    const [shipment] = await tx
+      .insert(shipments)
+      .values({
+        orderId: order.id,
+        sellerId: toShip[0].sellerId,
+        carrier: input.carrier,
+        trackingNumber: input.trackingNumber,
+        shippedAt: now,
+      })
+      .returning();
+
+    await tx
+      .update(orderItems)
+      .set({ shipmentId: shipment.id })
+      .where(inArray(orderItems.id, itemIds));
+
+    await fulfilOrderItems(tx, order.id, itemIds);
+
+    const complete = items.every((row) => row.item.shipmentId || itemIds.includes(row.item.id));
+
+    const [updated] = await tx
+      .update(orders)
+      .set(
+        complete
+          ? { status: 'shipped', shippedAt: now, trackingNumber: input.trackingNumber, updatedAt: now }
+          : { updatedAt: now }
+      )
+      .where(eq(orders.id, order.id))
+      .returning();
+
+    return { order: updated, shipment, complete };
+  });
+
+  await notifyShipped(result.order, result.shipment, result.complete);
+
+  return result;
+}
+
+/**
+ * Mark parcels on an order as received and release the sellers' earnings on
+ * what was in them. The order is complete once everything has shipped and
+ * arrived. Returns null when none of the parcels were still on their way.
+ */
+async function deliverShipments(
+  tx: Transaction,
+  order: Order,
+  shipmentIds?: string[]
+): Promise<{ order: Order; shipments: Shipment[] } | null> {
+  const now = new Date();
+
+  const delivered = await tx
+    .update(shipments)
+    .set({ deliveredAt: now })
+    .where(
+      and(
+        eq(shipments.orderId, order.id),
+        isNull(shipments.deliveredAt),
+        shipmentIds ? inArray(shipments.id, shipmentIds) : undefined
+      )
+    )
+    .returning();
+
+  if (delivered.length === 0) {
+    return null;
+  }
+
+  const items = await tx
+    .select({ id: orderItems.id })
+    .from(orderItems)
+    .where(inArray(orderItems.shipmentId, delivered.map((shipment) => shipment.id)));
+
+  await releaseSellerEarningsForItems(tx, items.map((item) => item.id));
+
+  // A partly shipped order stays in processing until the rest goes out
+  if (order.status !== 'shipped') {
+    return { order, shipments: delivered };
+  }
+
+  const [outstanding] = await tx
+    .select({ id: shipments.id })
+    .from(shipments)
+    .where(and(eq(shipments.orderId, order.id), isNull(shipments.deliveredAt)))
+    .limit(1);
+
+  if (outstanding) {
+    return { order, shipments: delivered };
+  }
+
+  const [completed] = await tx
+    .update(orders)
+    .set({ status: 'delivered', deliveredAt: now, updatedAt: now })
+    .where(eq(orders.id, order.id))
+    .returning();
+
+  return { order: completed, shipments: delivered };
+}
+
+/**
+ * The buyer confirms every parcel shipped so far has arrived
+ */
+export async function confirmOrderReceived(orderId: string, userId: string): Promise<Order> {
+  const result = await db.transaction(async (tx) => {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)))
+      .for('update');
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (order.status !== 'processing' && order.status !== 'shipped') {
+      throw new Error('This order has nothing on its way');
+    }
+
+    const delivered = await deliverShipments(tx, order);
+
+    if (!delivered) {
+      throw new Error('Nothing on this order has shipped yet');
+    }
+
+    return delivered;
+  });
+
+  await notifyDelivered(result.order, result.shipments, false);
+
+  return result.order;
+}
+
+/**
+ * Treat parcels the buyer never confirmed as received once they've been on
+ * their way long enough. Returns the ids of the shipments marked delivered.
+ */
+export async function autoConfirmDeliveries(now: Date = new Date()): Promise<string[]> {
+  const cutoff = new Date(now.getTime() - FULFILMENT_CONFIG.autoConfirmDays * 24 * 60 * 60 * 1000);
+
+  const due = await db
+    .select({ id: shipments.id, orderId: shipments.orderId })
+    .from(shipments)
+    .innerJoin(orders, eq(shipments.orderId, orders.id))
+    .where(
+      and(
+        isNull(shipments.deliveredAt),
+        lt(shipments.shippedAt, cutoff),
+        inArray(orders.status, ['processing', 'shipped'])
+      )
+    );
+
+  const byOrder = new Map<string, string[]>();
+  due.forEach((shipment) => {
+    byOrder.set(shipment.orderId, [...(byOrder.get(shipment.orderId) || []), shipment.id]);
+  });
+
+  const confirmed: string[] = [];
+
+  for (const [orderId, shipmentIds] of Array.from(byOrder.entries())) {
+    try {
+      const result = await db.transaction(async (tx) => {
+        const [order] = await tx
+          .select()
+          .from(orders)
+          .where(and(eq(orders.id, orderId), inArray(orders.status, ['processing', 'shipped'])))
+          .for('update');
+
+        return order ? deliverShipments(tx, order, shipmentIds) : null;
+      });
+
+      if (result) {
+        confirmed.push(...result.shipments.map((shipment) => shipment.id));
+        await notifyDelivered(result.order, result.shipments, true);
+      }
+    } catch (error) {
+      console.error(`Failed to confirm delivery for order ${orderId}:`, error);
+    }
+  }
+
+  return confirmed;
+}
+
+async function notifyShipped(order: Order, shipment: Shipment, complete: boolean): Promise<void> {
+  try {
+    await notifyUser(order.userId, {
+      type: 'system',
+      title: complete ? 'Your order has shipped' : 'Part of your order has shipped',
+      content: `Sent with ${shipment.carrier.toUpperCase()}, tracking number ${shipment.trackingNumber}`,
+      data: {
+        orderId: order.id,
+        shipmentId: shipment.id,
+        trackingUrl: getTrackingUrl(shipment.carrier, shipment.trackingNumber),
+      },
+      actionUrl: '/shop/orders',
+    });
+  } catch (error) {
+    console.error('Failed to notify buyer of shipment:', error);
+  }
+}
+
+/**
+ * Tell sellers their parcels arrived, and the buyer when the order was
+ * completed on their behalf
+ */
+async function notifyDelivered(order: Order, delivered: Shipment[], automatic: boolean): Promise<void> {
+  const sellerIds = new Set(delivered.map((shipment) => shipment.sellerId));
+
+  for (const sellerId of Array.from(sellerIds)) {
+    try {
+      await notifyUser(sellerId, {
+        type: 'payment',
+        title: 'Parcel delivered',
+        content: 'A buyer received your parcel and your earnings on it have been released',
+        data: { orderId: order.id },
+        actionUrl: '/dashboard',
+      });
+    } catch (error) {
+      console.error('Failed to notify seller of delivery:', error);
+    }
+  }
+
+  if (!automatic) {
+    return;
+  }
+
+  try {
+    await notifyUser(order.userId, {
+      type: 'system',
+      title: order.status === 'delivered' ? 'Order delivered' : 'Parcel delivered',
+      content: `We've marked your ${order.status === 'delivered' ? 'order' : 'parcel'} as received ${FULFILMENT_CONFIG.autoConfirmDays} days after it shipped`,
+      data: { orderId: order.id },
+      actionUrl: '/shop/orders',
+    });
+  } catch (error) {
+    console.error('Failed to notify buyer of delivery:', error);
+  }
+}
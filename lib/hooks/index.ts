@@ -74,7 +74,7 @@ export function useReadingSession(sessionId?: string) {
     fetchSession();
   }, [fetchSession]);
 
-  const startSession = useCallback(async (readerId: string, type: 'chat' | 'voice' | 'video') => {
+  const startSession = useCallback(async (readerId: string, type: 'chat' | 'voice' | 'video', couponCode?: string) => {
     setLoading(true);
     setError(null);
     
@@ -82,7 +82,7 @@ export function useReadingSession(sessionId?: string) {
       const response = await fetch('/api/readings/start', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ readerId, type }),
+        body: JSON.stringify({ readerId, type, couponCode }),
       });
       
       if (response.ok) {
@@ -91,7 +91,7 @@ export function useReadingSession(sessionId?: string) {
         return newSession;
       } else {
         const error = await response.json();
-        throw new Error(error.message || 'Failed to start session');
+        throw new Error(error.error || error.message || 'Failed to start session');
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -128,12 +128,27 @@ export function useReadingSession(sessionId?: string) {
     }
   }, [session]);
 
+  const meterSession = useCallback(async () => {
+    if (!session) return;
+
+    const response = await fetch(`/api/readings/${session.id}/meter`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to meter session');
+    }
+
+    return response.json();
+  }, [session]);
+
   return {
     session,
     loading,
     error,
     startSession,
     endSession,
+    meterSession,
     refetch: fetchSession,
   };
 }
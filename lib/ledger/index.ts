@@ -0,0 +1,583 @@
+import { randomUUID } from 'crypto';
+import { db } from '@/lib/db';
+import {
+  ledgerEntries,
+  ledgerReconciliations,
+  ledgerAccountEnum,
+  clientBalances,
+  readerProfiles,
+} from '@/lib/db/schema';
+import { eq, and, isNull, inArray, sql } from 'drizzle-orm';
+
+export type LedgerAccount = (typeof ledgerAccountEnum.enumValues)[number];
+
+// Accounts whose natural balance is a credit (what the platform owes or has earned).
+// Stripe clearing is the only debit-normal account: money held at Stripe.
+const CREDIT_NORMAL_ACCOUNTS: LedgerAccount[] = [
+  'client_wallet',
+  'client_hold',
+  'reader_payable',
+  'seller_hold',
+  'platform_revenue',
+];
+
+export interface LedgerPosting {
+  account: LedgerAccount;
+  userId?: string | null;
+  amount: number; // Positive = debit, negative = credit
+}
+
+export interface JournalInput {
+  referenceType: string;
+  referenceId?: string | null;
+  description?: string;
+  postings: LedgerPosting[];
+}
+
+export interface LedgerDrift {
+  account: LedgerAccount;
+  userId: string;
+  expected: number; // Derived from the ledger
+  actual: number; // Cached on clientBalances / readerProfiles
+  difference: number;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Append a balanced journal to the ledger. Pass the surrounding transaction
+ * so the entries commit together with the cached balance they describe.
+ * Returns the journal id.
+ */
+export async function postJournal(executor: Executor, journal: JournalInput): Promise<string> {
+  const postings = journal.postings.filter((posting) => toCents(posting.amount) !== 0);
+  const total = postings.reduce((sum, posting) => sum + toCents(posting.amount), 0);
+
+  if (total !== 0) {
+    throw new Error(`Unbalanced journal for ${journal.referenceType}: off by ${fromCents(total).toFixed(2)}`);
+  }
+
+  const journalId = randomUUID();
+
+  if (postings.length === 0) {
+    return journalId;
+  }
+
+  await executor.insert(ledgerEntries).values(
+    postings.map((posting) => ({
+      journalId,
+      account: posting.account,
+      userId: posting.userId ?? null,
+      amount: fromCents(toCents(posting.amount)).toFixed(2),
+      referenceType: journal.referenceType,
+      referenceId: journal.referenceId ?? null,
+      description: journal.description,
+    }))
+  );
+
+  return journalId;
+}
+
+/**
+ * Funds received from Stripe and credited to the client wallet
+ */
+export async function recordTopup(
+  executor: Executor,
+  userId: string,
+  amount: number,
+  paymentIntentId: string
+): Promise<string> {
+  return postJournal(executor, {
+    referenceType: 'topup',
+    referenceId: paymentIntentId,
+    description: 'Add funds to account balance',
+    postings: [
+      { account: 'stripe_clearing', amount },
+      { account: 'client_wallet', userId, amount: -amount },
+    ],
+  });
+}
+
+/**
+ * Move funds between the client wallet and a session hold.
+ * A positive amount places funds on hold, a negative amount releases them.
+ */
+export async function recordSessionHold(
+  executor: Executor,
+  clientId: string,
+  sessionId: string,
+  amount: number
+): Promise<string> {
+  return postJournal(executor, {
+    referenceType: amount >= 0 ? 'session_hold' : 'session_release',
+    referenceId: sessionId,
+    postings: [
+      { account: 'client_wallet', userId: clientId, amount },
+      { account: 'client_hold', userId: clientId, amount: -amount },
+    ],
+  });
+}
+
+/**
+ * Capture a session hold and split it between the reader and the platform
+ */
+export async function recordSessionCapture(
+  executor: Executor,
+  params: {
+    clientId: string;
+    readerId: string;
+    sessionId: string;
+    amount: number;
+    platformFee: number;
+  }
+): Promise<string> {
+  const { clientId, readerId, sessionId, amount, platformFee } = params;
+
+  return postJournal(executor, {
+    referenceType: 'session_capture',
+    referenceId: sessionId,
+    description: 'Reading session payment',
+    postings: [
+      { account: 'client_hold', userId: clientId, amount },
+      { account: 'reader_payable', userId: readerId, amount: -fromCents(toCents(amount) - toCents(platformFee)) },
+      { account: 'platform_revenue', amount: -platformFee },
+    ],
+  });
+}
+
+/**
+ * Spend from the client wallet on a gift. When the receiver isn't a reader
+ * the whole amount is platform revenue.
+ */
+export async function recordGift(
+  executor: Executor,
+  params: {
+    senderId: string;
+    readerId?: string | null;
+    amount: number;
+    platformFee: number;
+    referenceId?: string | null;
+    description?: string;
+  }
+): Promise<string> {
+  const { senderId, readerId, amount, platformFee, referenceId, description } = params;
+  const readerAmount = readerId ? fromCents(toCents(amount) - toCents(platformFee)) : 0;
+
+  return postJournal(executor, {
+    referenceType: 'gift',
+    referenceId,
+    description,
+    postings: [
+      { account: 'client_wallet', userId: senderId, amount },
+      { account: 'reader_payable', userId: readerId, amount: -readerAmount },
+      { account: 'platform_revenue', amount: -fromCents(toCents(amount) - toCents(readerAmount)) },
+    ],
+  });
+}
+
+/**
+ * Late cancellation fee taken from the client wallet and split like a reading
+ */
+export async function recordCancellationFee(
+  executor: Executor,
+  params: {
+    clientId: string;
+    readerId: string;
+    bookingId: string;
+    amount: number;
+    platformFee: number;
+  }
+): Promise<string> {
+  const { clientId, readerId, bookingId, amount, platformFee } = params;
+
+  return postJournal(executor, {
+    referenceType: 'cancellation_fee',
+    referenceId: bookingId,
+    description: 'Late cancellation fee',
+    postings: [
+      { account: 'client_wallet', userId: clientId, amount },
+      { account: 'reader_payable', userId: readerId, amount: -fromCents(toCents(amount) - toCents(platformFee)) },
+      { account: 'platform_revenue', amount: -platformFee },
+    ],
+  });
+}
+
+/**
+ * Refund a disputed session to the client wallet. The reader's share is
+ * clawed back from their payable and the rest comes out of platform revenue.
+ */
+export async function recordDisputeRefund(
+  executor: Executor,
+  params: {
+    clientId: string;
+    readerId: string;
+    disputeId: string;
+    amount: number;
+    clawbackAmount: number;
+  }
+): Promise<string> {
+  const { clientId, readerId, disputeId, amount, clawbackAmount } = params;
+
+  return postJournal(executor, {
+    referenceType: 'dispute_refund',
+    referenceId: disputeId,
+    description: 'Reading session dispute refund',
+    postings: [
+      { account: 'client_wallet', userId: clientId, amount: -amount },
+      { account: 'reader_payable', userId: readerId, amount: clawbackAmount },
+      { account: 'platform_revenue', amount: fromCents(toCents(amount) - toCents(clawbackAmount)) },
+    ],
+  });
+}
+
+/**
+ * Stream ticket bought from the client wallet, split like a gift
+ */
+export async function recordStreamTicket(
+  executor: Executor,
+  params: {
+    buyerId: string;
+    readerId: string;
+    ticketId: string;
+    amount: number;
+    platformFee: number;
+  }
+): Promise<string> {
+  const { buyerId, readerId, ticketId, amount, platformFee } = params;
+
+  return postJournal(executor, {
+    referenceType: 'stream_ticket',
+    referenceId: ticketId,
+    description: 'Live stream ticket',
+    postings: [
+      { account: 'client_wallet', userId: buyerId, amount },
+      { account: 'reader_payable', userId: readerId, amount: -fromCents(toCents(amount) - toCents(platformFee)) },
+      { account: 'platform_revenue', amount: -platformFee },
+    ],
+  });
+}
+
+/**
+ * Reverse a stream ticket when the stream is cancelled
+ */
+export async function recordStreamTicketRefund(
+  executor: Executor,
+  params: {
+    buyerId: string;
+    readerId: string;
+    ticketId: string;
+    amount: number;
+    platformFee: number;
+  }
+): Promise<string> {
+  const { buyerId, readerId, ticketId, amount, platformFee } = params;
+
+  return postJournal(executor, {
+    referenceType: 'stream_ticket_refund',
+    referenceId: ticketId,
+    description: 'Live stream ticket refund',
+    postings: [
+      { account: 'client_wallet', userId: buyerId, amount: -amount },
+      { account: 'reader_payable', userId: readerId, amount: fromCents(toCents(amount) - toCents(platformFee)) },
+      { account: 'platform_revenue', amount: platformFee },
+    ],
+  });
+}
+
+/**
+ * Shop order paid from the client wallet or by card through Stripe. Each
+ * seller's share is held until it's released; the rest is platform revenue.
+ */
+export async function recordOrderPayment(
+  executor: Executor,
+  params: {
+    buyerId: string;
+    orderId: string;
+    amount: number;
+    paidFrom: 'balance' | 'card';
+    sellerShares: Array<{ sellerId: string; amount: number }>;
+  }
+): Promise<string> {
+  const { buyerId, orderId, amount, paidFrom, sellerShares } = params;
+  const heldCents = sellerShares.reduce((sum, share) => sum + toCents(share.amount), 0);
+
+  return postJournal(executor, {
+    referenceType: 'order_payment',
+    referenceId: orderId,
+    description: 'Shop order payment',
+    postings: [
+      paidFrom === 'balance'
+        ? { account: 'client_wallet', userId: buyerId, amount }
+        : { account: 'stripe_clearing', amount },
+      ...sellerShares.map((share) => ({
+        account: 'seller_hold' as const,
+        userId: share.sellerId,
+        amount: -share.amount,
+      })),
+      { account: 'platform_revenue', amount: -fromCents(toCents(amount) - heldCents) },
+    ],
+  });
+}
+
+/**
+ * Shop order refunded to the client wallet, or back to the card (which also
+ * covers chargebacks). Seller shares must be reversed first.
+ */
+export async function recordOrderRefund(
+  executor: Executor,
+  params: {
+    buyerId: string;
+    orderId: string;
+    amount: number;
+    refundTo: 'balance' | 'card';
+  }
+): Promise<string> {
+  const { buyerId, orderId, amount, refundTo } = params;
+
+  return postJournal(executor, {
+    referenceType: 'order_refund',
+    referenceId: orderId,
+    description: 'Shop order refund',
+    postings: [
+      { account: 'platform_revenue', amount },
+      refundTo === 'balance'
+        ? { account: 'client_wallet', userId: buyerId, amount: -amount }
+        : { account: 'stripe_clearing', amount: -amount },
+    ],
+  });
+}
+
+/**
+ * Held seller earnings become payable once the sale is final
+ */
+export async function recordSellerRelease(
+  executor: Executor,
+  sellerId: string,
+  earningId: string,
+  amount: number
+): Promise<string> {
+  return postJournal(executor, {
+    referenceType: 'seller_release',
+    referenceId: earningId,
+    description: 'Product sale earnings released',
+    postings: [
+      { account: 'seller_hold', userId: sellerId, amount },
+      { account: 'reader_payable', userId: sellerId, amount: -amount },
+    ],
+  });
+}
+
+/**
+ * Take a seller's share of a refunded sale back to the platform, from the
+ * hold or from the reader's payable if it was already released
+ */
+export async function recordSellerReversal(
+  executor: Executor,
+  params: {
+    sellerId: string;
+    earningId: string;
+    amount: number;
+    from: 'seller_hold' | 'reader_payable';
+  }
+): Promise<string> {
+  const { sellerId, earningId, amount, from } = params;
+
+  return postJournal(executor, {
+    referenceType: 'seller_reversal',
+    referenceId: earningId,
+    description: 'Product sale earnings reversed',
+    postings: [
+      { account: from, userId: sellerId, amount },
+      { account: 'platform_revenue', amount: -amount },
+    ],
+  });
+}
+
+/**
+ * Reader payable settled by a Stripe transfer
+ */
+export async function recordPayout(
+  executor: Executor,
+  readerId: string,
+  amount: number,
+  transferId: string
+): Promise<string> {
+  return postJournal(executor, {
+    referenceType: 'payout',
+    referenceId: transferId,
+    description: 'Reader payout',
+    postings: [
+      { account: 'reader_payable', userId: readerId, amount },
+      { account: 'stripe_clearing', amount: -amount },
+    ],
+  });
+}
+
+/**
+ * Balance of an account on its natural side, derived from the ledger
+ */
+export async function getLedgerBalance(
+  account: LedgerAccount,
+  userId?: string | null
+): Promise<number> {
+  const [row] = await db
+    .select({ total: sql<string>`coalesce(sum(${ledgerEntries.amount}), 0)` })
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.account, account),
+        userId ? eq(ledgerEntries.userId, userId) : isNull(ledgerEntries.userId)
+      )
+    );
+
+  const total = parseFloat(row?.total || '0');
+  return CREDIT_NORMAL_ACCOUNTS.includes(account) ? -total : total;
+}
+
+/**
+ * Post opening balances for accounts that predate the ledger, so the first
+ * reconciliation only flags real drift. Accounts that already have entries
+ * are left alone.
+ */
+export async function backfillOpeningBalances(): Promise<number> {
+  const ledgerUsers = await db
+    .selectDistinct({ account: ledgerEntries.account, userId: ledgerEntries.userId })
+    .from(ledgerEntries)
+    .where(inArray(ledgerEntries.account, ['client_wallet', 'client_hold', 'reader_payable']));
+
+  const seen = new Set(ledgerUsers.map((row) => `${row.account}:${row.userId}`));
+  const balances = await db.select().from(clientBalances);
+  const readers = await db.select().from(readerProfiles);
+  let posted = 0;
+
+  for (const balance of balances) {
+    const accounts: [LedgerAccount, string | null][] = [
+      ['client_wallet', balance.balance],
+      ['client_hold', balance.pendingCharges],
+    ];
+
+    for (const [account, value] of accounts) {
+      const amount = parseFloat(value || '0');
+      if (amount === 0 || seen.has(`${account}:${balance.userId}`)) continue;
+
+      await postJournal(db, {
+        referenceType: 'opening_balance',
+        referenceId: balance.userId,
+        description: 'Opening balance',
+        postings: [
+          { account: 'stripe_clearing', amount },
+          { account, userId: balance.userId, amount: -amount },
+        ],
+      });
+      posted++;
+    }
+  }
+
+  for (const reader of readers) {
+    const amount = parseFloat(reader.pendingPayout || '0');
+    if (amount === 0 || seen.has(`reader_payable:${reader.userId}`)) continue;
+
+    await postJournal(db, {
+      referenceType: 'opening_balance',
+      referenceId: reader.userId,
+      description: 'Opening balance',
+      postings: [
+        { account: 'stripe_clearing', amount },
+        { account: 'reader_payable', userId: reader.userId, amount: -amount },
+      ],
+    });
+    posted++;
+  }
+
+  return posted;
+}
+
+/**
+ * Compare the cached balances on clientBalances and readerProfiles with the
+ * ledger, check that every journal balances, and store the result.
+ */
+export async function reconcileLedger() {
+  const sums = await db
+    .select({
+      account: ledgerEntries.account,
+      userId: ledgerEntries.userId,
+      total: sql<string>`sum(${ledgerEntries.amount})`,
+    })
+    .from(ledgerEntries)
+    .where(inArray(ledgerEntries.account, ['client_wallet', 'client_hold', 'reader_payable']))
+    .groupBy(ledgerEntries.account, ledgerEntries.userId);
+
+  // Credit-normal accounts: the owed amount is the negated sum
+  const expectedCents = new Map<string, number>();
+  for (const row of sums) {
+    expectedCents.set(`${row.account}:${row.userId}`, -toCents(parseFloat(row.total || '0')));
+  }
+
+  const actualCents = new Map<string, number>();
+  const balances = await db.select().from(clientBalances);
+  for (const balance of balances) {
+    actualCents.set(`client_wallet:${balance.userId}`, toCents(parseFloat(balance.balance || '0')));
+    actualCents.set(`client_hold:${balance.userId}`, toCents(parseFloat(balance.pendingCharges || '0')));
+  }
+
+  const readers = await db.select().from(readerProfiles);
+  for (const reader of readers) {
+    actualCents.set(`reader_payable:${reader.userId}`, toCents(parseFloat(reader.pendingPayout || '0')));
+  }
+
+  const keys = Array.from(new Set(Array.from(expectedCents.keys()).concat(Array.from(actualCents.keys()))));
+  const drifts: LedgerDrift[] = [];
+
+  for (const key of keys) {
+    const expected = expectedCents.get(key) ?? 0;
+    const actual = actualCents.get(key) ?? 0;
+
+    if (expected !== actual) {
+      const [account, userId] = key.split(':') as [LedgerAccount, string];
+      drifts.push({
+        account,
+        userId,
+        expected: fromCents(expected),
+        actual: fromCents(actual),
+        difference: fromCents(actual - expected),
+      });
+    }
+  }
+
+  const unbalanced = await db
+    .select({ journalId: ledgerEntries.journalId })
+    .from(ledgerEntries)
+    .groupBy(ledgerEntries.journalId)
+    .having(sql`sum(${ledgerEntries.amount}) <> 0`);
+
+  const unbalancedJournals = unbalanced.map((row) => row.journalId);
+  const status = drifts.length > 0 || unbalancedJournals.length > 0 ? 'drift' : 'clean';
+
+  const [report] = await db
+    .insert(ledgerReconciliations)
+    .values({
+      status,
+      accountsChecked: keys.length,
+      driftCount: drifts.length,
+      drifts,
+      unbalancedJournals,
+    })
+    .returning();
+
+  if (status === 'drift') {
+    console.error(
+      `Ledger reconciliation found ${drifts.length} drifted accounts and ${unbalancedJournals.length} unbalanced journals`
+    );
+  }
+
+  return report;
+}
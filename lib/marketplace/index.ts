@@ -0,0 +1,322 @@
+import { db } from '@/lib/db';
+import {
+  sellerEarnings,
+  orderItems,
+  orders,
+  products,
+  readerProfiles,
+  settings,
+  transactions,
+} from '@/lib/db/schema';
+import { eq, and, lte, inArray, desc, sql } from 'drizzle-orm';
+import { recordSellerRelease, recordSellerReversal } from '@/lib/ledger';
+import { notifyUser } from '@/lib/notifications';
+
+type Order = typeof orders.$inferSelect;
+type SellerEarning = typeof sellerEarnings.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export const MARKETPLACE_CONFIG = {
+  defaultFeePercentage: 20, // Used until an admin sets the fee
+  feeSettingKey: 'marketplace_fee_percentage',
+  holdDays: 14, // Earnings on items that aren't confirmed delivered are released after this long
+} as const;
+
+export interface SellerShare {
+  sellerId: string;
+  amount: number;
+}
+
+export interface SellerSalesSummary {
+  held: number;
+  released: number;
+  reversed: number;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Current marketplace fee on product sales, as a percentage
+ */
+export async function getMarketplaceFeePercentage(executor: Executor = db): Promise<number> {
+  const [setting] = await executor
+    .select()
+    .from(settings)
+    .where(eq(settings.key, MARKETPLACE_CONFIG.feeSettingKey));
+
+  const value = typeof setting?.value === 'number' ? setting.value : NaN;
+
+  return Number.isFinite(value) ? value : MARKETPLACE_CONFIG.defaultFeePercentage;
+}
+
+/**
+ * Change the fee for future sales. Sales already made keep the fee they were
+ * made at.
+ */
+export async function setMarketplaceFeePercentage(percentage: number, adminId: string): Promise<number> {
+  await db
+    .insert(settings)
+    .values({
+      key: MARKETPLACE_CONFIG.feeSettingKey,
+      value: percentage,
+      description: 'Marketplace fee on product sales, in percent',
+      updatedBy: adminId,
+    })
+    .onConflictDoUpdate({
+      target: settings.key,
+      set: { value: percentage, updatedBy: adminId, updatedAt: new Date() },
+    });
+
+  return percentage;
+}
+
+/**
+ * Split each item of a newly paid order between its seller and the
+ * platform. Sellers without a reader profile can't be paid out, so their
+ * sales stay with the platform. Returns each seller's total held share.
+ */
+export async function createSellerEarnings(tx: Transaction, order: Order): Promise<SellerShare[]> {
+  const feePercentage = await getMarketplaceFeePercentage(tx);
+  const releaseAt = new Date((order.paidAt || new Date()).getTime() + MARKETPLACE_CONFIG.holdDays * 24 * 60 * 60 * 1000);
+
+  const items = await tx
+    .select({ item: orderItems, sellerId: products.sellerId })
+    .from(orderItems)
+    .innerJoin(products, eq(orderItems.productId, products.id))
+    .innerJoin(readerProfiles, eq(readerProfiles.userId, products.sellerId))
+    .where(eq(orderItems.orderId, order.id));
+
+  const shares = new Map<string, number>();
+
+  for (const { item, sellerId } of items) {
+    const grossCents = toCents(parseFloat(item.totalPrice)) + toCents(parseFloat(item.shipping || '0'));
+    const feeCents = Math.round(grossCents * feePercentage / 100);
+    const sellerCents = grossCents - feeCents;
+
+    await tx.insert(sellerEarnings).values({
+      orderItemId: item.id,
+      orderId: order.id,
+      sellerId,
+      productId: item.productId,
+      grossAmount: fromCents(grossCents).toFixed(2),
+      feePercentage: feePercentage.toFixed(2),
+      marketplaceFee: fromCents(feeCents).toFixed(2),
+      sellerAmount: fromCents(sellerCents).toFixed(2),
+      releaseAt,
+    });
+
+    shares.set(sellerId, (shares.get(sellerId) || 0) + sellerCents);
+  }
+
+  return Array.from(shares.entries()).map(([sellerId, cents]) => ({ sellerId, amount: fromCents(cents) }));
+}
+
+/**
+ * Move held earnings to the seller's pending payout. Each earning is
+ * claimed before it's paid, so a release that races another only pays once.
+ */
+async function releaseEarnings(tx: Transaction, earningIds: string[]): Promise<SellerEarning[]> {
+  if (earningIds.length === 0) return [];
+
+  const released = await tx
+    .update(sellerEarnings)
+    .set({ status: 'released', releasedAt: new Date(), updatedAt: new Date() })
+    .where(and(inArray(sellerEarnings.id, earningIds), eq(sellerEarnings.status, 'held')))
+    .returning();
+
+  for (const earning of released) {
+    const amount = parseFloat(earning.sellerAmount);
+
+    await tx
+      .update(readerProfiles)
+      .set({
+        pendingPayout: sql`${readerProfiles.pendingPayout} + ${amount}`,
+        totalEarnings: sql`${readerProfiles.totalEarnings} + ${amount}`,
+      })
+      .where(eq(readerProfiles.userId, earning.sellerId));
+
+    await recordSellerRelease(tx, earning.sellerId, earning.id, amount);
+
+    await tx.insert(transactions).values({
+      userId: earning.sellerId,
+      orderId: earning.orderId,
+      type: 'earning',
+      amount: earning.sellerAmount,
+      status: 'completed',
+      description: 'Product sale',
+      platformFee: earning.marketplaceFee,
+      metadata: { sellerEarningId: earning.id, orderItemId: earning.orderItemId },
+    });
+  }
+
+  return released;
+}
+
+/**
+ * Release the earnings on items the buyer has received
+ */
+export async function releaseSellerEarningsForItems(tx: Transaction, orderItemIds: string[]): Promise<SellerEarning[]> {
+  if (orderItemIds.length === 0) return [];
+
+  const held = await tx
+    .select({ id: sellerEarnings.id })
+    .from(sellerEarnings)
+    .where(and(inArray(sellerEarnings.orderItemId, orderItemIds), eq(sellerEarnings.status, 'held')));
+
+  return releaseEarnings(tx, held.map((row) => row.id));
+}
+
+/**
+ * Release every held earning whose hold period has ended. Returns how many
+ * were released.
+ */
+export async function releaseDueSellerEarnings(now: Date = new Date()): Promise<number> {
+  const due = await db
+    .select({ id: sellerEarnings.id })
+    .from(sellerEarnings)
+    .where(and(eq(sellerEarnings.status, 'held'), lte(sellerEarnings.releaseAt, now)));
+
+  let releasedCount = 0;
+
+  for (const { id } of due) {
+    try {
+      const released = await db.transaction((tx) => releaseEarnings(tx, [id]));
+      releasedCount += released.length;
+    } catch (error) {
+      console.error(`Failed to release seller earning ${id}:`, error);
+    }
+  }
+
+  return releasedCount;
+}
+
+/**
+ * Take back the seller's share of every item on a refunded or charged-back
+ * order. Released earnings are clawed back from the pending payout, which
+ * can go negative until the seller earns it back.
+ */
+export async function reverseSellerEarnings(
+  tx: Transaction,
+  orderId: string,
+  reason: 'refund' | 'chargeback'
+): Promise<SellerEarning[]> {
+  const reversedValues = { status: 'reversed' as const, reversedAt: new Date(), reversalReason: reason, updatedAt: new Date() };
+
+  const fromHold = await tx
+    .update(sellerEarnings)
+    .set(reversedValues)
+    .where(and(eq(sellerEarnings.orderId, orderId), eq(sellerEarnings.status, 'held')))
+    .returning();
+
+  const fromPayable = await tx
+    .update(sellerEarnings)
+    .set(reversedValues)
+    .where(and(eq(sellerEarnings.orderId, orderId), eq(sellerEarnings.status, 'released')))
+    .returning();
+
+  for (const earning of fromHold) {
+    await recordSellerReversal(tx, {
+      sellerId: earning.sellerId,
+      earningId: earning.id,
+      amount: parseFloat(earning.sellerAmount),
+      from: 'seller_hold',
+    });
+  }
+
+  for (const earning of fromPayable) {
+    const amount = parseFloat(earning.sellerAmount);
+
+    await tx
+      .update(readerProfiles)
+      .set({
+        pendingPayout: sql`${readerProfiles.pendingPayout} - ${amount}`,
+        totalEarnings: sql`${readerProfiles.totalEarnings} - ${amount}`,
+      })
+      .where(eq(readerProfiles.userId, earning.sellerId));
+
+    await recordSellerReversal(tx, {
+      sellerId: earning.sellerId,
+      earningId: earning.id,
+      amount,
+      from: 'reader_payable',
+    });
+
+    await tx.insert(transactions).values({
+      userId: earning.sellerId,
+      orderId: earning.orderId,
+      type: 'clawback',
+      amount: earning.sellerAmount,
+      status: 'completed',
+      description: reason === 'chargeback' ? 'Product sale charged back' : 'Product sale refunded',
+      metadata: { sellerEarningId: earning.id, orderItemId: earning.orderItemId },
+    });
+  }
+
+  return [...fromHold, ...fromPayable];
+}
+
+/**
+ * Tell sellers a sale was reversed
+ */
+export async function notifySellerReversals(earnings: SellerEarning[], reason: 'refund' | 'chargeback'): Promise<void> {
+  const totals = new Map<string, number>();
+  earnings.forEach((earning) => {
+    totals.set(earning.sellerId, (totals.get(earning.sellerId) || 0) + toCents(parseFloat(earning.sellerAmount)));
+  });
+
+  for (const [sellerId, cents] of Array.from(totals.entries())) {
+    try {
+      await notifyUser(sellerId, {
+        type: 'payment',
+        title: reason === 'chargeback' ? 'Sale charged back' : 'Sale refunded',
+        content: `$${fromCents(cents).toFixed(2)} in product sale earnings was reversed after a ${reason}`,
+        data: { orderId: earnings[0].orderId },
+        actionUrl: '/dashboard',
+      });
+    } catch (error) {
+      console.error('Failed to notify seller of reversed sale:', error);
+    }
+  }
+}
+
+/**
+ * A seller's product sale line items, newest first, with totals by status
+ */
+export async function listSellerSales(sellerId: string, limit: number = 20) {
+  const sales = await db.query.sellerEarnings.findMany({
+    where: eq(sellerEarnings.sellerId, sellerId),
+    with: {
+      product: {
+        columns: { id: true, name: true, type: true },
+      },
+      orderItem: {
+        columns: { quantity: true, unitPrice: true },
+      },
+    },
+    orderBy: [desc(sellerEarnings.createdAt)],
+    limit,
+  });
+
+  const totals = await db
+    .select({
+      status: sellerEarnings.status,
+      total: sql<string>`coalesce(sum(${sellerEarnings.sellerAmount}), 0)`,
+    })
+    .from(sellerEarnings)
+    .where(eq(sellerEarnings.sellerId, sellerId))
+    .groupBy(sellerEarnings.status);
+
+  const summary: SellerSalesSummary = { held: 0, released: 0, reversed: 0 };
+  totals.forEach((row) => {
+    summary[row.status] = parseFloat(row.total);
+  });
+
+  return { sales, summary };
+}
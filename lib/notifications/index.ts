@@ -0,0 +1,40 @@
+import { db } from '@/lib/db';
+import { notifications } from '@/lib/db/schema';
+import { ablyService } from '@/lib/ably';
+
+export interface NotificationInput {
+  type: 'reading' | 'payment' | 'message' | 'stream' | 'system';
+  title: string;
+  content: string;
+  data?: Record<string, any>;
+  actionUrl?: string;
+}
+
+/**
+ * Store a notification for the user and push it to their realtime channel.
+ * Realtime delivery is best effort; the stored row is what the inbox shows.
+ */
+export async function notifyUser(userId: string, notification: NotificationInput) {
+  const [stored] = await db
+    .insert(notifications)
+    .values({
+      userId,
+      type: notification.type,
+      title: notification.title,
+      content: notification.content,
+      data: notification.data,
+      actionUrl: notification.actionUrl,
+    })
+    .returning();
+
+  try {
+    await ablyService.sendNotification(userId, {
+      ...notification,
+      data: { ...notification.data, notificationId: stored.id },
+    });
+  } catch (error) {
+    console.error('Failed to publish notification:', error);
+  }
+
+  return stored;
+}
@@ -0,0 +1,282 @@
+import { db } from '@/lib/db';
+import { orders, orderItems, products, clientBalances, transactions } from '@/lib/db/schema';
+import { eq, and, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
+import { recordOrderPayment, recordOrderRefund } from '@/lib/ledger';
+import { notifyUser } from '@/lib/notifications';
+import { attachDownloadLinks } from '@/lib/downloads';
+import { createSellerEarnings, reverseSellerEarnings, notifySellerReversals } from '@/lib/marketplace';
+
+type Order = typeof orders.$inferSelect;
+type OrderItem = typeof orderItems.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export type OrderPaymentMethod = 'balance' | 'card';
+
+/**
+ * Count items towards their product's sales. Only items that weren't
+ * fulfilled yet are touched, so calling this twice for the same items is safe.
+ */
+export async function fulfilOrderItems(
+  executor: Executor,
+  orderId: string,
+  itemIds: string[]
+): Promise<OrderItem[]> {
+  if (itemIds.length === 0) return [];
+
+  const fulfilled = await executor
+    .update(orderItems)
+    .set({ fulfilledAt: new Date() })
+    .where(
+      and(
+        eq(orderItems.orderId, orderId),
+        inArray(orderItems.id, itemIds),
+        isNull(orderItems.fulfilledAt)
+      )
+    )
+    .returning();
+
+  for (const item of fulfilled) {
+    await executor
+      .update(products)
+      .set({
+        totalSales: sql`${products.totalSales} + ${item.quantity}`,
+        totalRevenue: sql`${products.totalRevenue} + ${item.totalPrice}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(products.id, item.productId));
+  }
+
+  return fulfilled;
+}
+
+/**
+ * Move a pending order to processing once its payment has cleared. Items that
+ * don't ship are fulfilled straight away (digital ones get a download link),
+ * and an order with nothing to ship is complete. Returns null when the order was no longer awaiting payment.
+ */
+export async function markOrderPaid(
+  tx: Transaction,
+  orderId: string,
+  paymentMethod: OrderPaymentMethod
+): Promise<Order | null> {
+  const [paid] = await tx
+    .update(orders)
+    .set({
+      status: 'processing',
+      paymentMethod,
+      paidAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(orders.id, orderId), eq(orders.status, 'pending')))
+    .returning();
+
+  if (!paid) {
+    return null;
+  }
+
+  const sellerShares = await createSellerEarnings(tx, paid);
+
+  await recordOrderPayment(tx, {
+    buyerId: paid.userId,
+    orderId: paid.id,
+    amount: parseFloat(paid.total),
+    paidFrom: paymentMethod,
+    sellerShares,
+  });
+
+  const items = await tx
+    .select({ id: orderItems.id, shippingRequired: products.shippingRequired })
+    .from(orderItems)
+    .innerJoin(products, eq(orderItems.productId, products.id))
+    .where(eq(orderItems.orderId, paid.id));
+
+  const instantItems = items.filter((item) => !item.shippingRequired).map((item) => item.id);
+  await fulfilOrderItems(tx, paid.id, instantItems);
+  await attachDownloadLinks(tx, instantItems);
+
+  if (instantItems.length < items.length) {
+    return paid;
+  }
+
+  const [delivered] = await tx
+    .update(orders)
+    .set({ status: 'delivered', deliveredAt: new Date(), updatedAt: new Date() })
+    .where(eq(orders.id, paid.id))
+    .returning();
+
+  return delivered;
+}
+
+/**
+ * Cancel an order that was never paid and put its reserved stock back.
+ * Returns null when the order is no longer pending.
+ */
+export async function releaseOrder(orderId: string): Promise<Order | null> {
+  return db.transaction(async (tx) => {
+    const [cancelled] = await tx
+      .update(orders)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(orders.id, orderId), eq(orders.status, 'pending')))
+      .returning();
+
+    if (!cancelled) {
+      return null;
+    }
+
+    const items = await tx
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, cancelled.id));
+
+    // Products without tracked inventory stay null
+    for (const item of items) {
+      await tx
+        .update(products)
+        .set({ inventory: sql`${products.inventory} + ${item.quantity}` })
+        .where(eq(products.id, item.productId));
+    }
+
+    return cancelled;
+  });
+}
+
+/**
+ * Refund a paid order in full. Wallet payments go back to the wallet; card
+ * payments must already have been refunded (or charged back) at Stripe.
+ * Sellers lose their share and the items stop counting as sales. Returns
+ * null when the order wasn't in a refundable state.
+ */
+export async function markOrderRefunded(
+  orderId: string,
+  params: { refundTo: OrderPaymentMethod; reason: 'refund' | 'chargeback'; stripeRefundId?: string }
+): Promise<Order | null> {
+  const result = await db.transaction(async (tx) => {
+    const [refunded] = await tx
+      .update(orders)
+      .set({ status: 'refunded', updatedAt: new Date() })
+      .where(and(eq(orders.id, orderId), inArray(orders.status, ['processing', 'shipped', 'delivered'])))
+      .returning();
+
+    if (!refunded) {
+      return null;
+    }
+
+    const reversed = await reverseSellerEarnings(tx, refunded.id, params.reason);
+    const amount = parseFloat(refunded.total);
+
+    if (params.refundTo === 'balance') {
+      await tx
+        .update(clientBalances)
+        .set({
+          balance: sql`${clientBalances.balance} + ${amount}`,
+          totalSpent: sql`${clientBalances.totalSpent} - ${amount}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(clientBalances.userId, refunded.userId));
+    }
+
+    await recordOrderRefund(tx, {
+      buyerId: refunded.userId,
+      orderId: refunded.id,
+      amount,
+      refundTo: params.refundTo,
+    });
+
+    await tx.insert(transactions).values({
+      userId: refunded.userId,
+      orderId: refunded.id,
+      type: 'refund',
+      amount: refunded.total,
+      status: 'completed',
+      stripeChargeId: params.stripeRefundId,
+      description: params.reason === 'chargeback' ? 'Shop order charged back' : 'Shop order refund',
+    });
+
+    const fulfilled = await tx
+      .select()
+      .from(orderItems)
+      .where(and(eq(orderItems.orderId, refunded.id), isNotNull(orderItems.fulfilledAt)));
+
+    for (const item of fulfilled) {
+      await tx
+        .update(products)
+        .set({
+          totalSales: sql`${products.totalSales} - ${item.quantity}`,
+          totalRevenue: sql`${products.totalRevenue} - ${item.totalPrice}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(products.id, item.productId));
+    }
+
+    return { refunded, reversed };
+  });
+
+  if (!result) {
+    return null;
+  }
+
+  await notifySellerReversals(result.reversed, params.reason);
+
+  if (params.reason === 'refund') {
+    try {
+      await notifyUser(result.refunded.userId, {
+        type: 'payment',
+        title: 'Order refunded',
+        content: params.refundTo === 'balance'
+          ? `$${result.refunded.total} was returned to your balance`
+          : `$${result.refunded.total} was refunded to your card`,
+        data: { orderId: result.refunded.id },
+        actionUrl: '/shop/orders',
+      });
+    } catch (error) {
+      console.error('Failed to notify buyer of refund:', error);
+    }
+  }
+
+  return result.refunded;
+}
+
+/**
+ * Tell the buyer their order went through, and each seller with items to
+ * ship that there's an order waiting for them
+ */
+export async function notifyOrderPaid(order: Order): Promise<void> {
+  try {
+    await notifyUser(order.userId, {
+      type: 'payment',
+      title: 'Order confirmed',
+      content: order.status === 'delivered'
+        ? `Your order of $${order.total} is complete`
+        : `We received your payment of $${order.total}. Your order is being prepared.`,
+      data: { orderId: order.id },
+      actionUrl: order.status === 'delivered' ? '/shop/purchases' : '/shop/orders',
+    });
+  } catch (error) {
+    console.error('Failed to notify buyer of paid order:', error);
+  }
+
+  if (order.status === 'delivered') {
+    return;
+  }
+
+  try {
+    const sellers = await db
+      .selectDistinct({ sellerId: products.sellerId })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(and(eq(orderItems.orderId, order.id), eq(products.shippingRequired, true)));
+
+    for (const { sellerId } of sellers) {
+      await notifyUser(sellerId, {
+        type: 'system',
+        title: 'New order to ship',
+        content: 'A buyer paid for an order with items you need to ship',
+        data: { orderId: order.id },
+        actionUrl: '/shop/sales',
+      });
+    }
+  } catch (error) {
+    console.error('Failed to notify sellers of paid order:', error);
+  }
+}
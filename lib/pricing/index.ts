@@ -0,0 +1,389 @@
+import { db } from '@/lib/db';
+import {
+  users,
+  promotions,
+  promotionRedemptions,
+  readingSessions,
+} from '@/lib/db/schema';
+import { eq, and, or, ne, isNull, count, desc } from 'drizzle-orm';
+import { getZonedDateParts } from '@/lib/utils';
+import type { CreatePromotionInput, UpdatePromotionInput } from '@/lib/validations';
+
+type ReadingType = 'chat' | 'voice' | 'video';
+type Promotion = typeof promotions.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export interface PromotionSchedule {
+  days?: string[]; // Lower-case weekday names; every day when omitted
+  start: string; // 'HH:mm' in the reader's time zone
+  end: string; // Windows that end before they start run past midnight
+}
+
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  kind: 'free_minutes' | 'discount';
+  freeMinutes?: number;
+  discountPercent?: number;
+  couponCode?: string | null;
+}
+
+export interface PriceQuote {
+  type: ReadingType;
+  baseRatePerMinute: number;
+  ratePerMinute: number;
+  freeMinutes: number;
+  promotions: AppliedPromotion[];
+  couponCode?: string | null;
+  quotedAt: string;
+}
+
+export interface SessionCharge {
+  billedMinutes: number;
+  freeMinutesUsed: number;
+  chargedMinutes: number;
+  amount: number;
+  listAmount: number; // What the minutes would have cost at the base rate
+  savings: number;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function getZonedWeekday(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long' })
+    .format(date)
+    .toLowerCase();
+}
+
+function isWithinSchedule(schedule: PromotionSchedule, timeZone: string, at: Date): boolean {
+  if (schedule.days?.length && !schedule.days.includes(getZonedWeekday(at, timeZone))) {
+    return false;
+  }
+
+  const { time } = getZonedDateParts(at, timeZone);
+
+  return schedule.start <= schedule.end
+    ? time >= schedule.start && time < schedule.end
+    : time >= schedule.start || time < schedule.end;
+}
+
+/**
+ * A client is new to a reader until they complete a session with them.
+ * Platform-wide promotions treat clients as new until their first session
+ * with anyone.
+ */
+async function isNewClient(clientId: string, readerId: string | null): Promise<boolean> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(readingSessions)
+    .where(
+      and(
+        eq(readingSessions.clientId, clientId),
+        eq(readingSessions.status, 'completed'),
+        readerId ? eq(readingSessions.readerId, readerId) : undefined
+      )
+    );
+
+  return (row?.count || 0) === 0;
+}
+
+/**
+ * Redemptions that count against a promotion's limits. Requests that were
+ * declined or timed out never started, so they don't use one up.
+ */
+async function countRedemptions(promotionId: string, clientId?: string): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(promotionRedemptions)
+    .innerJoin(readingSessions, eq(promotionRedemptions.sessionId, readingSessions.id))
+    .where(
+      and(
+        eq(promotionRedemptions.promotionId, promotionId),
+        ne(readingSessions.status, 'cancelled'),
+        clientId ? eq(promotionRedemptions.clientId, clientId) : undefined
+      )
+    );
+
+  return row?.count || 0;
+}
+
+async function isEligible(
+  promotion: Promotion,
+  context: { clientId: string; type: ReadingType; timeZone: string; at: Date }
+): Promise<boolean> {
+  const { clientId, type, timeZone, at } = context;
+
+  if (promotion.startsAt && at < promotion.startsAt) return false;
+  if (promotion.endsAt && at >= promotion.endsAt) return false;
+
+  const sessionTypes = promotion.sessionTypes as ReadingType[] | null;
+  if (sessionTypes?.length && !sessionTypes.includes(type)) return false;
+
+  const schedule = promotion.schedule as PromotionSchedule | null;
+  if (schedule && !isWithinSchedule(schedule, timeZone, at)) return false;
+
+  if (promotion.newClientsOnly && !(await isNewClient(clientId, promotion.readerId))) return false;
+
+  if (promotion.maxRedemptions && (await countRedemptions(promotion.id)) >= promotion.maxRedemptions) {
+    return false;
+  }
+
+  if (
+    promotion.maxRedemptionsPerClient &&
+    (await countRedemptions(promotion.id, clientId)) >= promotion.maxRedemptionsPerClient
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Work out what a client would pay a reader right now. Applies the best
+ * eligible discount and the most generous free-minutes promotion; coupon
+ * promotions only count when their code is given. Throws on a code that
+ * doesn't exist or can't be used for this reading.
+ */
+export async function quoteReadingPrice(params: {
+  readerId: string;
+  clientId: string;
+  type: ReadingType;
+  couponCode?: string | null;
+  baseRatePerMinute?: number; // Overrides the reader's list rate, e.g. a rate locked in by a booking
+  at?: Date;
+}): Promise<PriceQuote> {
+  const { readerId, clientId, type, at = new Date() } = params;
+  const couponCode = params.couponCode ? normalizeCouponCode(params.couponCode) : null;
+
+  const reader = await db.query.users.findFirst({
+    where: eq(users.id, readerId),
+    with: {
+      readerProfile: true,
+    },
+  });
+
+  if (!reader || !reader.readerProfile) {
+    throw new Error('Reader not found');
+  }
+
+  const pricing = (reader.readerProfile.pricing || {}) as Record<string, number>;
+  const baseRatePerMinute = params.baseRatePerMinute ?? pricing[type];
+
+  if (!baseRatePerMinute) {
+    throw new Error('The reader does not offer this reading type');
+  }
+
+  const candidates = await db.query.promotions.findMany({
+    where: and(
+      eq(promotions.isActive, true),
+      or(eq(promotions.readerId, readerId), isNull(promotions.readerId)),
+      couponCode
+        ? or(isNull(promotions.couponCode), eq(promotions.couponCode, couponCode))
+        : isNull(promotions.couponCode)
+    ),
+  });
+
+  const context = { clientId, type, timeZone: reader.timezone || 'UTC', at };
+  const eligible: Promotion[] = [];
+
+  for (const promotion of candidates) {
+    if (await isEligible(promotion, context)) {
+      eligible.push(promotion);
+    }
+  }
+
+  if (couponCode) {
+    if (!candidates.some((promotion) => promotion.couponCode === couponCode)) {
+      throw new Error('Invalid coupon code');
+    }
+
+    if (!eligible.some((promotion) => promotion.couponCode === couponCode)) {
+      throw new Error('This coupon code cannot be used for this reading');
+    }
+  }
+
+  // Promotions of the same kind don't stack; the client gets the best one
+  const bestDiscount = eligible
+    .filter((promotion) => promotion.kind === 'discount')
+    .sort((a, b) => parseFloat(b.discountPercent || '0') - parseFloat(a.discountPercent || '0'))[0];
+  const bestFreeMinutes = eligible
+    .filter((promotion) => promotion.kind === 'free_minutes')
+    .sort((a, b) => (b.freeMinutes || 0) - (a.freeMinutes || 0))[0];
+
+  const applied: AppliedPromotion[] = [];
+  let ratePerMinute = baseRatePerMinute;
+  let freeMinutes = 0;
+
+  if (bestDiscount) {
+    const discountPercent = Math.min(100, parseFloat(bestDiscount.discountPercent || '0'));
+    ratePerMinute = fromCents(Math.round((toCents(baseRatePerMinute) * (100 - discountPercent)) / 100));
+    applied.push({
+      id: bestDiscount.id,
+      name: bestDiscount.name,
+      kind: 'discount',
+      discountPercent,
+      couponCode: bestDiscount.couponCode,
+    });
+  }
+
+  if (bestFreeMinutes) {
+    freeMinutes = bestFreeMinutes.freeMinutes || 0;
+    applied.push({
+      id: bestFreeMinutes.id,
+      name: bestFreeMinutes.name,
+      kind: 'free_minutes',
+      freeMinutes,
+      couponCode: bestFreeMinutes.couponCode,
+    });
+  }
+
+  return {
+    type,
+    baseRatePerMinute,
+    ratePerMinute,
+    freeMinutes,
+    promotions: applied,
+    couponCode,
+    quotedAt: at.toISOString(),
+  };
+}
+
+/**
+ * Record that a session used the promotions in its quote
+ */
+export async function recordPromotionRedemptions(
+  executor: Executor,
+  quote: PriceQuote,
+  clientId: string,
+  sessionId: string
+): Promise<void> {
+  if (quote.promotions.length === 0) return;
+
+  await executor.insert(promotionRedemptions).values(
+    quote.promotions.map((promotion) => ({
+      promotionId: promotion.id,
+      clientId,
+      sessionId,
+    }))
+  );
+}
+
+/**
+ * What a session is charged for its billed minutes, and what the
+ * promotions saved compared with the base rate
+ */
+export function getSessionCharge(params: {
+  billedMinutes: number;
+  freeMinutes: number;
+  ratePerMinute: number;
+  baseRatePerMinute: number;
+}): SessionCharge {
+  const { billedMinutes, freeMinutes, ratePerMinute, baseRatePerMinute } = params;
+  const freeMinutesUsed = Math.min(billedMinutes, freeMinutes);
+  const chargedMinutes = billedMinutes - freeMinutesUsed;
+  const amountCents = chargedMinutes * toCents(ratePerMinute);
+  const listAmountCents = billedMinutes * toCents(baseRatePerMinute);
+
+  return {
+    billedMinutes,
+    freeMinutesUsed,
+    chargedMinutes,
+    amount: fromCents(amountCents),
+    listAmount: fromCents(listAmountCents),
+    savings: fromCents(Math.max(0, listAmountCents - amountCents)),
+  };
+}
+
+/**
+ * Promotions owned by a reader, or every promotion when readerId is omitted,
+ * with how often each has been used
+ */
+export async function listPromotions(readerId?: string) {
+  const rows = await db.query.promotions.findMany({
+    where: readerId ? eq(promotions.readerId, readerId) : undefined,
+    orderBy: [desc(promotions.createdAt)],
+  });
+
+  return Promise.all(
+    rows.map(async (promotion) => ({
+      ...promotion,
+      redemptions: await countRedemptions(promotion.id),
+    }))
+  );
+}
+
+export async function createPromotion(
+  createdBy: string,
+  readerId: string | null,
+  input: Omit<CreatePromotionInput, 'readerId'>
+): Promise<Promotion> {
+  const couponCode = input.couponCode ? normalizeCouponCode(input.couponCode) : null;
+
+  if (couponCode) {
+    const existing = await db.query.promotions.findFirst({
+      where: eq(promotions.couponCode, couponCode),
+    });
+
+    if (existing) {
+      throw new Error('That coupon code is already in use');
+    }
+  }
+
+  const [promotion] = await db
+    .insert(promotions)
+    .values({
+      readerId,
+      createdBy,
+      name: input.name,
+      kind: input.kind,
+      freeMinutes: input.kind === 'free_minutes' ? input.freeMinutes : 0,
+      discountPercent: input.kind === 'discount' ? input.discountPercent!.toFixed(2) : '0',
+      sessionTypes: input.sessionTypes,
+      newClientsOnly: input.newClientsOnly,
+      schedule: input.schedule,
+      couponCode,
+      startsAt: input.startsAt ? new Date(input.startsAt) : null,
+      endsAt: input.endsAt ? new Date(input.endsAt) : null,
+      maxRedemptions: input.maxRedemptions,
+      maxRedemptionsPerClient: input.maxRedemptionsPerClient,
+    })
+    .returning();
+
+  return promotion;
+}
+
+export async function updatePromotion(
+  promotionId: string,
+  input: UpdatePromotionInput
+): Promise<Promotion> {
+  const [promotion] = await db
+    .update(promotions)
+    .set({
+      name: input.name,
+      isActive: input.isActive,
+      startsAt: input.startsAt === undefined ? undefined : input.startsAt ? new Date(input.startsAt) : null,
+      endsAt: input.endsAt === undefined ? undefined : input.endsAt ? new Date(input.endsAt) : null,
+      maxRedemptions: input.maxRedemptions,
+      maxRedemptionsPerClient: input.maxRedemptionsPerClient,
+      updatedAt: new Date(),
+    })
+    .where(eq(promotions.id, promotionId))
+    .returning();
+
+  if (!promotion) {
+    throw new Error('Promotion not found');
+  }
+
+  return promotion;
+}
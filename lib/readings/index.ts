@@ -0,0 +1,908 @@
+import { db } from '@/lib/db';
+import {
+  users,
+  readerProfiles,
+  readingSessions,
+  readingWaitlist,
+  clientBalances,
+  bookings,
+} from '@/lib/db/schema';
+import { eq, and, or, lt, lte, gt, asc, inArray, notInArray, isNotNull, count, SQL } from 'drizzle-orm';
+import {
+  createReadingSessionWithHold,
+  releaseSessionHold,
+  meterReadingSession,
+  endReadingSession,
+  pauseSessionBilling,
+  resumeSessionBilling,
+  getChargeableMinutes,
+  METERING_CONFIG,
+} from '@/lib/billing';
+import { ablyService, formatSystemMessage, ChannelNames } from '@/lib/ably';
+import { notifyUser } from '@/lib/notifications';
+import {
+  quoteReadingPrice,
+  recordPromotionRedemptions,
+  normalizeCouponCode,
+  PriceQuote,
+} from '@/lib/pricing';
+import { generateChannelName } from '@/lib/utils';
+
+// Reading request configuration
+export const READING_REQUEST_CONFIG = {
+  responseTimeoutSeconds: 60, // How long a reader has to accept a request
+} as const;
+
+export const READER_BUSY_MESSAGE = 'Reader is busy';
+
+export type RequestCloseReason = 'declined' | 'timeout' | 'client_cancelled';
+
+export interface SessionHealth {
+  sessionId: string;
+  status: 'waiting' | 'connected' | 'paused' | 'ended' | 'inactive';
+  missing: Array<'client' | 'reader'>;
+  graceEndsAt?: string;
+}
+
+type ReadingType = 'chat' | 'voice' | 'video';
+type ReadingSession = typeof readingSessions.$inferSelect;
+type WaitlistEntry = typeof readingWaitlist.$inferSelect;
+
+// Booked readings start once both participants join, not when the reader
+// accepts, so they never show up as requests to answer
+function bookedSessionIds() {
+  return db
+    .select({ id: bookings.sessionId })
+    .from(bookings)
+    .where(isNotNull(bookings.sessionId));
+}
+
+async function getRequestableReader(readerId: string) {
+  const reader = await db.query.users.findFirst({
+    where: and(eq(users.id, readerId), eq(users.role, 'reader')),
+    with: {
+      readerProfile: true,
+    },
+  });
+
+  if (!reader || !reader.readerProfile || !reader.readerProfile.isApproved) {
+    throw new Error('Reader not found');
+  }
+
+  if (!reader.readerProfile.isOnline) {
+    throw new Error('Reader is not available');
+  }
+
+  return { reader, profile: reader.readerProfile };
+}
+
+/**
+ * Cancel a pending session whose setup failed part-way and give the client
+ * back the funds held for it
+ */
+async function voidPendingSession(sessionId: string): Promise<void> {
+  const now = new Date();
+
+  await db
+    .update(readingSessions)
+    .set({
+      status: 'cancelled',
+      endedAt: now,
+      endReason: 'setup_failed',
+      updatedAt: now,
+    })
+    .where(and(eq(readingSessions.id, sessionId), eq(readingSessions.status, 'pending')));
+
+  await releaseSessionHold(sessionId);
+}
+
+/**
+ * Create a pending session at the quoted price for a reader the caller has
+ * already marked busy, hold the client's funds and ring the reader
+ */
+async function createPendingRequest(
+  clientId: string,
+  readerId: string,
+  quote: PriceQuote
+): Promise<ReadingSession> {
+  const { type, ratePerMinute } = quote;
+  const agoraChannelName = generateChannelName('reading', clientId, readerId);
+
+  // Funds are held now so the client can't spend them while the reader
+  // decides, but nothing is billed until the request is accepted
+  const session = await createReadingSessionWithHold({
+    clientId,
+    readerId,
+    type,
+    status: 'pending',
+    requestExpiresAt: new Date(Date.now() + READING_REQUEST_CONFIG.responseTimeoutSeconds * 1000),
+    ratePerMinute: ratePerMinute.toFixed(2),
+    baseRatePerMinute: quote.baseRatePerMinute.toFixed(2),
+    freeMinutes: quote.freeMinutes,
+    pricingBreakdown: quote,
+    agoraChannelName,
+    ablyChannelName: `reading-session:${Date.now()}`,
+  });
+
+  let client: typeof users.$inferSelect | undefined;
+
+  try {
+    await recordPromotionRedemptions(db, quote, clientId, session.id);
+
+    client = await db.query.users.findFirst({
+      where: eq(users.id, clientId),
+    });
+  } catch (error) {
+    await voidPendingSession(session.id);
+    throw error;
+  }
+
+  const clientName = client?.firstName || 'A client';
+
+  try {
+    await ablyService.publishReadingRequest(readerId, {
+      sessionId: session.id,
+      clientId,
+      clientName,
+      clientAvatar: client?.profileImage,
+      type,
+      ratePerMinute,
+      expiresAt: session.requestExpiresAt!.toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to ring reader:', error);
+  }
+
+  try {
+    await notifyUser(readerId, {
+      type: 'reading',
+      title: 'New reading request',
+      content: `${clientName} would like a ${type} reading.`,
+      data: {
+        sessionId: session.id,
+        expiresAt: session.requestExpiresAt!.toISOString(),
+      },
+      actionUrl: '/dashboard',
+    });
+  } catch (error) {
+    console.error('Failed to notify reader of request:', error);
+  }
+
+  return session;
+}
+
+/**
+ * Hand a reader who was just freed up to the next client in their waitlist.
+ * The caller must already hold the reader (isAvailable = false); when nobody
+ * is waiting the reader is opened up for new requests.
+ */
+async function handOffReader(readerId: string): Promise<void> {
+  const reader = await db.query.users.findFirst({
+    where: eq(users.id, readerId),
+    with: {
+      readerProfile: true,
+    },
+  });
+
+  if (reader?.readerProfile?.isOnline) {
+    while (true) {
+      const next = await db.query.readingWaitlist.findFirst({
+        where: and(eq(readingWaitlist.readerId, readerId), eq(readingWaitlist.status, 'waiting')),
+        orderBy: [asc(readingWaitlist.createdAt)],
+      });
+
+      if (!next) break;
+
+      const [offered] = await db
+        .update(readingWaitlist)
+        .set({ status: 'offered', updatedAt: new Date() })
+        .where(and(eq(readingWaitlist.id, next.id), eq(readingWaitlist.status, 'waiting')))
+        .returning();
+
+      if (!offered) continue;
+
+      try {
+        const quote = await quoteReadingPrice({
+          readerId,
+          clientId: offered.clientId,
+          type: offered.type,
+          couponCode: offered.couponCode,
+        });
+        const session = await createPendingRequest(offered.clientId, readerId, quote);
+
+        await db
+          .update(readingWaitlist)
+          .set({ sessionId: session.id, updatedAt: new Date() })
+          .where(eq(readingWaitlist.id, offered.id));
+
+        await notifyWaitlistClient(offered, {
+          title: "It's your turn",
+          content: `${reader.readerProfile.displayName} is free. We've sent them your request.`,
+          sessionId: session.id,
+        });
+
+        return;
+      } catch (error) {
+        await db
+          .update(readingWaitlist)
+          .set({ status: 'cancelled', updatedAt: new Date() })
+          .where(eq(readingWaitlist.id, offered.id));
+
+        await notifyWaitlistClient(offered, {
+          title: 'Removed from waitlist',
+          content: error instanceof Error ? error.message : 'Your reading request could not be created.',
+        });
+      }
+    }
+  }
+
+  await db
+    .update(readerProfiles)
+    .set({ isAvailable: true })
+    .where(eq(readerProfiles.userId, readerId));
+}
+
+/**
+ * Offer a reader to their waitlist if they are free. Call after anything
+ * that may have freed the reader up, such as a session ending.
+ */
+export async function advanceReaderQueue(readerId: string): Promise<void> {
+  const [claimed] = await db
+    .update(readerProfiles)
+    .set({ isAvailable: false })
+    .where(
+      and(
+        eq(readerProfiles.userId, readerId),
+        eq(readerProfiles.isOnline, true),
+        eq(readerProfiles.isAvailable, true)
+      )
+    )
+    .returning({ id: readerProfiles.id });
+
+  if (claimed) {
+    await handOffReader(readerId);
+  }
+}
+
+/**
+ * Ask a reader for a reading. The reader is marked busy and has
+ * READING_REQUEST_CONFIG.responseTimeoutSeconds to accept. Throws
+ * READER_BUSY_MESSAGE when the reader is taken or has a waitlist, in which
+ * case the client can join the waitlist instead.
+ */
+export async function requestReading(params: {
+  clientId: string;
+  readerId: string;
+  type: ReadingType;
+  couponCode?: string;
+}): Promise<ReadingSession> {
+  const { clientId, readerId, type, couponCode } = params;
+
+  if (clientId === readerId) {
+    throw new Error('You cannot request a reading from yourself');
+  }
+
+  await getRequestableReader(readerId);
+
+  // Priced before the reader is claimed so a bad coupon doesn't tie them up
+  const quote = await quoteReadingPrice({ readerId, clientId, type, couponCode });
+
+  // Clients already in line go first
+  const queued = await db.query.readingWaitlist.findFirst({
+    where: and(
+      eq(readingWaitlist.readerId, readerId),
+      inArray(readingWaitlist.status, ['waiting', 'offered'])
+    ),
+  });
+
+  if (queued) {
+    await advanceReaderQueue(readerId);
+    throw new Error(READER_BUSY_MESSAGE);
+  }
+
+  // Claiming the reader atomically stops two clients ringing them at once
+  const [claimed] = await db
+    .update(readerProfiles)
+    .set({ isAvailable: false })
+    .where(
+      and(
+        eq(readerProfiles.userId, readerId),
+        eq(readerProfiles.isOnline, true),
+        eq(readerProfiles.isAvailable, true)
+      )
+    )
+    .returning({ id: readerProfiles.id });
+
+  if (!claimed) {
+    throw new Error(READER_BUSY_MESSAGE);
+  }
+
+  try {
+    return await createPendingRequest(clientId, readerId, quote);
+  } catch (error) {
+    await handOffReader(readerId);
+    throw error;
+  }
+}
+
+/**
+ * Bill the first minute of a session that just became active and tell
+ * whoever is on the session channel
+ */
+async function beginSessionBilling(session: ReadingSession, startedAt: Date) {
+  const metering = await meterReadingSession(session.id);
+
+  try {
+    await ablyService.publishSessionEvent(
+      session.id,
+      formatSystemMessage('session_started', { startedAt: startedAt.toISOString() })
+    );
+  } catch (error) {
+    console.error('Failed to publish session start event:', error);
+  }
+
+  return metering;
+}
+
+/**
+ * Open the session for a booked reading whose slot has arrived. The reader
+ * is claimed the same way a request claims them and the client's funds are
+ * held; the session then waits as pending until both have joined by joinBy.
+ * Returns null while the reader is still busy with another reading.
+ */
+export async function openBookedReading(params: {
+  bookingId: string;
+  clientId: string;
+  readerId: string;
+  quote: PriceQuote;
+  joinBy: Date;
+}): Promise<ReadingSession | null> {
+  const { bookingId, clientId, readerId, quote, joinBy } = params;
+
+  // Readers in another reading stay claimed until it ends
+  const [claimed] = await db
+    .update(readerProfiles)
+    .set({ isAvailable: false })
+    .where(and(eq(readerProfiles.userId, readerId), eq(readerProfiles.isAvailable, true)))
+    .returning({ id: readerProfiles.id });
+
+  if (!claimed) {
+    return null;
+  }
+
+  let session: ReadingSession;
+
+  try {
+    session = await createReadingSessionWithHold({
+      clientId,
+      readerId,
+      type: quote.type,
+      status: 'pending',
+      requestExpiresAt: joinBy,
+      ratePerMinute: quote.ratePerMinute.toFixed(2),
+      baseRatePerMinute: quote.baseRatePerMinute.toFixed(2),
+      freeMinutes: quote.freeMinutes,
+      pricingBreakdown: quote,
+      agoraChannelName: generateChannelName('reading', clientId, readerId),
+      ablyChannelName: `reading-session:${Date.now()}`,
+    });
+  } catch (error) {
+    await handOffReader(readerId);
+    throw error;
+  }
+
+  try {
+    await recordPromotionRedemptions(db, quote, clientId, session.id);
+
+    await db
+      .update(bookings)
+      .set({ sessionId: session.id, updatedAt: new Date() })
+      .where(eq(bookings.id, bookingId));
+  } catch (error) {
+    await voidPendingSession(session.id);
+    await handOffReader(readerId);
+    throw error;
+  }
+
+  return session;
+}
+
+/**
+ * Reader accepts a pending request. The session becomes active and the first
+ * minute is billed right away.
+ */
+export async function acceptReadingRequest(sessionId: string, readerId: string) {
+  const now = new Date();
+
+  const [session] = await db
+    .update(readingSessions)
+    .set({
+      status: 'active',
+      startedAt: now,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(readingSessions.id, sessionId),
+        eq(readingSessions.readerId, readerId),
+        eq(readingSessions.status, 'pending'),
+        gt(readingSessions.requestExpiresAt, now),
+        notInArray(readingSessions.id, bookedSessionIds())
+      )
+    )
+    .returning();
+
+  if (!session) {
+    await expireReadingRequests(now);
+    throw new Error('This reading request is no longer pending');
+  }
+
+  await db
+    .update(readingWaitlist)
+    .set({ status: 'fulfilled', updatedAt: now })
+    .where(eq(readingWaitlist.sessionId, session.id));
+
+  const metering = await beginSessionBilling(session, now);
+
+  try {
+    await notifyUser(session.clientId, {
+      type: 'reading',
+      title: 'Reading accepted',
+      content: 'Your reader accepted. Your session has started.',
+      data: { sessionId: session.id },
+    });
+  } catch (error) {
+    console.error('Failed to notify client of accepted request:', error);
+  }
+
+  return { session, metering };
+}
+
+/**
+ * Close a pending request without billing, release its hold and pass the
+ * reader on to the next client in line. Returns null when the request was
+ * no longer pending.
+ */
+async function closeReadingRequest(
+  where: SQL | undefined,
+  reason: RequestCloseReason
+): Promise<ReadingSession | null> {
+  const now = new Date();
+
+  const [session] = await db
+    .update(readingSessions)
+    .set({
+      status: 'cancelled',
+      endedAt: now,
+      endReason: reason,
+      updatedAt: now,
+    })
+    .where(and(where, eq(readingSessions.status, 'pending')))
+    .returning();
+
+  if (!session) {
+    return null;
+  }
+
+  await releaseSessionHold(session.id);
+
+  await db
+    .update(readingWaitlist)
+    .set({ status: 'cancelled', updatedAt: now })
+    .where(and(eq(readingWaitlist.sessionId, session.id), eq(readingWaitlist.status, 'offered')));
+
+  // A booked reading nobody joined in time was missed
+  const [booking] = await db
+    .update(bookings)
+    .set(
+      reason === 'timeout'
+        ? { status: 'missed', updatedAt: now }
+        : {
+            status: 'cancelled',
+            cancelledBy: reason === 'declined' ? session.readerId : session.clientId,
+            cancelledAt: now,
+            cancellationReason: reason,
+            updatedAt: now,
+          }
+    )
+    .where(and(eq(bookings.sessionId, session.id), eq(bookings.status, 'converted')))
+    .returning({ id: bookings.id });
+
+  try {
+    await ablyService.publishSessionEvent(
+      session.id,
+      formatSystemMessage('request_closed', { reason })
+    );
+  } catch (error) {
+    console.error('Failed to publish request closed event:', error);
+  }
+
+  if (reason !== 'client_cancelled') {
+    const notice = reason === 'declined'
+      ? { title: 'Reading declined', content: 'Your reader could not take this reading.' }
+      : booking
+        ? { title: 'Booked reading missed', content: 'Your booked reading was not joined in time.' }
+        : { title: 'No answer from reader', content: 'Your reader did not respond in time.' };
+
+    try {
+      await notifyUser(session.clientId, {
+        type: 'reading',
+        title: notice.title,
+        content: `${notice.content} You have not been charged.`,
+        data: { sessionId: session.id, reason },
+      });
+    } catch (error) {
+      console.error('Failed to notify client of closed request:', error);
+    }
+  }
+
+  await handOffReader(session.readerId);
+
+  return session;
+}
+
+export async function declineReadingRequest(sessionId: string, readerId: string) {
+  const session = await closeReadingRequest(
+    and(eq(readingSessions.id, sessionId), eq(readingSessions.readerId, readerId)),
+    'declined'
+  );
+
+  if (!session) {
+    throw new Error('This reading request is no longer pending');
+  }
+
+  return session;
+}
+
+export async function cancelReadingRequest(sessionId: string, clientId: string) {
+  const session = await closeReadingRequest(
+    and(eq(readingSessions.id, sessionId), eq(readingSessions.clientId, clientId)),
+    'client_cancelled'
+  );
+
+  if (!session) {
+    throw new Error('This reading request is no longer pending');
+  }
+
+  return session;
+}
+
+/**
+ * Time out every pending request the reader didn't answer. Returns how many
+ * were closed.
+ */
+export async function expireReadingRequests(now: Date = new Date()): Promise<number> {
+  const overdue = await db
+    .select({ id: readingSessions.id })
+    .from(readingSessions)
+    .where(
+      and(
+        eq(readingSessions.status, 'pending'),
+        lte(readingSessions.requestExpiresAt, now)
+      )
+    );
+
+  let expired = 0;
+
+  for (const { id } of overdue) {
+    if (await closeReadingRequest(eq(readingSessions.id, id), 'timeout')) {
+      expired++;
+    }
+  }
+
+  return expired;
+}
+
+async function publishSessionStatus(sessionId: string, data: Record<string, any>): Promise<void> {
+  try {
+    await ablyService.publishSessionEvent(sessionId, formatSystemMessage('status_update', data));
+  } catch (error) {
+    console.error('Failed to publish session status:', error);
+  }
+}
+
+async function getMissingParticipants(session: ReadingSession): Promise<Array<'client' | 'reader'>> {
+  const members = await ablyService.getPresence(ChannelNames.readingSession(session.id));
+  // Token auth pins each connection's clientId to the user id, so trust that over presence data
+  const presentUserIds = new Set(members.map((member) => member.clientId));
+
+  const missing: Array<'client' | 'reader'> = [];
+  if (!presentUserIds.has(session.clientId)) missing.push('client');
+  if (!presentUserIds.has(session.readerId)) missing.push('reader');
+
+  return missing;
+}
+
+/**
+ * Start a booked reading once both participants are on the session channel.
+ * Until then nothing is billed and nobody can be disconnected; the session
+ * is closed as missed if they haven't both joined by its request deadline.
+ */
+async function startBookedSessionOnJoin(session: ReadingSession): Promise<SessionHealth> {
+  const booking = await db.query.bookings.findFirst({
+    where: eq(bookings.sessionId, session.id),
+  });
+
+  if (!booking) {
+    return { sessionId: session.id, status: 'inactive', missing: [] };
+  }
+
+  const missing = await getMissingParticipants(session);
+
+  if (missing.length > 0) {
+    return { sessionId: session.id, status: 'waiting', missing };
+  }
+
+  const now = new Date();
+
+  const [started] = await db
+    .update(readingSessions)
+    .set({ status: 'active', startedAt: now, updatedAt: now })
+    .where(
+      and(
+        eq(readingSessions.id, session.id),
+        eq(readingSessions.status, 'pending'),
+        gt(readingSessions.requestExpiresAt, now)
+      )
+    )
+    .returning();
+
+  if (!started) {
+    return { sessionId: session.id, status: 'inactive', missing: [] };
+  }
+
+  await beginSessionBilling(started, now);
+
+  return { sessionId: session.id, status: 'connected', missing };
+}
+
+/**
+ * Compare who is present on the session channel with who should be. Billing
+ * pauses while either participant is missing and resumes when they are both
+ * back; a session nobody rejoins within METERING_CONFIG.reconnectGraceSeconds
+ * is ended and charged up to the moment it was paused. Booked readings
+ * waiting on their participants start here once both have joined.
+ */
+export async function checkSessionHealth(sessionId: string): Promise<SessionHealth> {
+  const session = await db.query.readingSessions.findFirst({
+    where: eq(readingSessions.id, sessionId),
+  });
+
+  if (session?.status === 'pending') {
+    return startBookedSessionOnJoin(session);
+  }
+
+  if (!session || session.status !== 'active') {
+    return { sessionId, status: 'inactive', missing: [] };
+  }
+
+  const missing = await getMissingParticipants(session);
+
+  if (missing.length === 0) {
+    if (session.pausedAt && (await resumeSessionBilling(session.id))) {
+      await publishSessionStatus(session.id, { state: 'resumed' });
+    }
+
+    return { sessionId, status: 'connected', missing };
+  }
+
+  if (!session.pausedAt) {
+    const pausedAt = new Date();
+    const graceEndsAt = new Date(pausedAt.getTime() + METERING_CONFIG.reconnectGraceSeconds * 1000);
+
+    if (await pauseSessionBilling(session.id)) {
+      await publishSessionStatus(session.id, {
+        state: 'paused',
+        missing,
+        graceEndsAt: graceEndsAt.toISOString(),
+      });
+    }
+
+    return { sessionId, status: 'paused', missing, graceEndsAt: graceEndsAt.toISOString() };
+  }
+
+  const graceEndsAt = new Date(session.pausedAt.getTime() + METERING_CONFIG.reconnectGraceSeconds * 1000);
+
+  if (new Date() < graceEndsAt) {
+    return { sessionId, status: 'paused', missing, graceEndsAt: graceEndsAt.toISOString() };
+  }
+
+  const ended = await endReadingSession(session.id, 'disconnected');
+
+  if (ended) {
+    await advanceReaderQueue(session.readerId);
+  }
+
+  return { sessionId, status: 'ended', missing };
+}
+
+/**
+ * Run checkSessionHealth over every active session, for sessions where
+ * nobody is left to send heartbeats. Returns how many were ended.
+ */
+export async function checkActiveSessionsHealth(): Promise<number> {
+  const active = await db
+    .select({ id: readingSessions.id })
+    .from(readingSessions)
+    .where(eq(readingSessions.status, 'active'));
+
+  let ended = 0;
+
+  for (const { id } of active) {
+    try {
+      const health = await checkSessionHealth(id);
+
+      if (health.status === 'ended') {
+        ended++;
+      }
+    } catch (error) {
+      console.error(`Failed to check health of session ${id}:`, error);
+    }
+  }
+
+  return ended;
+}
+
+/**
+ * Pending requests waiting on a reader, oldest first
+ */
+export async function getPendingRequests(readerId: string) {
+  await expireReadingRequests();
+
+  return db.query.readingSessions.findMany({
+    where: and(
+      eq(readingSessions.readerId, readerId),
+      eq(readingSessions.status, 'pending'),
+      notInArray(readingSessions.id, bookedSessionIds())
+    ),
+    with: {
+      client: {
+        columns: {
+          id: true,
+          firstName: true,
+          profileImage: true,
+        },
+      },
+    },
+    orderBy: [asc(readingSessions.createdAt)],
+  });
+}
+
+/**
+ * 1-based place in line of a waiting entry
+ */
+async function getWaitlistPosition(entry: WaitlistEntry): Promise<number> {
+  const [ahead] = await db
+    .select({ count: count() })
+    .from(readingWaitlist)
+    .where(
+      and(
+        eq(readingWaitlist.readerId, entry.readerId),
+        eq(readingWaitlist.status, 'waiting'),
+        lt(readingWaitlist.createdAt, entry.createdAt!)
+      )
+    );
+
+  return (ahead?.count || 0) + 1;
+}
+
+/**
+ * The client's current place in a reader's waitlist, if any
+ */
+export async function getWaitlistEntry(clientId: string, readerId: string) {
+  const entry = await db.query.readingWaitlist.findFirst({
+    where: and(
+      eq(readingWaitlist.clientId, clientId),
+      eq(readingWaitlist.readerId, readerId),
+      inArray(readingWaitlist.status, ['waiting', 'offered'])
+    ),
+  });
+
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    ...entry,
+    position: entry.status === 'waiting' ? await getWaitlistPosition(entry) : 0,
+  };
+}
+
+/**
+ * Join a busy reader's waitlist. The client is offered the reader, in order,
+ * as soon as they are free.
+ */
+export async function joinWaitlist(params: {
+  clientId: string;
+  readerId: string;
+  type: ReadingType;
+  couponCode?: string;
+}) {
+  const { clientId, readerId, type, couponCode } = params;
+
+  if (clientId === readerId) {
+    throw new Error('You cannot join your own waitlist');
+  }
+
+  await getRequestableReader(readerId);
+
+  // The price is quoted again when the client's turn comes
+  const quote = await quoteReadingPrice({ readerId, clientId, type, couponCode });
+
+  const balance = await db.query.clientBalances.findFirst({
+    where: eq(clientBalances.userId, clientId),
+  });
+
+  const minimumRequired =
+    quote.ratePerMinute * getChargeableMinutes(METERING_CONFIG.minimumStartMinutes, quote.freeMinutes);
+
+  if (parseFloat(balance?.balance || '0') < minimumRequired) {
+    throw new Error('Insufficient balance. Please add funds to your account.');
+  }
+
+  const existing = await getWaitlistEntry(clientId, readerId);
+
+  if (existing) {
+    return existing;
+  }
+
+  const pending = await db.query.readingSessions.findFirst({
+    where: and(
+      eq(readingSessions.clientId, clientId),
+      eq(readingSessions.readerId, readerId),
+      or(eq(readingSessions.status, 'pending'), eq(readingSessions.status, 'active'))
+    ),
+  });
+
+  if (pending) {
+    throw new Error('You already have a reading with this reader');
+  }
+
+  await db.insert(readingWaitlist).values({
+    clientId,
+    readerId,
+    type,
+    couponCode: couponCode ? normalizeCouponCode(couponCode) : null,
+  });
+
+  // The reader may have freed up in the meantime
+  await advanceReaderQueue(readerId);
+
+  return getWaitlistEntry(clientId, readerId);
+}
+
+export async function leaveWaitlist(clientId: string, readerId: string): Promise<boolean> {
+  const left = await db
+    .update(readingWaitlist)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(
+      and(
+        eq(readingWaitlist.clientId, clientId),
+        eq(readingWaitlist.readerId, readerId),
+        eq(readingWaitlist.status, 'waiting')
+      )
+    )
+    .returning({ id: readingWaitlist.id });
+
+  return left.length > 0;
+}
+
+async function notifyWaitlistClient(
+  entry: WaitlistEntry,
+  message: { title: string; content: string; sessionId?: string }
+): Promise<void> {
+  try {
+    await notifyUser(entry.clientId, {
+      type: 'reading',
+      title: message.title,
+      content: message.content,
+      data: {
+        readerId: entry.readerId,
+        sessionId: message.sessionId,
+      },
+      actionUrl: `/readings/start?readerId=${entry.readerId}&type=${entry.type}`,
+    });
+  } catch (error) {
+    console.error('Failed to notify waitlisted client:', error);
+  }
+}
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { presignS3Url } from '@/lib/storage';
+
+// Server-only: talks to the Agora cloud recording REST API and signs
+// playback URLs for the bucket the recorder uploads to.
+
+export interface StartRecordingParams {
+  channelName: string;
+  recorderUid: string;
+  token: string;
+  channelType: 'communication' | 'live';
+  audioOnly: boolean;
+  fileNamePrefix: string[];
+}
+
+export interface StopRecordingParams {
+  channelName: string;
+  recorderUid: string;
+  resourceId: string;
+  sid: string;
+}
+
+export interface RecordingBackend {
+  start(params: StartRecordingParams): Promise<{ resourceId: string; sid: string }>;
+  stop(params: StopRecordingParams): Promise<{ files: string[] }>;
+  getPlaybackUrl(storageKey: string, expiresInSeconds: number): string;
+}
+
+function getAgoraCredentials() {
+  const appId = process.env.NEXT_PUBLIC_AGORA_APP_ID;
+  const customerId = process.env.AGORA_CUSTOMER_ID;
+  const customerSecret = process.env.AGORA_CUSTOMER_SECRET;
+
+  if (!appId || !customerId || !customerSecret) {
+    throw new Error('Agora cloud recording is not configured');
+  }
+
+  return { appId, customerId, customerSecret };
+}
+
+function getStorageConfig() {
+  const bucket = process.env.RECORDING_STORAGE_BUCKET;
+  const accessKey = process.env.RECORDING_STORAGE_ACCESS_KEY;
+  const secretKey = process.env.RECORDING_STORAGE_SECRET_KEY;
+
+  if (!bucket || !accessKey || !secretKey) {
+    throw new Error('Recording storage is not configured');
+  }
+
+  return {
+    bucket,
+    accessKey,
+    secretKey,
+    region: process.env.RECORDING_STORAGE_REGION || 'us-east-1',
+    // Agora identifies vendors and regions by number: vendor 1 is Amazon S3,
+    // and region 0 is us-east-1 in Agora's S3 region table
+    agoraVendor: parseInt(process.env.RECORDING_STORAGE_AGORA_VENDOR || '1', 10),
+    agoraRegion: parseInt(process.env.RECORDING_STORAGE_AGORA_REGION || '0', 10),
+  };
+}
+
+async function callAgora(path: string, body: Record<string, any>): Promise<any> {
+  const { appId, customerId, customerSecret } = getAgoraCredentials();
+  const authorization = Buffer.from(`${customerId}:${customerSecret}`).toString('base64');
+
+  const response = await fetch(`https://api.agora.io/v1/apps/${appId}/cloud_recording${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Basic ${authorization}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(`Agora cloud recording request failed (${response.status}): ${data.reason || data.message || 'unknown error'}`);
+  }
+
+  return data;
+}
+
+/**
+ * Mixed-stream recording: one file per channel with everyone in it, written
+ * straight to the bucket by Agora
+ */
+export const agoraCloudRecording: RecordingBackend = {
+  async start(params) {
+    const storage = getStorageConfig();
+
+    const { resourceId } = await callAgora('/acquire', {
+      cname: params.channelName,
+      uid: params.recorderUid,
+      clientRequest: {
+        resourceExpiredHour: 24,
+        scene: 0,
+      },
+    });
+
+    const { sid } = await callAgora(`/resourceid/${resourceId}/mode/mix/start`, {
+      cname: params.channelName,
+      uid: params.recorderUid,
+      clientRequest: {
+        token: params.token,
+        recordingConfig: {
+          channelType: params.channelType === 'live' ? 1 : 0,
+          streamTypes: params.audioOnly ? 0 : 2,
+          maxIdleTime: 120,
+          ...(params.audioOnly
+            ? {}
+            : {
+                transcodingConfig: {
+                  width: 640,
+                  height: 480,
+                  fps: 15,
+                  bitrate: 500,
+                  mixedVideoLayout: 1,
+                },
+              }),
+        },
+        recordingFileConfig: {
+          avFileType: ['hls', 'mp4'],
+        },
+        storageConfig: {
+          vendor: storage.agoraVendor,
+          region: storage.agoraRegion,
+          bucket: storage.bucket,
+          accessKey: storage.accessKey,
+          secretKey: storage.secretKey,
+          fileNamePrefix: params.fileNamePrefix,
+        },
+      },
+    });
+
+    return { resourceId, sid };
+  },
+
+  async stop(params) {
+    const data = await callAgora(`/resourceid/${params.resourceId}/sid/${params.sid}/mode/mix/stop`, {
+      cname: params.channelName,
+      uid: params.recorderUid,
+      clientRequest: {},
+    });
+
+    // Agora returns either a list of file objects or a single file name
+    const fileList = data.serverResponse?.fileList;
+    const files: string[] = Array.isArray(fileList)
+      ? fileList.map((file: { fileName: string }) => file.fileName)
+      : fileList
+        ? [fileList]
+        : [];
+
+    return { files };
+  },
+
+  getPlaybackUrl(storageKey, expiresInSeconds) {
+    return presignS3Url(getStorageConfig(), storageKey, expiresInSeconds);
+  },
+};
+
+/**
+ * Stand-in for local development and tests. Pretends to record and hands
+ * back predictable file names without calling Agora or touching storage.
+ */
+export const mockCloudRecording: RecordingBackend = {
+  async start(params) {
+    const id = crypto.randomBytes(8).toString('hex');
+    return { resourceId: `mock-resource-${id}`, sid: `mock-sid-${id}` };
+  },
+
+  async stop(params) {
+    return {
+      files: [
+        `mock/${params.sid}_${params.channelName}.m3u8`,
+        `mock/${params.sid}_${params.channelName}.mp4`,
+      ],
+    };
+  },
+
+  getPlaybackUrl(storageKey, expiresInSeconds) {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `/mock-recordings/${storageKey}?expires=${expires}`;
+  },
+};
+
+export function getRecordingBackend(): RecordingBackend {
+  return process.env.RECORDING_BACKEND === 'mock' ? mockCloudRecording : agoraCloudRecording;
+}
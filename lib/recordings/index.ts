@@ -0,0 +1,479 @@
+import { db } from '@/lib/db';
+import { recordings, readingSessions, liveStreams } from '@/lib/db/schema';
+import { eq, and, inArray, desc } from 'drizzle-orm';
+import { issueRecorderToken } from '@/lib/agora/token';
+import { ablyService, formatSystemMessage } from '@/lib/ably';
+import { hasPermission, type AuthUser } from '@/lib/auth';
+import { getRecordingBackend, type StartRecordingParams } from '@/lib/recordings/cloud';
+
+export const RECORDING_CONFIG = {
+  recorderUid: '4000000000', // Fixed Agora uid for the recorder, far above any user's agoraUid
+  recorderTokenTtlSeconds: 24 * 60 * 60, // Longer than any reading or stream
+  playbackUrlTtlSeconds: 60 * 60, // Signed playback links stop working after this
+};
+
+type Recording = typeof recordings.$inferSelect;
+type ReadingSession = typeof readingSessions.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type RecordingClaim = {
+  values: typeof recordings.$inferInsert;
+  params: Omit<StartRecordingParams, 'token' | 'recorderUid'>;
+};
+
+const IN_PROGRESS: Array<NonNullable<Recording['status']>> = ['starting', 'recording'];
+
+export interface SessionRecordingState {
+  clientConsent: boolean;
+  readerConsent: boolean;
+  isRecording: boolean;
+}
+
+/**
+ * Link participants and admins use to play a recording. It redirects to a
+ * freshly signed storage URL, so it can be stored and shared safely.
+ */
+export function getRecordingPlaybackPath(recordingId: string): string {
+  return `/api/recordings/${recordingId}`;
+}
+
+// Prefer the single MP4 over the HLS playlist, whose segments would each need signing
+function pickPlayableFile(files: string[]): string | null {
+  return files.find((file) => file.endsWith('.mp4')) || files.find((file) => file.endsWith('.m3u8')) || null;
+}
+
+/**
+ * Claim the target and insert a 'starting' row, then ask the recorder to
+ * join. The caller's lock on the session or stream row keeps two requests
+ * from starting two recorders. If a stop came in while the recorder was
+ * joining, it is stopped here as soon as Agora has given us its ids.
+ */
+async function startRecording(
+  claim: (tx: Transaction) => Promise<RecordingClaim | null>
+): Promise<Recording | null> {
+  const claimed = await db.transaction(async (tx) => {
+    const result = await claim(tx);
+    if (!result) return null;
+
+    const [created] = await tx.insert(recordings).values(result.values).returning();
+    return { recording: created, params: result.params };
+  });
+
+  if (!claimed) {
+    return null;
+  }
+
+  const { recording, params } = claimed;
+
+  try {
+    const { resourceId, sid } = await getRecordingBackend().start({
+      ...params,
+      recorderUid: recording.recorderUid,
+      token: issueRecorderToken(params.channelName, recording.recorderUid, RECORDING_CONFIG.recorderTokenTtlSeconds),
+    });
+
+    const [started] = await db
+      .update(recordings)
+      .set({ status: 'recording', resourceId, sid, startedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(recordings.id, recording.id), eq(recordings.status, 'starting')))
+      .returning();
+
+    if (started) {
+      return started;
+    }
+
+    await db
+      .update(recordings)
+      .set({ status: 'recording', resourceId, sid, startedAt: new Date(), updatedAt: new Date() })
+      .where(eq(recordings.id, recording.id));
+
+    return stopRecording(recording.id, params.channelName);
+  } catch (error) {
+    console.error('Failed to start recording:', error);
+
+    const [failed] = await db
+      .update(recordings)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        updatedAt: new Date(),
+      })
+      .where(eq(recordings.id, recording.id))
+      .returning();
+
+    return failed;
+  }
+}
+
+/**
+ * Stop a running recorder and keep the files it uploaded. Only the caller
+ * that moves the row out of 'recording' talks to Agora. A recorder that is
+ * still starting is only marked; startRecording stops it once it has joined.
+ */
+async function stopRecording(recordingId: string, channelName: string): Promise<Recording | null> {
+  const [recording] = await db
+    .update(recordings)
+    .set({ status: 'stopping', updatedAt: new Date() })
+    .where(and(eq(recordings.id, recordingId), inArray(recordings.status, IN_PROGRESS)))
+    .returning();
+
+  if (!recording || !recording.resourceId || !recording.sid) {
+    return null;
+  }
+
+  try {
+    const { files } = await getRecordingBackend().stop({
+      channelName,
+      recorderUid: recording.recorderUid,
+      resourceId: recording.resourceId,
+      sid: recording.sid,
+    });
+
+    const storageKey = pickPlayableFile(files);
+
+    const [stopped] = await db
+      .update(recordings)
+      .set({
+        status: storageKey ? 'ready' : 'failed',
+        files,
+        storageKey,
+        error: storageKey ? null : 'The recorder did not upload a playable file',
+        endedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(recordings.id, recording.id))
+      .returning();
+
+    return stopped;
+  } catch (error) {
+    console.error('Failed to stop recording:', error);
+
+    const [failed] = await db
+      .update(recordings)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        endedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(recordings.id, recording.id))
+      .returning();
+
+    return failed;
+  }
+}
+
+function canRecordSession(session: ReadingSession): boolean {
+  return (
+    session.status === 'active' &&
+    session.type !== 'chat' &&
+    !!session.agoraChannelName &&
+    !!session.clientRecordingConsent &&
+    !!session.readerRecordingConsent
+  );
+}
+
+async function publishRecordingState(sessionId: string, state: SessionRecordingState): Promise<void> {
+  try {
+    await ablyService.publishSessionEvent(sessionId, formatSystemMessage('recording_update', state));
+  } catch (error) {
+    console.error('Failed to publish recording state:', error);
+  }
+}
+
+async function getSessionRecordingState(session: ReadingSession): Promise<SessionRecordingState> {
+  const active = await db.query.recordings.findFirst({
+    where: and(eq(recordings.sessionId, session.id), inArray(recordings.status, IN_PROGRESS)),
+  });
+
+  return {
+    clientConsent: !!session.clientRecordingConsent,
+    readerConsent: !!session.readerRecordingConsent,
+    isRecording: !!active,
+  };
+}
+
+/**
+ * Start recording a voice or video reading once both parties have agreed.
+ * Does nothing if consent is missing or a recorder is already running.
+ */
+export async function startSessionRecording(sessionId: string): Promise<Recording | null> {
+  const recording = await startRecording(async (tx) => {
+    const [session] = await tx
+      .select()
+      .from(readingSessions)
+      .where(eq(readingSessions.id, sessionId))
+      .for('update');
+
+    if (!session || !canRecordSession(session)) return null;
+
+    const [running] = await tx
+      .select({ id: recordings.id })
+      .from(recordings)
+      .where(and(eq(recordings.sessionId, session.id), inArray(recordings.status, IN_PROGRESS)));
+
+    if (running) return null;
+
+    return {
+      values: { sessionId: session.id, recorderUid: RECORDING_CONFIG.recorderUid },
+      params: {
+        channelName: session.agoraChannelName!,
+        channelType: 'communication',
+        audioOnly: session.type === 'voice',
+        fileNamePrefix: ['readings', session.id.replace(/-/g, '')],
+      },
+    };
+  });
+
+  if (recording?.status === 'recording') {
+    // Consent may have been withdrawn or the session ended while the recorder was joining
+    const session = await db.query.readingSessions.findFirst({
+      where: eq(readingSessions.id, sessionId),
+    });
+
+    if (!session || !canRecordSession(session)) {
+      return stopRecording(recording.id, session?.agoraChannelName || '');
+    }
+  }
+
+  return recording;
+}
+
+/**
+ * Stop any recorder running on a reading. Called when a party withdraws
+ * consent and when the session ends.
+ */
+export async function stopSessionRecording(sessionId: string): Promise<Recording[]> {
+  const session = await db.query.readingSessions.findFirst({
+    where: eq(readingSessions.id, sessionId),
+  });
+
+  if (!session?.agoraChannelName) {
+    return [];
+  }
+
+  const running = await db.query.recordings.findMany({
+    where: and(eq(recordings.sessionId, sessionId), inArray(recordings.status, IN_PROGRESS)),
+  });
+
+  const stopped: Recording[] = [];
+
+  for (const recording of running) {
+    const result = await stopRecording(recording.id, session.agoraChannelName);
+    if (result) stopped.push(result);
+  }
+
+  return stopped;
+}
+
+/**
+ * Record a participant's opt-in or opt-out. Recording starts as soon as both
+ * have opted in and stops the moment either opts out; what was already
+ * recorded is kept.
+ */
+export async function setRecordingConsent(
+  sessionId: string,
+  userId: string,
+  consent: boolean
+): Promise<SessionRecordingState> {
+  const session = await db.query.readingSessions.findFirst({
+    where: eq(readingSessions.id, sessionId),
+  });
+
+  if (!session || (session.clientId !== userId && session.readerId !== userId)) {
+    throw new Error('Session not found');
+  }
+
+  if (session.type === 'chat') {
+    throw new Error('Only voice and video readings can be recorded');
+  }
+
+  if (session.status !== 'active') {
+    throw new Error('Session is not active');
+  }
+
+  const [updated] = await db
+    .update(readingSessions)
+    .set(
+      session.clientId === userId
+        ? { clientRecordingConsent: consent, updatedAt: new Date() }
+        : { readerRecordingConsent: consent, updatedAt: new Date() }
+    )
+    .where(eq(readingSessions.id, session.id))
+    .returning();
+
+  if (consent) {
+    await startSessionRecording(session.id);
+  } else {
+    await stopSessionRecording(session.id);
+  }
+
+  const state = await getSessionRecordingState(updated);
+  await publishRecordingState(session.id, state);
+
+  return state;
+}
+
+/**
+ * Consent and recordings for a reading, for one of its participants
+ */
+export async function getSessionRecordings(sessionId: string, userId: string) {
+  const session = await db.query.readingSessions.findFirst({
+    where: eq(readingSessions.id, sessionId),
+  });
+
+  if (!session || (session.clientId !== userId && session.readerId !== userId)) {
+    throw new Error('Session not found');
+  }
+
+  const [state, sessionRecordings] = await Promise.all([
+    getSessionRecordingState(session),
+    db.query.recordings.findMany({
+      where: eq(recordings.sessionId, session.id),
+      columns: {
+        id: true,
+        status: true,
+        startedAt: true,
+        endedAt: true,
+      },
+      orderBy: [desc(recordings.createdAt)],
+    }),
+  ]);
+
+  return {
+    ...state,
+    recordings: sessionRecordings.map((recording) => ({
+      ...recording,
+      playbackUrl: recording.status === 'ready' ? getRecordingPlaybackPath(recording.id) : null,
+    })),
+  };
+}
+
+/**
+ * Point a stream's recordingUrl at its recording once the file is ready
+ */
+async function linkStreamRecording(streamId: string, recording: Recording | null): Promise<Recording | null> {
+  if (recording?.status === 'ready') {
+    await db
+      .update(liveStreams)
+      .set({ recordingUrl: getRecordingPlaybackPath(recording.id), updatedAt: new Date() })
+      .where(eq(liveStreams.id, streamId));
+  }
+
+  return recording;
+}
+
+/**
+ * Streams are always recorded from the moment they go live
+ */
+export async function startStreamRecording(streamId: string): Promise<Recording | null> {
+  const recording = await startRecording(async (tx) => {
+    const [stream] = await tx
+      .select()
+      .from(liveStreams)
+      .where(eq(liveStreams.id, streamId))
+      .for('update');
+
+    if (!stream || stream.status !== 'live' || !stream.agoraChannelName) return null;
+
+    const [running] = await tx
+      .select({ id: recordings.id })
+      .from(recordings)
+      .where(and(eq(recordings.streamId, stream.id), inArray(recordings.status, IN_PROGRESS)));
+
+    if (running) return null;
+
+    return {
+      values: { streamId: stream.id, recorderUid: RECORDING_CONFIG.recorderUid },
+      params: {
+        channelName: stream.agoraChannelName,
+        channelType: 'live',
+        audioOnly: false,
+        fileNamePrefix: ['streams', stream.id.replace(/-/g, '')],
+      },
+    };
+  });
+
+  if (recording?.status === 'recording') {
+    // The stream may have ended while the recorder was joining
+    const stream = await db.query.liveStreams.findFirst({
+      where: eq(liveStreams.id, streamId),
+    });
+
+    if (!stream || stream.status !== 'live') {
+      return stopStreamRecording(streamId);
+    }
+  }
+
+  // A recorder stopped as soon as it joined has already finished
+  return linkStreamRecording(streamId, recording);
+}
+
+/**
+ * Stop a stream's recorder and point the stream's recordingUrl at the result.
+ * A recorder still joining is stopped, and linked, by startStreamRecording.
+ */
+export async function stopStreamRecording(streamId: string): Promise<Recording | null> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, streamId),
+  });
+
+  if (!stream?.agoraChannelName) {
+    return null;
+  }
+
+  const running = await db.query.recordings.findFirst({
+    where: and(eq(recordings.streamId, streamId), inArray(recordings.status, IN_PROGRESS)),
+  });
+
+  if (!running) {
+    return null;
+  }
+
+  const recording = await stopRecording(running.id, stream.agoraChannelName);
+
+  return linkStreamRecording(streamId, recording);
+}
+
+/**
+ * Signed, short-lived URL for a finished recording. Readings are available
+ * to their two participants, streams to their host, and both to admins
+ * handling disputes.
+ */
+export async function getRecordingPlaybackUrl(
+  recordingId: string,
+  user: AuthUser
+): Promise<{ url: string; expiresAt: string }> {
+  const recording = await db.query.recordings.findFirst({
+    where: eq(recordings.id, recordingId),
+    with: {
+      session: {
+        columns: { clientId: true, readerId: true },
+      },
+      stream: {
+        columns: { readerId: true },
+      },
+    },
+  });
+
+  const canAccess =
+    !!recording &&
+    (hasPermission(user, 'manage_payments') ||
+      recording.session?.clientId === user.id ||
+      recording.session?.readerId === user.id ||
+      recording.stream?.readerId === user.id);
+
+  if (!recording || !canAccess) {
+    throw new Error('Recording not found');
+  }
+
+  if (recording.status !== 'ready' || !recording.storageKey) {
+    throw new Error('Recording is not ready');
+  }
+
+  const ttl = RECORDING_CONFIG.playbackUrlTtlSeconds;
+
+  return {
+    url: getRecordingBackend().getPlaybackUrl(recording.storageKey, ttl),
+    expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+  };
+}
@@ -0,0 +1,308 @@
+import { db } from '@/lib/db';
+import {
+  productReviews,
+  productReviewVotes,
+  products,
+  orders,
+  orderItems,
+  shipments,
+} from '@/lib/db/schema';
+import { eq, and, or, inArray, isNull, isNotNull, desc, sql } from 'drizzle-orm';
+import { notifyUser } from '@/lib/notifications';
+import type { AuthUser } from '@/lib/auth';
+import type { ProductReviewInput, UpdateProductReviewInput } from '@/lib/validations';
+
+type ProductReview = typeof productReviews.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export type ReviewSort = 'recent' | 'helpful';
+
+/**
+ * Whether the user has received this product on a paid order: the whole
+ * order was delivered, the parcel it was in arrived, or it's an item that
+ * doesn't ship and was handed over at payment
+ */
+export async function hasDeliveredPurchase(userId: string, productId: string): Promise<boolean> {
+  const [delivered] = await db
+    .select({ id: orderItems.id })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .leftJoin(shipments, eq(orderItems.shipmentId, shipments.id))
+    .where(
+      and(
+        eq(orders.userId, userId),
+        eq(orderItems.productId, productId),
+        or(
+          eq(orders.status, 'delivered'),
+          and(
+            inArray(orders.status, ['processing', 'shipped']),
+            or(
+              isNotNull(shipments.deliveredAt),
+              and(isNull(orderItems.shipmentId), isNotNull(orderItems.fulfilledAt))
+            )
+          )
+        )
+      )
+    )
+    .limit(1);
+
+  return !!delivered;
+}
+
+/**
+ * Recalculate a product's average rating and review count from its reviews
+ */
+export async function recomputeProductRating(executor: Executor, productId: string): Promise<void> {
+  const [stats] = await executor
+    .select({
+      average: sql<string>`coalesce(avg(${productReviews.rating}), 0)`,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(productReviews)
+    .where(eq(productReviews.productId, productId));
+
+  await executor
+    .update(products)
+    .set({
+      averageRating: parseFloat(stats.average).toFixed(2),
+      totalReviews: stats.count,
+      updatedAt: new Date(),
+    })
+    .where(eq(products.id, productId));
+}
+
+async function getReview(reviewId: string): Promise<ProductReview> {
+  const review = await db.query.productReviews.findFirst({
+    where: eq(productReviews.id, reviewId),
+  });
+
+  if (!review) {
+    throw new Error('Review not found');
+  }
+
+  return review;
+}
+
+/**
+ * A product's reviews with their authors. When a viewer is given, each
+ * review says whether they've voted it helpful.
+ */
+export async function listProductReviews(
+  productId: string,
+  options: { sort?: ReviewSort; limit?: number; offset?: number; viewerId?: string } = {}
+) {
+  const { sort = 'recent', limit = 20, offset = 0, viewerId } = options;
+
+  const reviews = await db.query.productReviews.findMany({
+    where: eq(productReviews.productId, productId),
+    with: {
+      user: {
+        columns: { id: true, firstName: true, lastName: true, profileImage: true },
+      },
+    },
+    orderBy: sort === 'helpful'
+      ? [desc(productReviews.isHelpful), desc(productReviews.createdAt)]
+      : [desc(productReviews.createdAt)],
+    limit,
+    offset,
+  });
+
+  let votedIds = new Set<string>();
+
+  if (viewerId && reviews.length > 0) {
+    const votes = await db
+      .select({ reviewId: productReviewVotes.reviewId })
+      .from(productReviewVotes)
+      .where(
+        and(
+          eq(productReviewVotes.userId, viewerId),
+          inArray(productReviewVotes.reviewId, reviews.map((review) => review.id))
+        )
+      );
+    votedIds = new Set(votes.map((vote) => vote.reviewId));
+  }
+
+  return reviews.map((review) => ({ ...review, votedHelpful: votedIds.has(review.id) }));
+}
+
+/**
+ * Review a product. A user gets one review per product; it's marked as a
+ * verified purchase when they've received the product.
+ */
+export async function createProductReview(userId: string, input: ProductReviewInput): Promise<ProductReview> {
+  const product = await db.query.products.findFirst({
+    where: eq(products.id, input.productId),
+  });
+
+  if (!product || !product.isActive) {
+    throw new Error('Product not found');
+  }
+
+  if (product.sellerId === userId) {
+    throw new Error('You cannot review your own product');
+  }
+
+  const existing = await db.query.productReviews.findFirst({
+    where: and(eq(productReviews.productId, product.id), eq(productReviews.userId, userId)),
+  });
+
+  if (existing) {
+    throw new Error('You have already reviewed this product');
+  }
+
+  const isVerified = await hasDeliveredPurchase(userId, product.id);
+
+  const review = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(productReviews)
+      .values({
+        productId: product.id,
+        userId,
+        rating: input.rating,
+        title: input.title,
+        content: input.content,
+        isVerified,
+      })
+      .returning();
+
+    await recomputeProductRating(tx, product.id);
+
+    return created;
+  });
+
+  try {
+    await notifyUser(product.sellerId, {
+      type: 'system',
+      title: 'New product review',
+      content: `${product.name} received a ${review.rating}-star review`,
+      data: { productId: product.id, reviewId: review.id },
+      actionUrl: '/shop',
+    });
+  } catch (error) {
+    console.error('Failed to notify seller of review:', error);
+  }
+
+  return review;
+}
+
+/**
+ * Edit the user's own review. Verification is checked again in case the
+ * product has arrived since it was written.
+ */
+export async function updateProductReview(
+  reviewId: string,
+  userId: string,
+  input: UpdateProductReviewInput
+): Promise<ProductReview> {
+  const review = await getReview(reviewId);
+
+  if (review.userId !== userId) {
+    throw new Error('Review not found');
+  }
+
+  const isVerified = review.isVerified || (await hasDeliveredPurchase(userId, review.productId));
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(productReviews)
+      .set({ ...input, isVerified, updatedAt: new Date() })
+      .where(eq(productReviews.id, review.id))
+      .returning();
+
+    if (input.rating !== undefined && input.rating !== review.rating) {
+      await recomputeProductRating(tx, review.productId);
+    }
+
+    return updated;
+  });
+}
+
+/**
+ * Remove a review. Authors can remove their own; admins can remove any.
+ */
+export async function deleteProductReview(reviewId: string, user: AuthUser): Promise<void> {
+  const review = await getReview(reviewId);
+
+  if (review.userId !== user.id && user.role !== 'admin') {
+    throw new Error('Review not found');
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(productReviewVotes).where(eq(productReviewVotes.reviewId, review.id));
+    await tx.delete(productReviews).where(eq(productReviews.id, review.id));
+    await recomputeProductRating(tx, review.productId);
+  });
+}
+
+/**
+ * Vote a review helpful, or take the vote back. Voting twice counts once.
+ * Returns the review's helpful count.
+ */
+export async function setHelpfulVote(reviewId: string, userId: string, helpful: boolean): Promise<number> {
+  const review = await getReview(reviewId);
+
+  if (review.userId === userId) {
+    throw new Error('You cannot vote on your own review');
+  }
+
+  return db.transaction(async (tx) => {
+    const changed = helpful
+      ? await tx
+          .insert(productReviewVotes)
+          .values({ reviewId: review.id, userId })
+          .onConflictDoNothing()
+          .returning()
+      : await tx
+          .delete(productReviewVotes)
+          .where(and(eq(productReviewVotes.reviewId, review.id), eq(productReviewVotes.userId, userId)))
+          .returning();
+
+    if (changed.length === 0) {
+      return review.isHelpful || 0;
+    }
+
+    const [updated] = await tx
+      .update(productReviews)
+      .set({ isHelpful: sql`${productReviews.isHelpful} + ${helpful ? 1 : -1}` })
+      .where(eq(productReviews.id, review.id))
+      .returning({ isHelpful: productReviews.isHelpful });
+
+    return updated.isHelpful || 0;
+  });
+}
+
+/**
+ * The seller's public reply to a review of their product. Replying again
+ * replaces the earlier reply.
+ */
+export async function respondToReview(reviewId: string, user: AuthUser, response: string): Promise<ProductReview> {
+  const review = await db.query.productReviews.findFirst({
+    where: eq(productReviews.id, reviewId),
+    with: { product: true },
+  });
+
+  if (!review || (review.product.sellerId !== user.id && user.role !== 'admin')) {
+    throw new Error('Review not found');
+  }
+
+  const [updated] = await db
+    .update(productReviews)
+    .set({ sellerResponse: response, sellerRespondedAt: new Date(), updatedAt: new Date() })
+    .where(eq(productReviews.id, review.id))
+    .returning();
+
+  try {
+    await notifyUser(review.userId, {
+      type: 'message',
+      title: 'The seller replied to your review',
+      content: `${review.product.name}: ${response.slice(0, 100)}`,
+      data: { productId: review.productId, reviewId: review.id },
+      actionUrl: '/shop',
+    });
+  } catch (error) {
+    console.error('Failed to notify reviewer of seller response:', error);
+  }
+
+  return updated;
+}
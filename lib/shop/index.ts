@@ -0,0 +1,525 @@
+import { db } from '@/lib/db';
+import {
+  cartItems,
+  products,
+  orders,
+  orderItems,
+  shipments,
+  clientBalances,
+  transactions,
+} from '@/lib/db/schema';
+import { eq, and, lt, asc, desc, inArray, sql } from 'drizzle-orm';
+import { stripe, createOrderPaymentIntent, triggerAutoReload } from '@/lib/stripe';
+import { markOrderPaid, markOrderRefunded, releaseOrder, notifyOrderPaid } from '@/lib/orders';
+import { withTrackingUrl } from '@/lib/fulfilment';
+import { notifyUser } from '@/lib/notifications';
+import type { AddToCartInput, CheckoutInput } from '@/lib/validations';
+
+type Product = typeof products.$inferSelect;
+type CartItem = typeof cartItems.$inferSelect;
+type Order = typeof orders.$inferSelect;
+type OrderItem = typeof orderItems.$inferSelect;
+type Shipment = typeof shipments.$inferSelect;
+
+export const SHOP_CONFIG = {
+  maxCartLines: 25,
+  taxRatePercentage: 8, // Flat sales tax on the order subtotal
+  shippingRatePerPound: 0.5, // Added to each product's flat shipping cost
+  unpaidOrderMinutes: 30, // Card orders still unpaid after this long are cancelled and their stock released
+} as const;
+
+export interface CartLine extends CartItem {
+  product: Product;
+}
+
+export interface OrderQuote {
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  requiresShipping: boolean;
+}
+
+export interface Cart {
+  items: CartLine[];
+  quote: OrderQuote;
+}
+
+export interface CheckoutResult {
+  order: Order & { items: OrderItem[] };
+  clientSecret: string | null;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Shipping for one line: the product's flat shipping cost plus a per-pound
+ * rate on the line's total weight. Products that don't ship cost nothing.
+ */
+function getLineShippingCents(product: Product, quantity: number): number {
+  if (!product.shippingRequired) return 0;
+
+  const weight = parseFloat(product.weight || '0');
+  return toCents(parseFloat(product.shippingCost || '0')) + toCents(weight * quantity * SHOP_CONFIG.shippingRatePerPound);
+}
+
+/**
+ * Price a set of lines. Tax is charged on the subtotal only.
+ */
+export function quoteOrder(lines: Array<{ product: Product; quantity: number }>): OrderQuote {
+  let subtotalCents = 0;
+  let shippingCents = 0;
+  let requiresShipping = false;
+
+  for (const { product, quantity } of lines) {
+    subtotalCents += toCents(parseFloat(product.price)) * quantity;
+    shippingCents += getLineShippingCents(product, quantity);
+    requiresShipping = requiresShipping || !!product.shippingRequired;
+  }
+
+  const taxCents = Math.round(subtotalCents * SHOP_CONFIG.taxRatePercentage / 100);
+
+  return {
+    subtotal: fromCents(subtotalCents),
+    shipping: fromCents(shippingCents),
+    tax: fromCents(taxCents),
+    total: fromCents(subtotalCents + shippingCents + taxCents),
+    requiresShipping,
+  };
+}
+
+function assertPurchasable(product: Product | undefined, userId: string, quantity: number): asserts product is Product {
+  if (!product || !product.isActive) {
+    throw new Error('Product not found');
+  }
+
+  if (product.sellerId === userId) {
+    throw new Error("You can't buy your own product");
+  }
+
+  if (product.inventory !== null && product.inventory < quantity) {
+    throw new Error(
+      product.inventory === 0
+        ? `${product.name} is out of stock`
+        : `Only ${product.inventory} of ${product.name} left in stock`
+    );
+  }
+}
+
+/**
+ * The user's cart with current prices. Products that were delisted since
+ * they were added are dropped from the cart.
+ */
+export async function getCart(userId: string): Promise<Cart> {
+  const rows = await db.query.cartItems.findMany({
+    where: eq(cartItems.userId, userId),
+    with: { product: true },
+    orderBy: [asc(cartItems.createdAt)],
+  });
+
+  const unavailable = rows.filter((row) => !row.product.isActive).map((row) => row.id);
+  if (unavailable.length > 0) {
+    await db.delete(cartItems).where(inArray(cartItems.id, unavailable));
+  }
+
+  const items = rows.filter((row) => row.product.isActive);
+
+  return { items, quote: quoteOrder(items) };
+}
+
+/**
+ * Add a product to the cart, on top of any quantity already there
+ */
+export async function addToCart(userId: string, input: AddToCartInput): Promise<Cart> {
+  const product = await db.query.products.findFirst({
+    where: eq(products.id, input.productId),
+  });
+
+  const existing = await db.query.cartItems.findFirst({
+    where: and(eq(cartItems.userId, userId), eq(cartItems.productId, input.productId)),
+  });
+
+  assertPurchasable(product, userId, (existing?.quantity || 0) + input.quantity);
+
+  if (!existing) {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(cartItems)
+      .where(eq(cartItems.userId, userId));
+
+    if (count >= SHOP_CONFIG.maxCartLines) {
+      throw new Error(`Your cart can hold up to ${SHOP_CONFIG.maxCartLines} products`);
+    }
+  }
+
+  await db
+    .insert(cartItems)
+    .values({ userId, productId: product.id, quantity: input.quantity })
+    .onConflictDoUpdate({
+      target: [cartItems.userId, cartItems.productId],
+      set: {
+        quantity: sql`${cartItems.quantity} + ${input.quantity}`,
+        updatedAt: new Date(),
+      },
+    });
+
+  return getCart(userId);
+}
+
+/**
+ * Set the quantity of a product already in the cart
+ */
+export async function updateCartItem(userId: string, productId: string, quantity: number): Promise<Cart> {
+  const product = await db.query.products.findFirst({
+    where: eq(products.id, productId),
+  });
+
+  assertPurchasable(product, userId, quantity);
+
+  const [updated] = await db
+    .update(cartItems)
+    .set({ quantity, updatedAt: new Date() })
+    .where(and(eq(cartItems.userId, userId), eq(cartItems.productId, productId)))
+    .returning();
+
+  if (!updated) {
+    throw new Error('Product is not in your cart');
+  }
+
+  return getCart(userId);
+}
+
+export async function removeFromCart(userId: string, productId: string): Promise<Cart> {
+  await db
+    .delete(cartItems)
+    .where(and(eq(cartItems.userId, userId), eq(cartItems.productId, productId)));
+
+  return getCart(userId);
+}
+
+export async function clearCart(userId: string): Promise<void> {
+  await db.delete(cartItems).where(eq(cartItems.userId, userId));
+}
+
+/**
+ * Turn the cart into an order. Stock is reserved as the order is created, so
+ * two buyers can't both get the last item. Wallet orders are paid in the same
+ * transaction; card orders stay pending until Stripe confirms the payment and
+ * are cancelled if that doesn't happen in time.
+ */
+export async function checkout(userId: string, input: CheckoutInput): Promise<CheckoutResult> {
+  const { order, cartItemIds } = await db.transaction(async (tx) => {
+    const lines = await tx
+      .select({ cartItem: cartItems, product: products })
+      .from(cartItems)
+      .innerJoin(products, eq(cartItems.productId, products.id))
+      .where(eq(cartItems.userId, userId))
+      .orderBy(asc(cartItems.createdAt));
+
+    if (lines.length === 0) {
+      throw new Error('Your cart is empty');
+    }
+
+    // Reserve stock. Products without tracked inventory match every time.
+    const reserved: Array<{ product: Product; quantity: number }> = [];
+    for (const { cartItem, product } of lines) {
+      assertPurchasable(product, userId, cartItem.quantity);
+
+      const [locked] = await tx
+        .update(products)
+        .set({ inventory: sql`${products.inventory} - ${cartItem.quantity}` })
+        .where(
+          and(
+            eq(products.id, product.id),
+            eq(products.isActive, true),
+            sql`(${products.inventory} is null or ${products.inventory} >= ${cartItem.quantity})`
+          )
+        )
+        .returning();
+
+      if (!locked) {
+        throw new Error(`${product.name} is out of stock`);
+      }
+
+      reserved.push({ product: locked, quantity: cartItem.quantity });
+    }
+
+    const quote = quoteOrder(reserved);
+
+    if (quote.requiresShipping && !input.shippingAddress) {
+      throw new Error('A shipping address is required for this order');
+    }
+
+    const [created] = await tx
+      .insert(orders)
+      .values({
+        userId,
+        status: 'pending',
+        subtotal: quote.subtotal.toFixed(2),
+        tax: quote.tax.toFixed(2),
+        shipping: quote.shipping.toFixed(2),
+        total: quote.total.toFixed(2),
+        paymentMethod: input.paymentMethod,
+        shippingAddress: quote.requiresShipping ? input.shippingAddress : null,
+        billingAddress: input.billingAddress,
+        notes: input.notes,
+      })
+      .returning();
+
+    await tx.insert(orderItems).values(
+      reserved.map(({ product, quantity }) => ({
+        orderId: created.id,
+        productId: product.id,
+        quantity,
+        unitPrice: product.price,
+        totalPrice: fromCents(toCents(parseFloat(product.price)) * quantity).toFixed(2),
+        shipping: fromCents(getLineShippingCents(product, quantity)).toFixed(2),
+      }))
+    );
+
+    const cartItemIds = lines.map(({ cartItem }) => cartItem.id);
+
+    if (input.paymentMethod === 'card') {
+      return { order: created, cartItemIds };
+    }
+
+    const [balance] = await tx
+      .select()
+      .from(clientBalances)
+      .where(eq(clientBalances.userId, userId))
+      .for('update');
+
+    if (!balance || toCents(parseFloat(balance.balance || '0')) < toCents(quote.total)) {
+      throw new Error('Insufficient balance');
+    }
+
+    await tx
+      .update(clientBalances)
+      .set({
+        balance: sql`${clientBalances.balance} - ${quote.total}`,
+        totalSpent: sql`${clientBalances.totalSpent} + ${quote.total}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(clientBalances.userId, userId));
+
+    await tx.insert(transactions).values({
+      userId,
+      orderId: created.id,
+      type: 'charge',
+      amount: quote.total.toFixed(2),
+      status: 'completed',
+      description: 'Shop order',
+    });
+
+    await tx.delete(cartItems).where(inArray(cartItems.id, cartItemIds));
+
+    const paid = await markOrderPaid(tx, created.id, 'balance');
+
+    return { order: paid!, cartItemIds };
+  });
+
+  let clientSecret: string | null = null;
+
+  if (input.paymentMethod === 'card') {
+    try {
+      const paymentIntent = await createOrderPaymentIntent(
+        userId,
+        order.id,
+        parseFloat(order.total),
+        input.paymentMethodId
+      );
+      clientSecret = paymentIntent.client_secret;
+    } catch (error) {
+      await releaseOrder(order.id);
+      throw error;
+    }
+
+    // The cart is kept until the card payment has been started
+    await db.delete(cartItems).where(inArray(cartItems.id, cartItemIds));
+  } else {
+    await notifyOrderPaid(order);
+
+    try {
+      await triggerAutoReload(userId);
+    } catch (error) {
+      console.error('Auto-reload failed after shop order:', error);
+    }
+  }
+
+  return { order: (await getOrder(order.id, userId))!, clientSecret };
+}
+
+export async function getOrder(
+  orderId: string,
+  userId: string
+): Promise<(Order & { items: OrderItem[]; shipments: Shipment[] }) | null> {
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, orderId), eq(orders.userId, userId)),
+    with: { items: true, shipments: true },
+  });
+
+  return order ?? null;
+}
+
+export async function listOrders(userId: string, limit: number = 20) {
+  const rows = await db.query.orders.findMany({
+    where: eq(orders.userId, userId),
+    with: {
+      items: {
+        with: {
+          product: {
+            columns: { id: true, name: true, type: true, images: true },
+          },
+        },
+      },
+      shipments: {
+        orderBy: [asc(shipments.shippedAt)],
+      },
+    },
+    orderBy: [desc(orders.createdAt)],
+    limit,
+  });
+
+  return rows.map((order) => ({ ...order, shipments: order.shipments.map(withTrackingUrl) }));
+}
+
+/**
+ * Stop the Stripe payment for an unpaid order. Returns false when the
+ * payment already went through, in which case the order must not be released.
+ */
+async function cancelOrderPayment(order: Order): Promise<boolean> {
+  if (!order.stripePaymentIntentId) {
+    return true;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+
+  if (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing') {
+    return false;
+  }
+
+  if (paymentIntent.status !== 'canceled') {
+    await stripe.paymentIntents.cancel(paymentIntent.id);
+  }
+
+  return true;
+}
+
+/**
+ * Cancel an order the buyer hasn't paid for yet
+ */
+export async function cancelOrder(orderId: string, userId: string): Promise<Order> {
+  const order = await getOrder(orderId, userId);
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (order.status !== 'pending') {
+    throw new Error('Only unpaid orders can be cancelled');
+  }
+
+  if (!(await cancelOrderPayment(order))) {
+    throw new Error('This order has already been paid');
+  }
+
+  const cancelled = await releaseOrder(order.id);
+
+  if (!cancelled) {
+    throw new Error('Only unpaid orders can be cancelled');
+  }
+
+  return cancelled;
+}
+
+/**
+ * Refund a paid order in full, to the card it was paid with or to the wallet
+ */
+export async function refundOrder(orderId: string): Promise<Order> {
+  const order = await db.query.orders.findFirst({
+    where: eq(orders.id, orderId),
+  });
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (order.status !== 'processing' && order.status !== 'shipped' && order.status !== 'delivered') {
+    throw new Error('Only paid orders can be refunded');
+  }
+
+  let stripeRefundId: string | undefined;
+
+  if (order.paymentMethod === 'card') {
+    if (!order.stripePaymentIntentId) {
+      throw new Error('Order is missing its Stripe payment');
+    }
+
+    // Keyed on the order so a retried request can't refund twice
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: order.stripePaymentIntentId,
+        reason: 'requested_by_customer',
+        metadata: { orderId: order.id },
+      },
+      { idempotencyKey: `order-refund-${order.id}` }
+    );
+    stripeRefundId = refund.id;
+  }
+
+  const refunded = await markOrderRefunded(order.id, {
+    refundTo: order.paymentMethod === 'card' ? 'card' : 'balance',
+    reason: 'refund',
+    stripeRefundId,
+  });
+
+  if (!refunded) {
+    throw new Error('Only paid orders can be refunded');
+  }
+
+  return refunded;
+}
+
+/**
+ * Cancel card orders that were never paid so their stock goes back on sale.
+ * Returns the ids of the orders cancelled.
+ */
+export async function expireUnpaidOrders(now: Date = new Date()): Promise<string[]> {
+  const cutoff = new Date(now.getTime() - SHOP_CONFIG.unpaidOrderMinutes * 60 * 1000);
+
+  const stale = await db.query.orders.findMany({
+    where: and(eq(orders.status, 'pending'), lt(orders.createdAt, cutoff)),
+  });
+
+  const expired: string[] = [];
+
+  for (const order of stale) {
+    try {
+      if (!(await cancelOrderPayment(order))) {
+        continue;
+      }
+
+      if (await releaseOrder(order.id)) {
+        expired.push(order.id);
+
+        await notifyUser(order.userId, {
+          type: 'payment',
+          title: 'Order cancelled',
+          content: `Your order of $${order.total} was cancelled because payment didn't arrive in time`,
+          data: { orderId: order.id },
+          actionUrl: '/shop/orders',
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to expire unpaid order ${order.id}:`, error);
+    }
+  }
+
+  return expired;
+}
@@ -0,0 +1,1013 @@
+import { db } from '@/lib/db';
+import {
+  liveStreams,
+  streamViewers,
+  streamViewerSamples,
+  streamChatMessages,
+  streamLikes,
+  streamRsvps,
+  streamTickets,
+  userFavorites,
+  virtualGifts,
+  readingSessions,
+  users,
+} from '@/lib/db/schema';
+import { eq, and, inArray, isNull, isNotNull, gt, gte, lte, asc, desc, sql } from 'drizzle-orm';
+import { startStreamRecording, stopStreamRecording } from '@/lib/recordings';
+import { refundStreamTickets, getStreamAccess, requiresTicket } from '@/lib/tickets';
+import { processVirtualGiftPayment, PLATFORM_FEE_PERCENTAGE } from '@/lib/stripe';
+import { ablyService, formatSystemMessage, ChannelNames, ChatMessage } from '@/lib/ably';
+import { hasPermission, type AuthUser } from '@/lib/auth';
+import { notifyUser } from '@/lib/notifications';
+import { generateChannelName, formatDateInTimeZone } from '@/lib/utils';
+import type {
+  CreateLiveStreamInput,
+  SendStreamChatInput,
+  SendStreamGiftInput,
+} from '@/lib/validations';
+
+type LiveStream = typeof liveStreams.$inferSelect;
+type StreamChatMessage = typeof streamChatMessages.$inferSelect;
+type VirtualGift = Awaited<ReturnType<typeof processVirtualGiftPayment>>;
+
+export const STREAM_SCHEDULE_CONFIG = {
+  minLeadMinutes: 15, // A stream can't be scheduled sooner than this
+  maxDaysAhead: 60,
+  reminderMinutesBefore: [24 * 60, 15],
+} as const;
+
+export const STREAM_VIEWER_CONFIG = {
+  sampleIntervalSeconds: 60, // Timeline resolution while the count holds steady
+  conversionWindowHours: 24, // Readings booked this long after a stream count as conversions
+};
+
+export interface StreamReport {
+  streamId: string;
+  title: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  durationSeconds: number;
+  peakViewers: number;
+  uniqueViewers: number;
+  averageWatchTimeSeconds: number;
+  likes: number;
+  timeline: Array<{ at: string; viewers: number }>;
+  gifts: { count: number; revenue: number; earnings: number };
+  tickets: { sold: number; revenue: number };
+  conversions: { viewers: number; readings: number; rate: number; revenue: number };
+}
+
+export const STREAM_CHAT_CONFIG = {
+  rateLimit: 5, // Messages per window per viewer
+  rateWindowMs: 10 * 1000,
+  historyLimit: 50,
+};
+
+// Links and contact details are how viewers get pulled off-platform, so they
+// never make it into stream chat
+const BLOCKED_CHAT_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  {
+    pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i,
+    reason: 'Email addresses are not allowed in live chat',
+  },
+  {
+    pattern: /https?:\/\/|www\.|\b[a-z0-9-]+\.(com|net|org|io|me|co|ly|gg)\b/i,
+    reason: 'Links are not allowed in live chat',
+  },
+  {
+    pattern: /(\+?\d[\s().-]*){7,}/,
+    reason: 'Phone numbers are not allowed in live chat',
+  },
+];
+
+/**
+ * Close out everyone still counted as watching the given streams, adding the
+ * time since they joined to their watch time
+ */
+function watchTimeUntil(now: Date) {
+  return sql`${streamViewers.totalWatchTime} + greatest(0, extract(epoch from (${now} - ${streamViewers.joinedAt}))::int)`;
+}
+
+export async function closeStreamViewers(streamIds: string[], now: Date = new Date()): Promise<void> {
+  if (streamIds.length === 0) return;
+
+  await db
+    .update(streamViewers)
+    .set({
+      leftAt: now,
+      totalWatchTime: watchTimeUntil(now),
+    })
+    .where(
+      and(
+        inArray(streamViewers.streamId, streamIds),
+        isNull(streamViewers.leftAt)
+      )
+    );
+}
+
+/**
+ * Take a scheduled stream live and start recording it
+ */
+export async function startLiveStream(streamId: string, readerId: string): Promise<LiveStream> {
+  const [stream] = await db
+    .update(liveStreams)
+    .set({ status: 'live', startedAt: new Date(), updatedAt: new Date() })
+    .where(
+      and(
+        eq(liveStreams.id, streamId),
+        eq(liveStreams.readerId, readerId),
+        eq(liveStreams.status, 'scheduled')
+      )
+    )
+    .returning();
+
+  if (!stream) {
+    throw new Error('Stream not found or already started');
+  }
+
+  try {
+    await startStreamRecording(stream.id);
+  } catch (error) {
+    console.error('Failed to start stream recording:', error);
+  }
+
+  await notifyStreamAudience(stream, await getStreamRsvpIds(stream.id), {
+    title: 'Stream is live',
+    content: `"${stream.title}" has started. Join now!`,
+  });
+
+  return stream;
+}
+
+/**
+ * Stop streams that have already been marked ended: close out viewers and
+ * stop their recorders. Shared by the host ending a stream and the sweep.
+ */
+export async function finalizeEndedStreams(streamIds: string[], now: Date = new Date()): Promise<void> {
+  await closeStreamViewers(streamIds, now);
+
+  for (const streamId of streamIds) {
+    try {
+      await stopStreamRecording(streamId);
+    } catch (error) {
+      console.error('Failed to stop stream recording:', error);
+    }
+  }
+}
+
+/**
+ * End a live stream for its host
+ */
+export async function endLiveStream(streamId: string, readerId: string): Promise<LiveStream> {
+  const now = new Date();
+
+  const [stream] = await db
+    .update(liveStreams)
+    .set({ status: 'ended', endedAt: now, viewerCount: 0, updatedAt: now })
+    .where(
+      and(
+        eq(liveStreams.id, streamId),
+        eq(liveStreams.readerId, readerId),
+        eq(liveStreams.status, 'live')
+      )
+    )
+    .returning();
+
+  if (!stream) {
+    throw new Error('Stream not found or not live');
+  }
+
+  await finalizeEndedStreams([stream.id], now);
+
+  // Pick up the recording URL set when the recorder stopped
+  const ended = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, stream.id),
+  });
+
+  return ended || stream;
+}
+
+/**
+ * Cancel a scheduled or live stream for its host. Everyone who bought a
+ * ticket gets their money back.
+ */
+export async function cancelLiveStream(streamId: string, readerId: string): Promise<LiveStream> {
+  const now = new Date();
+
+  const [stream] = await db
+    .update(liveStreams)
+    .set({ status: 'cancelled', endedAt: now, viewerCount: 0, updatedAt: now })
+    .where(
+      and(
+        eq(liveStreams.id, streamId),
+        eq(liveStreams.readerId, readerId),
+        inArray(liveStreams.status, ['scheduled', 'live'])
+      )
+    )
+    .returning();
+
+  if (!stream) {
+    throw new Error('Stream not found or already over');
+  }
+
+  // Nothing to close out if it never went live, so this is a no-op then
+  await finalizeEndedStreams([stream.id], now);
+
+  await refundStreamTickets(stream.id);
+
+  // Ticket holders already heard about it with their refund
+  const ticketHolders = await db
+    .select({ userId: streamTickets.userId })
+    .from(streamTickets)
+    .where(eq(streamTickets.streamId, stream.id));
+  const refunded = new Set(ticketHolders.map((holder) => holder.userId));
+  const rsvpIds = await getStreamRsvpIds(stream.id);
+
+  await notifyStreamAudience(stream, rsvpIds.filter((userId) => !refunded.has(userId)), {
+    title: 'Stream cancelled',
+    content: `"${stream.title}" was cancelled.`,
+  });
+
+  return stream;
+}
+
+/**
+ * Load a stream the user is allowed to watch: the host, anyone on a free
+ * public stream, or a ticket holder
+ */
+async function getWatchableStream(streamId: string, userId: string): Promise<LiveStream> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, streamId),
+  });
+
+  if (!stream) {
+    throw new Error('Stream not found');
+  }
+
+  const access = await getStreamAccess(stream, userId);
+  if (!access.hasAccess) {
+    throw new Error('A ticket is required to watch this stream');
+  }
+
+  return stream;
+}
+
+async function getChatSender(stream: LiveStream, userId: string) {
+  const sender = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, firstName: true, username: true, profileImage: true },
+    with: {
+      readerProfile: {
+        columns: { displayName: true },
+      },
+    },
+  });
+
+  const isHost = stream.readerId === userId;
+
+  return {
+    name: (isHost && sender?.readerProfile?.displayName) || sender?.firstName || sender?.username || 'Anonymous',
+    avatar: sender?.profileImage ?? undefined,
+    isHost,
+  };
+}
+
+/**
+ * Reject chat that breaks the rules, returning the message to store
+ */
+export function moderateChatContent(content: string): string {
+  const cleaned = content.replace(/\s+/g, ' ').trim();
+
+  if (!cleaned) {
+    throw new Error('Message cannot be empty');
+  }
+
+  for (const { pattern, reason } of BLOCKED_CHAT_PATTERNS) {
+    if (pattern.test(cleaned)) {
+      throw new Error(reason);
+    }
+  }
+
+  return cleaned;
+}
+
+/**
+ * Store a chat message on a live stream and relay it to viewers
+ */
+export async function sendStreamChatMessage(
+  streamId: string,
+  senderId: string,
+  input: SendStreamChatInput
+): Promise<StreamChatMessage> {
+  const stream = await getWatchableStream(streamId, senderId);
+
+  if (stream.status !== 'live') {
+    throw new Error('Stream is not live');
+  }
+
+  const content = moderateChatContent(input.content);
+
+  const [message] = await db
+    .insert(streamChatMessages)
+    .values({ streamId: stream.id, senderId, content })
+    .returning();
+
+  try {
+    const sender = await getChatSender(stream, senderId);
+
+    const chatMessage: ChatMessage = {
+      id: message.id,
+      type: 'text',
+      content: message.content,
+      senderId,
+      senderName: sender.name,
+      senderAvatar: sender.avatar,
+      timestamp: (message.createdAt || new Date()).toISOString(),
+      metadata: { isReader: sender.isHost },
+    };
+
+    await ablyService.publishStreamMessage(stream.id, chatMessage);
+  } catch (error) {
+    console.error('Failed to publish stream chat message:', error);
+  }
+
+  return message;
+}
+
+/**
+ * The most recent visible chat on a stream, oldest first
+ */
+export async function getStreamChatMessages(streamId: string, userId: string) {
+  const stream = await getWatchableStream(streamId, userId);
+
+  const messages = await db.query.streamChatMessages.findMany({
+    where: and(
+      eq(streamChatMessages.streamId, stream.id),
+      eq(streamChatMessages.isHidden, false)
+    ),
+    orderBy: [desc(streamChatMessages.createdAt)],
+    limit: STREAM_CHAT_CONFIG.historyLimit,
+    with: {
+      sender: {
+        columns: { id: true, firstName: true, username: true, profileImage: true },
+      },
+    },
+  });
+
+  return messages.reverse();
+}
+
+/**
+ * Hide a chat message. The host can moderate their own stream's chat, and
+ * admins can moderate any stream.
+ */
+export async function removeStreamChatMessage(
+  streamId: string,
+  messageId: string,
+  user: AuthUser,
+  reason?: string
+): Promise<StreamChatMessage> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, streamId),
+  });
+
+  if (!stream || (stream.readerId !== user.id && !hasPermission(user, 'moderate_content'))) {
+    throw new Error('Stream not found');
+  }
+
+  const [message] = await db
+    .update(streamChatMessages)
+    .set({
+      isHidden: true,
+      moderatedBy: user.id,
+      moderatedAt: new Date(),
+      moderationReason: reason,
+    })
+    .where(
+      and(
+        eq(streamChatMessages.id, messageId),
+        eq(streamChatMessages.streamId, stream.id),
+        eq(streamChatMessages.isHidden, false)
+      )
+    )
+    .returning();
+
+  if (!message) {
+    throw new Error('Message not found');
+  }
+
+  try {
+    await ablyService.publishStreamEvent(
+      stream.id,
+      formatSystemMessage('message_removed', { messageId: message.id })
+    );
+  } catch (error) {
+    console.error('Failed to publish chat removal:', error);
+  }
+
+  return message;
+}
+
+/**
+ * Whether the user has liked a stream, and its running like count
+ */
+export async function getStreamLike(
+  streamId: string,
+  userId: string
+): Promise<{ liked: boolean; likeCount: number }> {
+  const stream = await getWatchableStream(streamId, userId);
+
+  const like = await db.query.streamLikes.findFirst({
+    where: and(eq(streamLikes.streamId, stream.id), eq(streamLikes.userId, userId)),
+  });
+
+  return { liked: !!like, likeCount: stream.likeCount || 0 };
+}
+
+/**
+ * Like or unlike a stream. Each viewer counts once no matter how often they
+ * tap, so the counter only moves when the like row is actually added or
+ * removed.
+ */
+export async function setStreamLike(
+  streamId: string,
+  userId: string,
+  liked: boolean
+): Promise<{ liked: boolean; likeCount: number }> {
+  const stream = await getWatchableStream(streamId, userId);
+
+  const likeCount = await db.transaction(async (tx) => {
+    const changed = liked
+      ? await tx
+          .insert(streamLikes)
+          .values({ streamId: stream.id, userId })
+          .onConflictDoNothing()
+          .returning({ id: streamLikes.id })
+      : await tx
+          .delete(streamLikes)
+          .where(and(eq(streamLikes.streamId, stream.id), eq(streamLikes.userId, userId)))
+          .returning({ id: streamLikes.id });
+
+    if (changed.length === 0) {
+      return stream.likeCount || 0;
+    }
+
+    const [updated] = await tx
+      .update(liveStreams)
+      .set({
+        likeCount: liked
+          ? sql`${liveStreams.likeCount} + 1`
+          : sql`greatest(0, ${liveStreams.likeCount} - 1)`,
+      })
+      .where(eq(liveStreams.id, stream.id))
+      .returning({ likeCount: liveStreams.likeCount });
+
+    return updated?.likeCount || 0;
+  });
+
+  if (stream.status === 'live') {
+    try {
+      await ablyService.publishStreamEvent(
+        stream.id,
+        formatSystemMessage('like_update', { likeCount })
+      );
+    } catch (error) {
+      console.error('Failed to publish like count:', error);
+    }
+  }
+
+  return { liked, likeCount };
+}
+
+/**
+ * Send a gift to the host of a live stream, paid from the viewer's balance
+ */
+export async function sendStreamGift(
+  streamId: string,
+  senderId: string,
+  input: SendStreamGiftInput
+): Promise<VirtualGift> {
+  const stream = await getWatchableStream(streamId, senderId);
+
+  if (stream.status !== 'live') {
+    throw new Error('Stream is not live');
+  }
+
+  if (stream.readerId === senderId) {
+    throw new Error("You can't send a gift to yourself");
+  }
+
+  const message = input.message ? moderateChatContent(input.message) : undefined;
+
+  const gift = await processVirtualGiftPayment(
+    senderId,
+    stream.readerId,
+    input.type,
+    input.quantity,
+    stream.id,
+    undefined,
+    message
+  );
+
+  try {
+    const sender = await getChatSender(stream, senderId);
+
+    await ablyService.publishStreamEvent(
+      stream.id,
+      formatSystemMessage('gift_sent', {
+        giftId: gift.id,
+        senderId,
+        senderName: sender.name,
+        senderAvatar: sender.avatar,
+        type: gift.type,
+        quantity: gift.quantity,
+        totalValue: parseFloat(gift.totalValue),
+        message: gift.message,
+      })
+    );
+  } catch (error) {
+    console.error('Failed to publish gift:', error);
+  }
+
+  return gift;
+}
+
+/**
+ * Bring a live stream's viewer rows in line with who is actually on its
+ * Ably channel: open a row for everyone who joined, close the rows of
+ * everyone who left, and record the count. Called when viewers join or
+ * leave, and by a cron for departures nobody reported.
+ */
+export async function syncStreamViewers(
+  streamId: string
+): Promise<{ viewerCount: number; maxViewers: number } | null> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, streamId),
+  });
+
+  if (!stream || stream.status !== 'live') {
+    return null;
+  }
+
+  const members = await ablyService.getPresence(ChannelNames.liveStream(stream.id));
+  // Token auth pins each connection's clientId to the user id. The host
+  // isn't a viewer, and on ticketed streams only ticket holders count.
+  let present = new Set(
+    members
+      .map((member) => member.clientId)
+      .filter((clientId): clientId is string => !!clientId && clientId !== stream.readerId)
+  );
+
+  if (requiresTicket(stream)) {
+    const holders = await db
+      .select({ userId: streamTickets.userId })
+      .from(streamTickets)
+      .where(and(eq(streamTickets.streamId, stream.id), eq(streamTickets.status, 'active')));
+    const holderIds = new Set(holders.map((holder) => holder.userId));
+
+    present = new Set(Array.from(present).filter((userId) => holderIds.has(userId)));
+  }
+
+  const now = new Date();
+
+  const result = await db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(liveStreams)
+      .where(and(eq(liveStreams.id, stream.id), eq(liveStreams.status, 'live')))
+      .for('update');
+
+    if (!locked) return null;
+
+    const open = await tx
+      .select({ id: streamViewers.id, userId: streamViewers.userId })
+      .from(streamViewers)
+      .where(and(eq(streamViewers.streamId, stream.id), isNull(streamViewers.leftAt)));
+
+    const openUserIds = new Set(open.map((viewer) => viewer.userId));
+    const joined = Array.from(present).filter((userId) => !openUserIds.has(userId));
+    const left = open.filter((viewer) => !present.has(viewer.userId)).map((viewer) => viewer.id);
+
+    if (joined.length > 0) {
+      await tx
+        .insert(streamViewers)
+        .values(joined.map((userId) => ({ streamId: stream.id, userId, joinedAt: now })));
+    }
+
+    if (left.length > 0) {
+      await tx
+        .update(streamViewers)
+        .set({ leftAt: now, totalWatchTime: watchTimeUntil(now) })
+        .where(inArray(streamViewers.id, left));
+    }
+
+    const viewerCount = present.size;
+    const maxViewers = Math.max(locked.maxViewers || 0, viewerCount);
+    const changed = viewerCount !== (locked.viewerCount || 0);
+
+    await tx
+      .update(liveStreams)
+      .set({ viewerCount, maxViewers })
+      .where(eq(liveStreams.id, stream.id));
+
+    const [lastSample] = await tx
+      .select({ createdAt: streamViewerSamples.createdAt })
+      .from(streamViewerSamples)
+      .where(eq(streamViewerSamples.streamId, stream.id))
+      .orderBy(desc(streamViewerSamples.createdAt))
+      .limit(1);
+
+    const sampleDue =
+      !lastSample?.createdAt ||
+      now.getTime() - lastSample.createdAt.getTime() >= STREAM_VIEWER_CONFIG.sampleIntervalSeconds * 1000;
+
+    if (changed || sampleDue) {
+      await tx.insert(streamViewerSamples).values({ streamId: stream.id, viewerCount, createdAt: now });
+    }
+
+    return { viewerCount, maxViewers, changed };
+  });
+
+  if (!result) return null;
+
+  if (result.changed) {
+    try {
+      await ablyService.publishStreamEvent(
+        stream.id,
+        formatSystemMessage('viewer_count', {
+          viewerCount: result.viewerCount,
+          maxViewers: result.maxViewers,
+        })
+      );
+    } catch (error) {
+      console.error('Failed to publish viewer count:', error);
+    }
+  }
+
+  return { viewerCount: result.viewerCount, maxViewers: result.maxViewers };
+}
+
+/**
+ * Run syncStreamViewers over every live stream. Returns how many synced.
+ */
+export async function syncLiveStreamViewers(): Promise<number> {
+  const live = await db
+    .select({ id: liveStreams.id })
+    .from(liveStreams)
+    .where(eq(liveStreams.status, 'live'));
+
+  let synced = 0;
+
+  for (const { id } of live) {
+    try {
+      if (await syncStreamViewers(id)) {
+        synced++;
+      }
+    } catch (error) {
+      console.error(`Failed to sync viewers for stream ${id}:`, error);
+    }
+  }
+
+  return synced;
+}
+
+async function buildStreamReport(stream: LiveStream): Promise<StreamReport> {
+  const endedAt = stream.endedAt || new Date();
+  const startedAt = stream.startedAt || stream.createdAt || endedAt;
+  const conversionEndsAt = new Date(
+    endedAt.getTime() + STREAM_VIEWER_CONFIG.conversionWindowHours * 60 * 60 * 1000
+  );
+
+  const [viewers, samples, [gifts], [tickets]] = await Promise.all([
+    db
+      .select({
+        userId: streamViewers.userId,
+        watchTime: sql<string>`coalesce(sum(${streamViewers.totalWatchTime}), 0)`,
+      })
+      .from(streamViewers)
+      .where(eq(streamViewers.streamId, stream.id))
+      .groupBy(streamViewers.userId),
+    db
+      .select()
+      .from(streamViewerSamples)
+      .where(eq(streamViewerSamples.streamId, stream.id))
+      .orderBy(asc(streamViewerSamples.createdAt)),
+    db
+      .select({
+        count: sql<string>`count(*)`,
+        revenue: sql<string>`coalesce(sum(${virtualGifts.totalValue}), 0)`,
+      })
+      .from(virtualGifts)
+      .where(eq(virtualGifts.streamId, stream.id)),
+    db
+      .select({
+        count: sql<string>`count(*)`,
+        revenue: sql<string>`coalesce(sum(${streamTickets.price}), 0)`,
+      })
+      .from(streamTickets)
+      .where(and(eq(streamTickets.streamId, stream.id), eq(streamTickets.status, 'active'))),
+  ]);
+
+  const viewerIds = viewers.map((viewer) => viewer.userId);
+  const totalWatchTime = viewers.reduce((sum, viewer) => sum + parseInt(viewer.watchTime, 10), 0);
+
+  // A viewer converts when they start a paid reading with the host during
+  // the stream or shortly after it
+  let conversions = { viewers: 0, readings: 0, revenue: 0 };
+  if (viewerIds.length > 0) {
+    const [converted] = await db
+      .select({
+        viewers: sql<string>`count(distinct ${readingSessions.clientId})`,
+        readings: sql<string>`count(*)`,
+        revenue: sql<string>`coalesce(sum(${readingSessions.totalCost}), 0)`,
+      })
+      .from(readingSessions)
+      .where(
+        and(
+          eq(readingSessions.readerId, stream.readerId),
+          inArray(readingSessions.clientId, viewerIds),
+          isNotNull(readingSessions.startedAt),
+          gte(readingSessions.createdAt, startedAt),
+          lte(readingSessions.createdAt, conversionEndsAt)
+        )
+      );
+
+    conversions = {
+      viewers: parseInt(converted.viewers, 10),
+      readings: parseInt(converted.readings, 10),
+      revenue: parseFloat(converted.revenue),
+    };
+  }
+
+  const giftRevenue = parseFloat(gifts.revenue);
+
+  return {
+    streamId: stream.id,
+    title: stream.title,
+    startedAt: stream.startedAt?.toISOString() ?? null,
+    endedAt: stream.endedAt?.toISOString() ?? null,
+    durationSeconds: Math.max(0, Math.floor((endedAt.getTime() - startedAt.getTime()) / 1000)),
+    peakViewers: stream.maxViewers || 0,
+    uniqueViewers: viewerIds.length,
+    averageWatchTimeSeconds: viewerIds.length > 0 ? Math.round(totalWatchTime / viewerIds.length) : 0,
+    likes: stream.likeCount || 0,
+    timeline: samples.map((sample) => ({
+      at: (sample.createdAt || startedAt).toISOString(),
+      viewers: sample.viewerCount,
+    })),
+    gifts: {
+      count: parseInt(gifts.count, 10),
+      revenue: giftRevenue,
+      earnings: Math.round(giftRevenue * (100 - PLATFORM_FEE_PERCENTAGE)) / 100,
+    },
+    tickets: {
+      sold: parseInt(tickets.count, 10),
+      revenue: parseFloat(tickets.revenue),
+    },
+    conversions: {
+      ...conversions,
+      rate: viewerIds.length > 0 ? Math.round((conversions.viewers / viewerIds.length) * 1000) / 10 : 0,
+    },
+  };
+}
+
+/**
+ * Post-stream report for the host: audience over time, watch time, gift
+ * revenue and how many viewers went on to book a reading
+ */
+export async function getStreamReport(streamId: string, readerId: string): Promise<StreamReport> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: and(eq(liveStreams.id, streamId), eq(liveStreams.readerId, readerId)),
+  });
+
+  if (!stream || !stream.startedAt) {
+    throw new Error('Stream not found');
+  }
+
+  return buildStreamReport(stream);
+}
+
+/**
+ * Reports for a reader's most recently ended streams, newest first
+ */
+export async function listStreamReports(readerId: string, limit: number = 5): Promise<StreamReport[]> {
+  const streams = await db.query.liveStreams.findMany({
+    where: and(
+      eq(liveStreams.readerId, readerId),
+      eq(liveStreams.status, 'ended'),
+      isNotNull(liveStreams.startedAt)
+    ),
+    orderBy: [desc(liveStreams.endedAt)],
+    limit,
+  });
+
+  return Promise.all(streams.map(buildStreamReport));
+}
+
+/**
+ * Create a stream for a reader. With a start time it is announced to
+ * followers ahead of time; without one the reader can go live right away.
+ */
+export async function scheduleLiveStream(
+  readerId: string,
+  input: CreateLiveStreamInput
+): Promise<LiveStream> {
+  let scheduledAt: Date | null = null;
+
+  if (input.scheduledAt) {
+    scheduledAt = new Date(input.scheduledAt);
+    const leadMinutes = (scheduledAt.getTime() - Date.now()) / (60 * 1000);
+
+    if (leadMinutes < STREAM_SCHEDULE_CONFIG.minLeadMinutes) {
+      throw new Error(`Streams must be scheduled at least ${STREAM_SCHEDULE_CONFIG.minLeadMinutes} minutes ahead`);
+    }
+
+    if (leadMinutes > STREAM_SCHEDULE_CONFIG.maxDaysAhead * 24 * 60) {
+      throw new Error(`Streams can be scheduled at most ${STREAM_SCHEDULE_CONFIG.maxDaysAhead} days ahead`);
+    }
+  }
+
+  const [stream] = await db
+    .insert(liveStreams)
+    .values({
+      readerId,
+      title: input.title,
+      description: input.description,
+      scheduledAt,
+      status: 'scheduled',
+      // Tokens are issued per user by /api/agora/token, not stored on the stream
+      agoraChannelName: generateChannelName('stream', readerId),
+      isPrivate: input.isPrivate,
+      accessPrice: input.accessPrice ? input.accessPrice.toFixed(2) : null,
+      tags: input.tags,
+      thumbnail: input.thumbnail,
+      remindersSent: [],
+    })
+    .returning();
+
+  return stream;
+}
+
+async function getReaderFollowerIds(readerId: string): Promise<string[]> {
+  const followers = await db
+    .select({ userId: userFavorites.userId })
+    .from(userFavorites)
+    .where(and(eq(userFavorites.targetType, 'reader'), eq(userFavorites.targetId, readerId)));
+
+  return followers.map((follower) => follower.userId);
+}
+
+async function getStreamRsvpIds(streamId: string): Promise<string[]> {
+  const rsvps = await db
+    .select({ userId: streamRsvps.userId })
+    .from(streamRsvps)
+    .where(eq(streamRsvps.streamId, streamId));
+
+  return rsvps.map((rsvp) => rsvp.userId);
+}
+
+async function notifyStreamAudience(
+  stream: LiveStream,
+  userIds: string[],
+  message: { title: string; content: string | ((timezone: string) => string) }
+): Promise<number> {
+  const recipients = Array.from(new Set(userIds)).filter((userId) => userId !== stream.readerId);
+  if (recipients.length === 0) return 0;
+
+  const timezones = new Map<string, string>();
+  if (typeof message.content === 'function') {
+    const rows = await db
+      .select({ id: users.id, timezone: users.timezone })
+      .from(users)
+      .where(inArray(users.id, recipients));
+    rows.forEach((row) => timezones.set(row.id, row.timezone || 'UTC'));
+  }
+
+  let sent = 0;
+
+  for (const userId of recipients) {
+    try {
+      await notifyUser(userId, {
+        type: 'stream',
+        title: message.title,
+        content: typeof message.content === 'function'
+          ? message.content(timezones.get(userId) || 'UTC')
+          : message.content,
+        data: {
+          streamId: stream.id,
+          scheduledAt: stream.scheduledAt?.toISOString(),
+        },
+        actionUrl: `/live/${stream.id}`,
+      });
+      sent++;
+    } catch (error) {
+      console.error('Failed to send stream notification:', error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * RSVP to, or withdraw from, a scheduled stream. Everyone who RSVPs hears
+ * when it starts.
+ */
+export async function setStreamRsvp(
+  streamId: string,
+  userId: string,
+  attending: boolean
+): Promise<{ attending: boolean; rsvpCount: number }> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, streamId),
+  });
+
+  // Private streams are invite-only, so only ticket holders can see them
+  if (!stream || (stream.isPrivate && !(await getStreamAccess(stream, userId)).hasAccess)) {
+    throw new Error('Stream not found');
+  }
+
+  if (attending) {
+    if (stream.status !== 'scheduled') {
+      throw new Error('Only upcoming streams take RSVPs');
+    }
+
+    if (stream.readerId === userId) {
+      throw new Error("You don't need to RSVP to your own stream");
+    }
+
+    await db
+      .insert(streamRsvps)
+      .values({ streamId: stream.id, userId })
+      .onConflictDoNothing();
+  } else {
+    await db
+      .delete(streamRsvps)
+      .where(and(eq(streamRsvps.streamId, stream.id), eq(streamRsvps.userId, userId)));
+  }
+
+  const [{ count }] = await db
+    .select({ count: sql<string>`count(*)` })
+    .from(streamRsvps)
+    .where(eq(streamRsvps.streamId, stream.id));
+
+  return { attending, rsvpCount: parseInt(count, 10) };
+}
+
+/**
+ * Whether the user has RSVP'd to a stream, and how many have
+ */
+export async function getStreamRsvp(
+  streamId: string,
+  userId: string
+): Promise<{ attending: boolean; rsvpCount: number }> {
+  const rsvpIds = await getStreamRsvpIds(streamId);
+
+  return { attending: rsvpIds.includes(userId), rsvpCount: rsvpIds.length };
+}
+
+/**
+ * Remind followers and RSVPs about streams starting soon. Meant to run
+ * every minute. Returns how many streams had reminders sent.
+ */
+export async function sendStreamReminders(now: Date = new Date()): Promise<number> {
+  let reminded = 0;
+
+  for (const minutesBefore of STREAM_SCHEDULE_CONFIG.reminderMinutesBefore) {
+    const windowEnd = new Date(now.getTime() + minutesBefore * 60 * 1000);
+
+    // Claiming the reminder in the same update keeps overlapping runs from
+    // sending it twice
+    const due = await db
+      .update(liveStreams)
+      .set({
+        remindersSent: sql`coalesce(${liveStreams.remindersSent}, '[]'::jsonb) || ${JSON.stringify([minutesBefore])}::jsonb`,
+      })
+      .where(
+        and(
+          eq(liveStreams.status, 'scheduled'),
+          gt(liveStreams.scheduledAt, now),
+          lte(liveStreams.scheduledAt, windowEnd),
+          sql`not (coalesce(${liveStreams.remindersSent}, '[]'::jsonb) @> ${JSON.stringify([minutesBefore])}::jsonb)`
+        )
+      )
+      .returning();
+
+    for (const stream of due) {
+      // Followers only hear about public streams; RSVPs already know about it
+      const [followerIds, rsvpIds] = await Promise.all([
+        stream.isPrivate ? Promise.resolve([]) : getReaderFollowerIds(stream.readerId),
+        getStreamRsvpIds(stream.id),
+      ]);
+
+      await notifyStreamAudience(stream, [...followerIds, ...rsvpIds], {
+        title: minutesBefore >= 60 ? 'Upcoming stream' : 'Stream starting soon',
+        content: (timezone) =>
+          `"${stream.title}" starts ${formatDateInTimeZone(stream.scheduledAt!, timezone)}.`,
+      });
+
+      reminded++;
+    }
+  }
+
+  return reminded;
+}
@@ -2,6 +2,11 @@ import Stripe from 'stripe';
 import { db } from '@/lib/db';
 import { clientBalances, transactions, users, readerProfiles } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { recordTopup, recordSessionCapture, recordGift, recordPayout } from '@/lib/ledger';
+import { notifyUser } from '@/lib/notifications';
+import { markOrderPaid, markOrderRefunded, notifyOrderPaid } from '@/lib/orders';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('STRIPE_SECRET_KEY is not set in environment variables');
@@ -98,33 +103,40 @@ export async function createAccountLink(
 }
 
 /**
- * Add funds to client balance
+ * Get the client's Stripe customer id, creating the customer on first use
  */
-export async function addFundsToClientBalance(
-  userId: string,
-  amount: number,
-  paymentMethodId?: string
-): Promise<{ paymentIntent: Stripe.PaymentIntent; transaction: any }> {
-  // Get or create Stripe customer
-  let clientBalance = await db.query.clientBalances.findFirst({
+export async function getOrCreateStripeCustomerId(userId: string): Promise<string> {
+  const clientBalance = await db.query.clientBalances.findFirst({
     where: eq(clientBalances.userId, userId),
   });
 
-  let customerId = clientBalance?.stripeCustomerId;
-
-  if (!customerId) {
-    const user = await db.query.users.findFirst({
-      where: eq(users.id, userId),
-    });
+  if (clientBalance?.stripeCustomerId) {
+    return clientBalance.stripeCustomerId;
+  }
 
-    if (!user) {
-      throw new Error('User not found');
-    }
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
 
-    const customer = await createStripeCustomer(userId, user.email, `${user.firstName} ${user.lastName}`);
-    customerId = customer.id;
+  if (!user) {
+    throw new Error('User not found');
   }
 
+  const customer = await createStripeCustomer(userId, user.email, `${user.firstName} ${user.lastName}`);
+  return customer.id;
+}
+
+/**
+ * Add funds to client balance
+ */
+export async function addFundsToClientBalance(
+  userId: string,
+  amount: number,
+  paymentMethodId?: string,
+  savePaymentMethod: boolean = false
+): Promise<{ paymentIntent: Stripe.PaymentIntent; transaction: any }> {
+  const customerId = await getOrCreateStripeCustomerId(userId);
+
   // Create payment intent
   const paymentIntent = await stripe.paymentIntents.create({
     amount: Math.round(amount * 100), // Convert to cents
@@ -133,9 +145,12 @@ export async function addFundsToClientBalance(
     payment_method: paymentMethodId,
     confirmation_method: paymentMethodId ? 'automatic' : 'manual',
     confirm: !!paymentMethodId,
+    // Saved cards can be charged off-session by auto-reload
+    setup_future_usage: savePaymentMethod ? 'off_session' : undefined,
     metadata: {
       userId,
       type: 'add_funds',
+      savePaymentMethod: savePaymentMethod ? 'true' : 'false',
     },
   });
 
@@ -153,64 +168,286 @@ export async function addFundsToClientBalance(
 }
 
 /**
- * Process reading session payment
+ * Start a card payment for a shop order. The order is marked paid by the
+ * payment_intent.succeeded webhook.
+ */
+export async function createOrderPaymentIntent(
+  userId: string,
+  orderId: string,
+  amount: number,
+  paymentMethodId?: string
+): Promise<Stripe.PaymentIntent> {
+  const customerId = await getOrCreateStripeCustomerId(userId);
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: Math.round(amount * 100),
+    currency: 'usd',
+    customer: customerId,
+    payment_method: paymentMethodId,
+    confirmation_method: paymentMethodId ? 'automatic' : 'manual',
+    confirm: !!paymentMethodId,
+    metadata: {
+      userId,
+      type: 'order',
+      orderId,
+    },
+  });
+
+  await db.insert(transactions).values({
+    userId,
+    orderId,
+    type: 'charge',
+    amount: amount.toFixed(2),
+    status: paymentMethodId ? 'processing' : 'pending',
+    stripePaymentIntentId: paymentIntent.id,
+    description: 'Shop order',
+  });
+
+  await db
+    .update(orders)
+    .set({ stripePaymentIntentId: paymentIntent.id, updatedAt: new Date() })
+    .where(eq(orders.id, orderId));
+
+  return paymentIntent;
+}
+
+// Auto-reload configuration
+export const AUTO_RELOAD_CONFIG = {
+  maxConsecutiveFailures: 3, // Auto-reload is switched off after this many failures in a row
+  cooldownMinutes: 10, // Minimum time between two reload attempts for the same client
+} as const;
+
+/**
+ * Top up a client balance off-session with their default payment method when
+ * it has dropped below their auto-reload threshold. Safe to call after every
+ * charge: it does nothing unless a reload is due, and concurrent callers are
+ * serialised by claiming the attempt timestamp.
+ */
+export async function triggerAutoReload(userId: string): Promise<void> {
+  const cooldownStart = new Date(Date.now() - AUTO_RELOAD_CONFIG.cooldownMinutes * 60 * 1000);
+
+  const [clientBalance] = await db
+    .update(clientBalances)
+    .set({ autoReloadLastAttemptAt: new Date() })
+    .where(
+      and(
+        eq(clientBalances.userId, userId),
+        eq(clientBalances.autoReloadEnabled, true),
+        isNotNull(clientBalances.defaultPaymentMethodId),
+        isNotNull(clientBalances.stripeCustomerId),
+        sql`${clientBalances.balance} < ${clientBalances.autoReloadThreshold}`,
+        or(
+          isNull(clientBalances.autoReloadLastAttemptAt),
+          lt(clientBalances.autoReloadLastAttemptAt, cooldownStart)
+        )
+      )
+    )
+    .returning();
+
+  if (!clientBalance) {
+    return;
+  }
+
+  const amount = parseFloat(clientBalance.autoReloadAmount || '0');
+
+  if (amount <= 0) {
+    return;
+  }
+
+  const [transaction] = await db.insert(transactions).values({
+    userId,
+    type: 'topup',
+    amount: amount.toFixed(2),
+    status: 'processing',
+    paymentMethodId: clientBalance.defaultPaymentMethodId,
+    description: 'Automatic balance reload',
+    metadata: { autoReload: true },
+  }).returning();
+
+  try {
+    const paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: Math.round(amount * 100),
+        currency: 'usd',
+        customer: clientBalance.stripeCustomerId!,
+        payment_method: clientBalance.defaultPaymentMethodId!,
+        off_session: true,
+        confirm: true,
+        metadata: {
+          userId,
+          type: 'add_funds',
+          autoReload: 'true',
+          transactionId: transaction.id,
+        },
+      },
+      { idempotencyKey: `auto-reload-${transaction.id}` }
+    );
+
+    // The balance is credited by the payment_intent.succeeded webhook
+    await db
+      .update(transactions)
+      .set({ stripePaymentIntentId: paymentIntent.id, updatedAt: new Date() })
+      .where(eq(transactions.id, transaction.id));
+  } catch (error) {
+    // Off-session confirmation that needs 3D Secure comes back as a card error
+    // carrying the payment intent, which the client can confirm on-session
+    const stripeError = error as Stripe.errors.StripeError;
+    const paymentIntent = stripeError?.payment_intent;
+    const requiresAction = stripeError?.code === 'authentication_required';
+
+    if (paymentIntent) {
+      await db
+        .update(transactions)
+        .set({ stripePaymentIntentId: paymentIntent.id, updatedAt: new Date() })
+        .where(eq(transactions.id, transaction.id));
+    }
+
+    await recordAutoReloadFailure(
+      transaction.id,
+      requiresAction ? 'authentication_required' : stripeError?.message || 'Automatic reload failed'
+    );
+  }
+}
+
+/**
+ * Mark an auto-reload transaction as failed, notify the client and switch
+ * auto-reload off after repeated failures. Counts each transaction once, so
+ * the synchronous error and the payment_intent.payment_failed webhook for the
+ * same attempt don't both increment the counter.
+ */
+async function recordAutoReloadFailure(transactionId: string, reason: string): Promise<void> {
+  const [failed] = await db
+    .update(transactions)
+    .set({ status: 'failed', failureReason: reason, updatedAt: new Date() })
+    .where(
+      and(
+        eq(transactions.id, transactionId),
+        ne(transactions.status, 'failed'),
+        ne(transactions.status, 'completed')
+      )
+    )
+    .returning();
+
+  if (!failed) {
+    return;
+  }
+
+  const [clientBalance] = await db
+    .update(clientBalances)
+    .set({
+      autoReloadFailures: sql`${clientBalances.autoReloadFailures} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(eq(clientBalances.userId, failed.userId))
+    .returning();
+
+  const failures = clientBalance?.autoReloadFailures || 0;
+  const disabled = failures >= AUTO_RELOAD_CONFIG.maxConsecutiveFailures;
+
+  if (disabled) {
+    await db
+      .update(clientBalances)
+      .set({ autoReloadEnabled: false, updatedAt: new Date() })
+      .where(eq(clientBalances.userId, failed.userId));
+  }
+
+  const requiresAction = reason === 'authentication_required';
+
+  try {
+    await notifyUser(failed.userId, {
+      type: 'payment',
+      title: requiresAction ? 'Confirm your automatic reload' : 'Automatic reload failed',
+      content: requiresAction
+        ? `Your bank needs you to approve the ${formatAmount(failed.amount)} automatic reload.`
+        : disabled
+          ? `We couldn't reload your balance after ${failures} attempts, so auto-reload has been turned off. Please update your payment method.`
+          : `We couldn't reload your balance with your saved card: ${reason}`,
+      data: {
+        transactionId: failed.id,
+        paymentIntentId: failed.stripePaymentIntentId,
+        requiresAction,
+        autoReloadDisabled: disabled,
+      },
+      actionUrl: '/dashboard?addFunds=1',
+    });
+  } catch (error) {
+    console.error('Failed to send auto-reload notification:', error);
+  }
+}
+
+function formatAmount(amount: string): string {
+  return `$${parseFloat(amount).toFixed(2)}`;
+}
+
+/**
+ * Process reading session payment.
+ * The amount was already captured from the session's balance hold by the
+ * metering engine (see lib/billing), so only the spend and reader earnings
+ * are settled. Runs in the caller's transaction so the capture, the reader's
+ * credit and the session ending commit or roll back together.
  */
 export async function processReadingPayment(
+  tx: Transaction,
   clientId: string,
   readerId: string,
   sessionId: string,
   amount: number,
   duration: number
 ): Promise<void> {
-  const platformFee = (amount * PLATFORM_FEE_PERCENTAGE) / 100;
-  const readerEarnings = amount - platformFee;
+  // Round the fee to whole cents so the ledger split balances exactly
+  const platformFee = Math.round(amount * PLATFORM_FEE_PERCENTAGE) / 100;
+  const readerEarnings = (Math.round(amount * 100) - Math.round(platformFee * 100)) / 100;
 
-  // Start a database transaction
-  await db.transaction(async (tx) => {
-    // Deduct from client balance
-    await tx
-      .update(clientBalances)
-      .set({
-        balance: sql`${clientBalances.balance} - ${amount}`,
-        totalSpent: sql`${clientBalances.totalSpent} + ${amount}`,
-      })
-      .where(eq(clientBalances.userId, clientId));
+  // Record the reserved amount as spent
+  await tx
+    .update(clientBalances)
+    .set({
+      totalSpent: sql`${clientBalances.totalSpent} + ${amount}`,
+    })
+    .where(eq(clientBalances.userId, clientId));
 
-    // Add to reader earnings
-    await tx
-      .update(readerProfiles)
-      .set({
-        pendingPayout: sql`${readerProfiles.pendingPayout} + ${readerEarnings}`,
-        totalEarnings: sql`${readerProfiles.totalEarnings} + ${readerEarnings}`,
-        totalMinutes: sql`${readerProfiles.totalMinutes} + ${Math.ceil(duration / 60)}`,
-      })
-      .where(eq(readerProfiles.userId, readerId));
+  // Add to reader earnings
+  await tx
+    .update(readerProfiles)
+    .set({
+      pendingPayout: sql`${readerProfiles.pendingPayout} + ${readerEarnings}`,
+      totalEarnings: sql`${readerProfiles.totalEarnings} + ${readerEarnings}`,
+      totalMinutes: sql`${readerProfiles.totalMinutes} + ${Math.ceil(duration / 60)}`,
+    })
+    .where(eq(readerProfiles.userId, readerId));
 
-    // Record client transaction
-    await tx.insert(transactions).values({
-      userId: clientId,
-      sessionId,
-      type: 'charge',
-      amount: amount.toString(),
-      status: 'completed',
-      description: `Reading session payment`,
-      platformFee: platformFee.toString(),
-    });
+  await recordSessionCapture(tx, {
+    clientId,
+    readerId,
+    sessionId,
+    amount,
+    platformFee,
+  });
 
-    // Record reader transaction
-    await tx.insert(transactions).values({
-      userId: readerId,
-      sessionId,
-      type: 'earning',
-      amount: readerEarnings.toString(),
-      status: 'completed',
-      description: `Reading session earnings`,
-    });
+  // Record client transaction
+  await tx.insert(transactions).values({
+    userId: clientId,
+    sessionId,
+    type: 'charge',
+    amount: amount.toString(),
+    status: 'completed',
+    description: `Reading session payment`,
+    platformFee: platformFee.toString(),
+  });
+
+  // Record reader transaction
+  await tx.insert(transactions).values({
+    userId: readerId,
+    sessionId,
+    type: 'earning',
+    amount: readerEarnings.toString(),
+    status: 'completed',
+    description: `Reading session earnings`,
   });
 }
 
 /**
- * Process virtual gift payment
+ * Process virtual gift payment. Throws if the sender can't cover it.
  */
 export async function processVirtualGiftPayment(
   senderId: string,
@@ -218,14 +455,25 @@ export async function processVirtualGiftPayment(
   giftType: keyof typeof VIRTUAL_GIFT_PRICES,
   quantity: number,
   streamId?: string,
-  sessionId?: string
-): Promise<void> {
+  sessionId?: string,
+  message?: string
+): Promise<typeof virtualGifts.$inferSelect> {
   const unitPrice = VIRTUAL_GIFT_PRICES[giftType];
-  const totalValue = unitPrice * quantity;
-  const platformFee = (totalValue * PLATFORM_FEE_PERCENTAGE) / 100;
-  const receiverAmount = totalValue - platformFee;
+  const totalValue = Math.round(unitPrice * quantity * 100) / 100;
+  const platformFee = Math.round(totalValue * PLATFORM_FEE_PERCENTAGE) / 100;
+  const receiverAmount = (Math.round(totalValue * 100) - Math.round(platformFee * 100)) / 100;
+
+  const gift = await db.transaction(async (tx) => {
+    const [balance] = await tx
+      .select()
+      .from(clientBalances)
+      .where(eq(clientBalances.userId, senderId))
+      .for('update');
+
+    if (!balance || Math.round(parseFloat(balance.balance || '0') * 100) < Math.round(totalValue * 100)) {
+      throw new Error('Insufficient balance');
+    }
 
-  await db.transaction(async (tx) => {
     // Deduct from sender balance
     await tx
       .update(clientBalances)
@@ -250,6 +498,30 @@ export async function processVirtualGiftPayment(
         .where(eq(readerProfiles.userId, receiverId));
     }
 
+    await recordGift(tx, {
+      senderId,
+      readerId: readerProfile ? receiverId : null,
+      amount: totalValue,
+      platformFee,
+      referenceId: streamId || sessionId,
+      description: `Virtual gift: ${quantity}x ${giftType}`,
+    });
+
+    const [created] = await tx
+      .insert(virtualGifts)
+      .values({
+        streamId,
+        sessionId,
+        senderId,
+        receiverId,
+        type: giftType,
+        quantity,
+        pricePerUnit: unitPrice.toFixed(2),
+        totalValue: totalValue.toFixed(2),
+        message,
+      })
+      .returning();
+
     // Record sender transaction
     await tx.insert(transactions).values({
       userId: senderId,
@@ -259,6 +531,7 @@ export async function processVirtualGiftPayment(
       status: 'completed',
       description: `Virtual gift: ${quantity}x ${giftType}`,
       platformFee: platformFee.toString(),
+      metadata: { giftId: created.id, streamId },
     });
 
     // Record receiver transaction
@@ -270,6 +543,7 @@ export async function processVirtualGiftPayment(
         amount: receiverAmount.toString(),
         status: 'completed',
         description: `Virtual gift received: ${quantity}x ${giftType}`,
+        metadata: { giftId: created.id, streamId },
       });
     }
 
@@ -282,7 +556,17 @@ export async function processVirtualGiftPayment(
         })
         .where(eq(liveStreams.id, streamId));
     }
+
+    return created;
   });
+
+  try {
+    await triggerAutoReload(senderId);
+  } catch (error) {
+    console.error('Auto-reload failed after gift payment:', error);
+  }
+
+  return gift;
 }
 
 /**
@@ -316,15 +600,17 @@ export async function processDailyPayouts(): Promise<void> {
         },
       });
 
-      // Update reader profile and create transaction
+      // Take only what was paid out; earnings credited since the read stay pending
       await db.transaction(async (tx) => {
         await tx
           .update(readerProfiles)
           .set({
-            pendingPayout: '0.00',
+            pendingPayout: sql`${readerProfiles.pendingPayout} - ${amount}`,
           })
           .where(eq(readerProfiles.userId, reader.userId));
 
+        await recordPayout(tx, reader.userId, amount, transfer.id);
+
         await tx.insert(transactions).values({
           userId: reader.userId,
           type: 'payout',
@@ -424,6 +710,24 @@ export async function getCustomerPaymentMethods(
   return paymentMethods.data;
 }
 
+/**
+ * Get a payment method only if it is attached to the given customer
+ */
+export async function getCustomerPaymentMethod(
+  customerId: string,
+  paymentMethodId: string
+): Promise<Stripe.PaymentMethod | null> {
+  try {
+    const paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId);
+    return paymentMethod.customer === customerId ? paymentMethod : null;
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Delete payment method
  */
@@ -454,13 +758,38 @@ export async function getAccountBalance(accountId: string): Promise<Stripe.Balan
   });
 }
 
+type StripeEventHandler = (event: Stripe.Event) => Promise<void>;
+
+// Single dispatch table for every Stripe event type the platform acts on.
+// Handlers must be idempotent: a replay or a retry after a partial failure
+// may run them more than once for the same event.
+const STRIPE_EVENT_HANDLERS: Partial<Record<Stripe.Event.Type, StripeEventHandler>> = {
+  'payment_intent.succeeded': (event) =>
+    handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent),
+  'payment_intent.payment_failed': (event) =>
+    handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent),
+  'charge.dispute.created': (event) =>
+    handleChargeDisputeCreated(event.data.object as Stripe.Dispute),
+  'account.updated': (event) =>
+    handleAccountUpdated(event.data.object as Stripe.Account),
+  'transfer.created': async (event) => {
+    console.log('Transfer created:', (event.data.object as Stripe.Transfer).id);
+  },
+  'invoice.payment_failed': async (event) => {
+    console.log('Invoice payment failed:', (event.data.object as Stripe.Invoice).id);
+  },
+};
+
+// An event stuck in 'processing' this long is assumed to have crashed mid-run
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
 /**
  * Handle Stripe webhooks
  */
 export async function handleStripeWebhook(
   payload: string,
   signature: string
-): Promise<void> {
+): Promise<{ duplicate: boolean }> {
   const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
   if (!webhookSecret) {
@@ -475,79 +804,273 @@ export async function handleStripeWebhook(
     throw new Error(`Webhook signature verification failed: ${error}`);
   }
 
-  switch (event.type) {
-    case 'payment_intent.succeeded':
-      await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
-      break;
+  // Persist the event before acting on it; a retry of a known event is a no-op insert
+  await db
+    .insert(stripeEvents)
+    .values({
+      id: event.id,
+      type: event.type,
+      payload: event,
+    })
+    .onConflictDoNothing();
+
+  const processed = await processStripeEvent(event.id);
+  return { duplicate: !processed };
+}
+
+/**
+ * Re-run a stored event that failed. Used by the admin replay endpoint.
+ */
+export async function replayStripeEvent(eventId: string): Promise<boolean> {
+  const storedEvent = await db.query.stripeEvents.findFirst({
+    where: eq(stripeEvents.id, eventId),
+  });
+
+  if (!storedEvent) {
+    throw new Error('Stripe event not found');
+  }
+
+  if (storedEvent.status === 'processed') {
+    throw new Error('Stripe event was already processed');
+  }
 
-    case 'payment_intent.payment_failed':
-      await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
-      break;
+  return processStripeEvent(eventId);
+}
 
-    case 'account.updated':
-      await handleAccountUpdated(event.data.object as Stripe.Account);
-      break;
+/**
+ * Claim a stored event and run its handler. Returns false when the event was
+ * already processed or another worker holds it. Failures are recorded on the
+ * event and rethrown so Stripe retries the delivery.
+ */
+async function processStripeEvent(eventId: string): Promise<boolean> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
 
-    case 'transfer.created':
-      console.log('Transfer created:', event.data.object);
-      break;
+  const [claimed] = await db
+    .update(stripeEvents)
+    .set({
+      status: 'processing',
+      attempts: sql`${stripeEvents.attempts} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(stripeEvents.id, eventId),
+        or(
+          inArray(stripeEvents.status, ['pending', 'failed']),
+          and(eq(stripeEvents.status, 'processing'), lt(stripeEvents.updatedAt, staleBefore))
+        )
+      )
+    )
+    .returning();
+
+  if (!claimed) {
+    return false;
+  }
 
-    case 'invoice.payment_failed':
-      console.log('Invoice payment failed:', event.data.object);
-      break;
+  const event = claimed.payload as Stripe.Event;
+  const handler = STRIPE_EVENT_HANDLERS[event.type];
 
-    default:
+  try {
+    if (handler) {
+      await handler(event);
+    } else {
       console.log(`Unhandled event type: ${event.type}`);
+    }
+
+    await db
+      .update(stripeEvents)
+      .set({
+        status: 'processed',
+        lastError: null,
+        processedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(stripeEvents.id, eventId));
+
+    return true;
+  } catch (error) {
+    await db
+      .update(stripeEvents)
+      .set({
+        status: 'failed',
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date(),
+      })
+      .where(eq(stripeEvents.id, eventId));
+
+    throw error;
   }
 }
 
-async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+/**
+ * Auto-reload intents can be confirmed before the transaction row has their
+ * id, so fall back to the transaction id carried in the metadata.
+ */
+async function findPaymentIntentTransaction(paymentIntent: Stripe.PaymentIntent) {
   const transaction = await db.query.transactions.findFirst({
     where: eq(transactions.stripePaymentIntentId, paymentIntent.id),
   });
 
+  if (transaction || !paymentIntent.metadata?.transactionId) {
+    return transaction;
+  }
+
+  return db.query.transactions.findFirst({
+    where: eq(transactions.id, paymentIntent.metadata.transactionId),
+  });
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  const transaction = await findPaymentIntentTransaction(paymentIntent);
+
   if (!transaction) {
     console.error('Transaction not found for payment intent:', paymentIntent.id);
     return;
   }
 
-  // Update transaction status
-  await db
-    .update(transactions)
-    .set({
-      status: 'completed',
-      stripeChargeId: paymentIntent.latest_charge as string,
-    })
-    .where(eq(transactions.id, transaction.id));
+  let paidOrder: typeof orders.$inferSelect | null = null;
+  let creditedOrderId: string | null = null;
 
-  // If this is an add funds transaction, update client balance
-  if (transaction.type === 'topup') {
-    await db
-      .update(clientBalances)
+  await db.transaction(async (tx) => {
+    // Only the first delivery flips the transaction to completed, so the
+    // balance is credited exactly once per payment intent
+    const [completed] = await tx
+      .update(transactions)
       .set({
-        balance: sql`${clientBalances.balance} + ${transaction.amount}`,
+        status: 'completed',
+        stripeChargeId: paymentIntent.latest_charge as string,
+        updatedAt: new Date(),
       })
-      .where(eq(clientBalances.userId, transaction.userId));
+      .where(and(eq(transactions.id, transaction.id), ne(transactions.status, 'completed')))
+      .returning();
+
+    if (!completed) {
+      return;
+    }
+
+    if (completed.type === 'charge' && completed.orderId) {
+      paidOrder = await markOrderPaid(tx, completed.orderId, 'card');
+
+      // The order expired or was cancelled while the card was being charged;
+      // keep the money as wallet credit rather than lose it
+      if (!paidOrder) {
+        await tx
+          .update(clientBalances)
+          .set({
+            balance: sql`${clientBalances.balance} + ${completed.amount}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(clientBalances.userId, completed.userId));
+
+        await recordTopup(tx, completed.userId, parseFloat(completed.amount), paymentIntent.id);
+        creditedOrderId = completed.orderId;
+      }
+      return;
+    }
+
+    // If this is an add funds transaction, update client balance
+    if (completed.type === 'topup') {
+      const isAutoReload = paymentIntent.metadata?.autoReload === 'true';
+      const savedPaymentMethod = paymentIntent.metadata?.savePaymentMethod === 'true'
+        ? paymentIntent.payment_method as string | null
+        : null;
+
+      // A successful reload clears the failure streak; a card saved during
+      // checkout becomes the default for auto-reload
+      if (isAutoReload || savedPaymentMethod) {
+        await tx
+          .update(clientBalances)
+          .set({
+            ...(isAutoReload ? { autoReloadFailures: 0 } : {}),
+            ...(savedPaymentMethod ? { defaultPaymentMethodId: savedPaymentMethod } : {}),
+          })
+          .where(eq(clientBalances.userId, completed.userId));
+      }
+
+      await tx
+        .update(clientBalances)
+        .set({
+          balance: sql`${clientBalances.balance} + ${completed.amount}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(clientBalances.userId, completed.userId));
+
+      await recordTopup(tx, completed.userId, parseFloat(completed.amount), paymentIntent.id);
+    }
+  });
+
+  if (paidOrder) {
+    await notifyOrderPaid(paidOrder);
+  }
+
+  if (creditedOrderId) {
+    try {
+      await notifyUser(transaction.userId, {
+        type: 'payment',
+        title: 'Payment added to your balance',
+        content: `Your order was cancelled before the payment of $${transaction.amount} cleared, so it was added to your balance`,
+        data: { orderId: creditedOrderId },
+        actionUrl: '/dashboard',
+      });
+    } catch (error) {
+      console.error('Failed to notify buyer of credited order payment:', error);
+    }
   }
 }
 
 async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-  const transaction = await db.query.transactions.findFirst({
-    where: eq(transactions.stripePaymentIntentId, paymentIntent.id),
-  });
+  const transaction = await findPaymentIntentTransaction(paymentIntent);
 
   if (!transaction) {
     console.error('Transaction not found for payment intent:', paymentIntent.id);
     return;
   }
 
+  if (paymentIntent.metadata?.autoReload === 'true') {
+    await recordAutoReloadFailure(
+      transaction.id,
+      paymentIntent.last_payment_error?.code === 'authentication_required'
+        ? 'authentication_required'
+        : paymentIntent.last_payment_error?.message || 'Payment failed'
+    );
+    return;
+  }
+
+  // A late failure event must not undo a payment that already succeeded
   await db
     .update(transactions)
     .set({
       status: 'failed',
       failureReason: paymentIntent.last_payment_error?.message || 'Payment failed',
+      updatedAt: new Date(),
     })
-    .where(eq(transactions.id, transaction.id));
+    .where(and(eq(transactions.id, transaction.id), ne(transactions.status, 'completed')));
+}
+
+/**
+ * A chargeback on a shop order refunds it: the seller's share is reversed and
+ * the items stop counting as sales. Chargebacks on wallet top-ups are left to
+ * the admin dispute tools.
+ */
+async function handleChargeDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+  const paymentIntentId = typeof dispute.payment_intent === 'string'
+    ? dispute.payment_intent
+    : dispute.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return;
+  }
+
+  const transaction = await db.query.transactions.findFirst({
+    where: eq(transactions.stripePaymentIntentId, paymentIntentId),
+  });
+
+  if (!transaction?.orderId) {
+    console.log(`Charge dispute ${dispute.id} is not for a shop order`);
+    return;
+  }
+
+  await markOrderRefunded(transaction.orderId, { refundTo: 'card', reason: 'chargeback' });
 }
 
 async function handleAccountUpdated(account: Stripe.Account): Promise<void> {
@@ -557,15 +1080,13 @@ async function handleAccountUpdated(account: Stripe.Account): Promise<void> {
     return;
   }
 
-  // Update reader profile with account capabilities
-  await db
-    .update(readerProfiles)
-    .set({
-      // Add any account-related updates here
-    })
-    .where(eq(readerProfiles.userId, readerId));
+  // Reader profiles don't track account capabilities yet; an empty update
+  // would throw and mark the event as failed
+  console.log(
+    `Stripe account ${account.id} updated for reader ${readerId}: payouts ${account.payouts_enabled ? 'enabled' : 'disabled'}`
+  );
 }
 
 // Import necessary items from schema
-import { sql, and, gte, isNotNull } from 'drizzle-orm';
-import { liveStreams } from '@/lib/db/schema';
+import { sql, and, or, gte, lt, ne, inArray, isNull, isNotNull } from 'drizzle-orm';
+import { liveStreams, orders, stripeEvents, virtualGifts } from '@/lib/db/schema';
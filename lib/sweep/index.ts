@@ -0,0 +1,236 @@
+import { db } from '@/lib/db';
+import {
+  users,
+  readerProfiles,
+  readingSessions,
+  liveStreams,
+} from '@/lib/db/schema';
+import { eq, and, or, lt, isNull, inArray, notInArray, sql } from 'drizzle-orm';
+import { endReadingSession } from '@/lib/billing';
+import {
+  expireReadingRequests,
+  advanceReaderQueue,
+  checkActiveSessionsHealth,
+  READING_REQUEST_CONFIG,
+} from '@/lib/readings';
+import { finalizeEndedStreams } from '@/lib/streams';
+import { expireUnpaidOrders } from '@/lib/shop';
+import { autoConfirmDeliveries } from '@/lib/fulfilment';
+import { ablyService } from '@/lib/ably';
+
+// Housekeeping thresholds
+export const SWEEP_CONFIG = {
+  abandonedSessionMinutes: 10, // Active sessions with no heartbeat for this long are closed
+  readerOfflineMinutes: 15, // Online readers not seen for this long are flipped offline
+  streamHostOfflineMinutes: 15, // Live streams whose host hasn't been seen for this long are ended
+  maxStreamHours: 12, // Live streams are never left running longer than this
+} as const;
+
+export interface SweepReport {
+  expiredRequests: number;
+  disconnectedSessions: number;
+  abandonedSessions: string[];
+  readersOffline: string[];
+  streamsEnded: string[];
+  ordersExpired: string[];
+  shipmentsDelivered: string[];
+  errors: string[];
+}
+
+function minutesAgo(now: Date, minutes: number): Date {
+  return new Date(now.getTime() - minutes * 60 * 1000);
+}
+
+/**
+ * Pending requests created before response deadlines existed never expire on
+ * their own; give them one so expireReadingRequests picks them up.
+ */
+async function backfillRequestDeadlines(now: Date): Promise<void> {
+  const cutoff = new Date(now.getTime() - READING_REQUEST_CONFIG.responseTimeoutSeconds * 1000);
+
+  await db
+    .update(readingSessions)
+    .set({ requestExpiresAt: now })
+    .where(
+      and(
+        eq(readingSessions.status, 'pending'),
+        isNull(readingSessions.requestExpiresAt),
+        lt(readingSessions.createdAt, cutoff)
+      )
+    );
+}
+
+/**
+ * Close active sessions nobody has metered in a while. The billing clock is
+ * stopped at the last heartbeat, so the client pays for the time they were
+ * demonstrably there and nothing after.
+ */
+async function closeAbandonedSessions(now: Date): Promise<string[]> {
+  const cutoff = minutesAgo(now, SWEEP_CONFIG.abandonedSessionMinutes);
+  const lastHeartbeat = sql`coalesce(${readingSessions.lastMeteredAt}, ${readingSessions.startedAt})`;
+
+  const abandoned = await db
+    .update(readingSessions)
+    .set({ pausedAt: sql`coalesce(${readingSessions.pausedAt}, ${lastHeartbeat})` })
+    .where(
+      and(
+        eq(readingSessions.status, 'active'),
+        lt(lastHeartbeat, cutoff)
+      )
+    )
+    .returning({ id: readingSessions.id, readerId: readingSessions.readerId });
+
+  const closed: string[] = [];
+
+  for (const session of abandoned) {
+    const ended = await endReadingSession(session.id, 'abandoned');
+
+    if (ended) {
+      closed.push(session.id);
+      await advanceReaderQueue(session.readerId);
+    }
+  }
+
+  return closed;
+}
+
+/**
+ * Flip readers offline when they haven't been seen recently. Readers in a
+ * session are left alone; the session sweep handles them.
+ */
+async function markIdleReadersOffline(now: Date): Promise<string[]> {
+  const cutoff = minutesAgo(now, SWEEP_CONFIG.readerOfflineMinutes);
+
+  const idleReaders = db
+    .select({ id: users.id })
+    .from(users)
+    .where(or(isNull(users.lastSeen), lt(users.lastSeen, cutoff)));
+
+  const busyReaders = db
+    .select({ id: readingSessions.readerId })
+    .from(readingSessions)
+    .where(eq(readingSessions.status, 'active'));
+
+  const updated = await db
+    .update(readerProfiles)
+    .set({ isOnline: false, updatedAt: now })
+    .where(
+      and(
+        eq(readerProfiles.isOnline, true),
+        inArray(readerProfiles.userId, idleReaders),
+        notInArray(readerProfiles.userId, busyReaders)
+      )
+    )
+    .returning({ userId: readerProfiles.userId, isAvailable: readerProfiles.isAvailable });
+
+  for (const reader of updated) {
+    try {
+      await ablyService.publishReaderStatus(reader.userId, {
+        isOnline: false,
+        isAvailable: reader.isAvailable ?? false,
+      });
+    } catch (error) {
+      console.error('Failed to publish reader status:', error);
+    }
+  }
+
+  return updated.map((reader) => reader.userId);
+}
+
+/**
+ * End streams still marked live after the host went away or ran past the
+ * maximum length, close out anyone still counted as watching and stop their
+ * recorders.
+ */
+async function endZombieStreams(now: Date): Promise<string[]> {
+  const hostCutoff = minutesAgo(now, SWEEP_CONFIG.streamHostOfflineMinutes);
+  const lengthCutoff = minutesAgo(now, SWEEP_CONFIG.maxStreamHours * 60);
+
+  const absentHosts = db
+    .select({ id: users.id })
+    .from(users)
+    .where(or(isNull(users.lastSeen), lt(users.lastSeen, hostCutoff)));
+
+  const ended = await db
+    .update(liveStreams)
+    .set({ status: 'ended', endedAt: now, viewerCount: 0, updatedAt: now })
+    .where(
+      and(
+        eq(liveStreams.status, 'live'),
+        or(
+          lt(liveStreams.startedAt, lengthCutoff),
+          and(
+            lt(liveStreams.startedAt, hostCutoff),
+            inArray(liveStreams.readerId, absentHosts)
+          )
+        )
+      )
+    )
+    .returning({ id: liveStreams.id });
+
+  const streamIds = ended.map((stream) => stream.id);
+
+  await finalizeEndedStreams(streamIds, now);
+
+  return streamIds;
+}
+
+/**
+ * Clean up everything that can get stuck when clients vanish: unanswered
+ * requests, sessions nobody is in, readers still shown online, streams
+ * still shown live, shop orders nobody paid for, and parcels nobody
+ * confirmed receiving. Each step runs on its own so one failure doesn't
+ * block the rest; failures are listed in the report.
+ */
+export async function runSweep(now: Date = new Date()): Promise<SweepReport> {
+  const report: SweepReport = {
+    expiredRequests: 0,
+    disconnectedSessions: 0,
+    abandonedSessions: [],
+    readersOffline: [],
+    streamsEnded: [],
+    ordersExpired: [],
+    shipmentsDelivered: [],
+    errors: [],
+  };
+
+  const step = async (name: string, run: () => Promise<void>) => {
+    try {
+      await run();
+    } catch (error) {
+      console.error(`Sweep step ${name} failed:`, error);
+      report.errors.push(`${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  await step('requests', async () => {
+    await backfillRequestDeadlines(now);
+    report.expiredRequests = await expireReadingRequests(now);
+  });
+
+  await step('presence', async () => {
+    report.disconnectedSessions = await checkActiveSessionsHealth();
+  });
+
+  await step('sessions', async () => {
+    report.abandonedSessions = await closeAbandonedSessions(now);
+  });
+
+  await step('readers', async () => {
+    report.readersOffline = await markIdleReadersOffline(now);
+  });
+
+  await step('streams', async () => {
+    report.streamsEnded = await endZombieStreams(now);
+  });
+
+  await step('orders', async () => {
+    report.ordersExpired = await expireUnpaidOrders(now);
+  });
+
+  await step('deliveries', async () => {
+    report.shipmentsDelivered = await autoConfirmDeliveries(now);
+  });
+
+  return report;
+}
@@ -0,0 +1,375 @@
+import { db } from '@/lib/db';
+import {
+  streamTickets,
+  liveStreams,
+  clientBalances,
+  readerProfiles,
+  transactions,
+  users,
+} from '@/lib/db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import { PLATFORM_FEE_PERCENTAGE, triggerAutoReload } from '@/lib/stripe';
+import { recordStreamTicket, recordStreamTicketRefund } from '@/lib/ledger';
+import { notifyUser } from '@/lib/notifications';
+import type { AuthUser } from '@/lib/auth';
+
+type LiveStream = typeof liveStreams.$inferSelect;
+type StreamTicket = typeof streamTickets.$inferSelect;
+
+export interface StreamAccess {
+  requiresTicket: boolean;
+  price: number;
+  hasAccess: boolean;
+  ticket: StreamTicket | null;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+function getTicketPrice(stream: LiveStream): number {
+  return parseFloat(stream.accessPrice || '0');
+}
+
+/**
+ * Private streams and streams with an access price are ticket-only. A
+ * private stream without a price still needs a (free) ticket, which only the
+ * host can hand out by inviting someone.
+ */
+export function requiresTicket(stream: LiveStream): boolean {
+  return !!stream.isPrivate || getTicketPrice(stream) > 0;
+}
+
+async function findActiveTicket(streamId: string, userId: string): Promise<StreamTicket | null> {
+  const ticket = await db.query.streamTickets.findFirst({
+    where: and(
+      eq(streamTickets.streamId, streamId),
+      eq(streamTickets.userId, userId),
+      eq(streamTickets.status, 'active')
+    ),
+  });
+
+  return ticket ?? null;
+}
+
+/**
+ * Whether a user can watch a stream, and what a ticket would cost them
+ */
+export async function getStreamAccess(stream: LiveStream, userId: string): Promise<StreamAccess> {
+  const price = getTicketPrice(stream);
+
+  if (stream.readerId === userId || !requiresTicket(stream)) {
+    return { requiresTicket: requiresTicket(stream), price, hasAccess: true, ticket: null };
+  }
+
+  const ticket = await findActiveTicket(stream.id, userId);
+
+  return { requiresTicket: true, price, hasAccess: !!ticket, ticket };
+}
+
+/**
+ * Buy a ticket from the wallet, before the stream starts or while it's live.
+ * The reader earns the same share as on gifts.
+ */
+export async function purchaseStreamTicket(streamId: string, userId: string): Promise<StreamTicket> {
+  const ticket = await db.transaction(async (tx) => {
+    const [stream] = await tx
+      .select()
+      .from(liveStreams)
+      .where(eq(liveStreams.id, streamId))
+      .for('update');
+
+    if (!stream) {
+      throw new Error('Stream not found');
+    }
+
+    if (stream.status !== 'scheduled' && stream.status !== 'live') {
+      throw new Error('Tickets are no longer available for this stream');
+    }
+
+    if (stream.readerId === userId) {
+      throw new Error("You don't need a ticket for your own stream");
+    }
+
+    if (!requiresTicket(stream)) {
+      throw new Error('This stream is free to watch');
+    }
+
+    if (stream.isPrivate && getTicketPrice(stream) <= 0) {
+      throw new Error('This stream is invite-only');
+    }
+
+    const [existing] = await tx
+      .select()
+      .from(streamTickets)
+      .where(and(eq(streamTickets.streamId, stream.id), eq(streamTickets.userId, userId)));
+
+    if (existing) {
+      throw new Error(
+        existing.status === 'active'
+          ? 'You already have a ticket for this stream'
+          : 'Your ticket for this stream was refunded'
+      );
+    }
+
+    const price = getTicketPrice(stream);
+    const platformFee = Math.round(price * PLATFORM_FEE_PERCENTAGE) / 100;
+    const readerEarnings = fromCents(toCents(price) - toCents(platformFee));
+
+    if (price > 0) {
+      const [balance] = await tx
+        .select()
+        .from(clientBalances)
+        .where(eq(clientBalances.userId, userId))
+        .for('update');
+
+      if (!balance || toCents(parseFloat(balance.balance || '0')) < toCents(price)) {
+        throw new Error('Insufficient balance');
+      }
+    }
+
+    const [created] = await tx
+      .insert(streamTickets)
+      .values({
+        streamId: stream.id,
+        userId,
+        price: price.toFixed(2),
+        platformFee: platformFee.toFixed(2),
+      })
+      .returning();
+
+    if (price > 0) {
+      await tx
+        .update(clientBalances)
+        .set({
+          balance: sql`${clientBalances.balance} - ${price}`,
+          totalSpent: sql`${clientBalances.totalSpent} + ${price}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(clientBalances.userId, userId));
+
+      await tx
+        .update(readerProfiles)
+        .set({
+          pendingPayout: sql`${readerProfiles.pendingPayout} + ${readerEarnings}`,
+          totalEarnings: sql`${readerProfiles.totalEarnings} + ${readerEarnings}`,
+        })
+        .where(eq(readerProfiles.userId, stream.readerId));
+
+      await recordStreamTicket(tx, {
+        buyerId: userId,
+        readerId: stream.readerId,
+        ticketId: created.id,
+        amount: price,
+        platformFee,
+      });
+
+      await tx.insert(transactions).values({
+        userId,
+        type: 'charge',
+        amount: price.toFixed(2),
+        status: 'completed',
+        description: `Live stream ticket: ${stream.title}`,
+        platformFee: platformFee.toFixed(2),
+        metadata: { streamId: stream.id, ticketId: created.id },
+      });
+
+      await tx.insert(transactions).values({
+        userId: stream.readerId,
+        type: 'earning',
+        amount: readerEarnings.toFixed(2),
+        status: 'completed',
+        description: `Live stream ticket sold: ${stream.title}`,
+        metadata: { streamId: stream.id, ticketId: created.id },
+      });
+    }
+
+    return created;
+  });
+
+  if (parseFloat(ticket.price) > 0) {
+    try {
+      await triggerAutoReload(userId);
+    } catch (error) {
+      console.error('Auto-reload failed after ticket purchase:', error);
+    }
+  }
+
+  return ticket;
+}
+
+/**
+ * Invite someone to a private stream by issuing them a free ticket. Only the
+ * host (or an admin) can invite, and inviting someone twice is harmless.
+ */
+export async function inviteToStream(streamId: string, host: AuthUser, inviteeId: string): Promise<StreamTicket> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, streamId),
+  });
+
+  if (!stream || (stream.readerId !== host.id && host.role !== 'admin')) {
+    throw new Error('Stream not found');
+  }
+
+  if (!stream.isPrivate) {
+    throw new Error('Only private streams take invites');
+  }
+
+  if (stream.status !== 'scheduled' && stream.status !== 'live') {
+    throw new Error('This stream has already ended');
+  }
+
+  if (inviteeId === stream.readerId) {
+    throw new Error("The host doesn't need an invite");
+  }
+
+  const invitee = await db.query.users.findFirst({
+    where: eq(users.id, inviteeId),
+  });
+
+  if (!invitee) {
+    throw new Error('User not found');
+  }
+
+  const [ticket] = await db
+    .insert(streamTickets)
+    .values({ streamId: stream.id, userId: inviteeId, price: '0.00', platformFee: '0.00' })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!ticket) {
+    const existing = await findActiveTicket(stream.id, inviteeId);
+
+    if (!existing) {
+      throw new Error('Their ticket for this stream was refunded');
+    }
+
+    return existing;
+  }
+
+  try {
+    await notifyUser(inviteeId, {
+      type: 'stream',
+      title: "You're invited to a private stream",
+      content: `You've been invited to watch "${stream.title}"`,
+      data: { streamId: stream.id, ticketId: ticket.id },
+      actionUrl: `/live/${stream.id}`,
+    });
+  } catch (error) {
+    console.error('Failed to send stream invite notification:', error);
+  }
+
+  return ticket;
+}
+
+/**
+ * Return every active ticket on a cancelled stream to the buyer's wallet and
+ * take the reader's share back. Each ticket is refunded on its own so one
+ * failure doesn't hold up the rest. Returns how many were refunded.
+ */
+export async function refundStreamTickets(streamId: string): Promise<number> {
+  const stream = await db.query.liveStreams.findFirst({
+    where: eq(liveStreams.id, streamId),
+  });
+
+  if (!stream) {
+    return 0;
+  }
+
+  const tickets = await db.query.streamTickets.findMany({
+    where: and(eq(streamTickets.streamId, streamId), eq(streamTickets.status, 'active')),
+  });
+
+  let refunded = 0;
+
+  for (const ticket of tickets) {
+    try {
+      const claimed = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .update(streamTickets)
+          .set({ status: 'refunded', refundedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(streamTickets.id, ticket.id), eq(streamTickets.status, 'active')))
+          .returning();
+
+        if (!current) return null;
+
+        const price = parseFloat(current.price);
+        const platformFee = parseFloat(current.platformFee || '0');
+        const clawback = fromCents(toCents(price) - toCents(platformFee));
+
+        if (price > 0) {
+          await tx
+            .update(clientBalances)
+            .set({
+              balance: sql`${clientBalances.balance} + ${price}`,
+              totalSpent: sql`${clientBalances.totalSpent} - ${price}`,
+              updatedAt: new Date(),
+            })
+            .where(eq(clientBalances.userId, current.userId));
+
+          await tx
+            .update(readerProfiles)
+            .set({
+              pendingPayout: sql`${readerProfiles.pendingPayout} - ${clawback}`,
+              totalEarnings: sql`${readerProfiles.totalEarnings} - ${clawback}`,
+            })
+            .where(eq(readerProfiles.userId, stream.readerId));
+
+          await recordStreamTicketRefund(tx, {
+            buyerId: current.userId,
+            readerId: stream.readerId,
+            ticketId: current.id,
+            amount: price,
+            platformFee,
+          });
+
+          await tx.insert(transactions).values({
+            userId: current.userId,
+            type: 'refund',
+            amount: price.toFixed(2),
+            status: 'completed',
+            description: `Live stream cancelled: ${stream.title}`,
+            metadata: { streamId: stream.id, ticketId: current.id },
+          });
+
+          await tx.insert(transactions).values({
+            userId: stream.readerId,
+            type: 'clawback',
+            amount: clawback.toFixed(2),
+            status: 'completed',
+            description: `Live stream ticket refunded: ${stream.title}`,
+            metadata: { streamId: stream.id, ticketId: current.id },
+          });
+        }
+
+        return current;
+      });
+
+      if (!claimed) continue;
+
+      refunded++;
+
+      try {
+        await notifyUser(claimed.userId, {
+          type: 'stream',
+          title: 'Stream cancelled',
+          content: parseFloat(claimed.price) > 0
+            ? `"${stream.title}" was cancelled. Your ticket has been refunded to your balance.`
+            : `"${stream.title}" was cancelled.`,
+          data: { streamId: stream.id, ticketId: claimed.id },
+          actionUrl: '/dashboard',
+        });
+      } catch (error) {
+        console.error('Failed to send ticket refund notification:', error);
+      }
+    } catch (error) {
+      console.error(`Failed to refund stream ticket ${ticket.id}:`, error);
+    }
+  }
+
+  return refunded;
+}
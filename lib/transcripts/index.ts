@@ -0,0 +1,222 @@
+import { db } from '@/lib/db';
+import { users, readingSessions, sessionMessages } from '@/lib/db/schema';
+import { eq, asc, desc } from 'drizzle-orm';
+import { ablyService, ChatMessage } from '@/lib/ably';
+import type { SendSessionMessageInput } from '@/lib/validations';
+
+type ReadingSession = typeof readingSessions.$inferSelect;
+type SessionMessage = typeof sessionMessages.$inferSelect;
+
+export interface TranscriptEntry {
+  id: string;
+  senderId: string;
+  senderName: string;
+  role: 'client' | 'reader';
+  type: string | null;
+  content: string;
+  createdAt: string | null;
+  offsetSeconds: number | null; // Seconds since the session started
+}
+
+export interface SessionTranscript {
+  sessionId: string;
+  type: 'chat' | 'voice' | 'video';
+  startedAt: string | null;
+  endedAt: string | null;
+  client: { id: string; name: string };
+  reader: { id: string; name: string };
+  messages: TranscriptEntry[];
+}
+
+async function getParticipants(session: ReadingSession) {
+  const [client, reader] = await Promise.all([
+    db.query.users.findFirst({
+      where: eq(users.id, session.clientId),
+      columns: { id: true, firstName: true, lastName: true, profileImage: true },
+    }),
+    db.query.users.findFirst({
+      where: eq(users.id, session.readerId),
+      columns: { id: true, firstName: true, lastName: true, profileImage: true },
+      with: {
+        readerProfile: {
+          columns: { displayName: true },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    client: {
+      id: session.clientId,
+      name: [client?.firstName, client?.lastName].filter(Boolean).join(' ') || 'Client',
+      avatar: client?.profileImage ?? undefined,
+    },
+    reader: {
+      id: session.readerId,
+      name: reader?.readerProfile?.displayName || reader?.firstName || 'Reader',
+      avatar: reader?.profileImage ?? undefined,
+    },
+  };
+}
+
+function formatOffset(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Store a chat message from a session participant and relay it to the
+ * session channel. The stored row is the source of truth; realtime delivery
+ * is best effort.
+ */
+export async function saveSessionMessage(
+  senderId: string,
+  input: SendSessionMessageInput
+): Promise<SessionMessage> {
+  const { sessionId } = input;
+  const session = await db.query.readingSessions.findFirst({
+    where: eq(readingSessions.id, sessionId),
+  });
+
+  if (!session || (session.clientId !== senderId && session.readerId !== senderId)) {
+    throw new Error('Session not found');
+  }
+
+  if (session.status !== 'active') {
+    throw new Error('Session is not active');
+  }
+
+  const [message] = await db
+    .insert(sessionMessages)
+    .values({
+      sessionId,
+      senderId,
+      type: input.type,
+      content: input.content,
+      metadata: input.metadata,
+    })
+    .returning();
+
+  try {
+    const { client, reader } = await getParticipants(session);
+    const sender = senderId === client.id ? client : reader;
+
+    const chatMessage: ChatMessage = {
+      id: message.id,
+      type: input.type,
+      content: message.content,
+      senderId,
+      senderName: sender.name,
+      senderAvatar: sender.avatar,
+      timestamp: (message.createdAt || new Date()).toISOString(),
+      metadata: input.metadata,
+    };
+
+    await ablyService.publishSessionMessage(sessionId, chatMessage);
+  } catch (error) {
+    console.error('Failed to publish session message:', error);
+  }
+
+  return message;
+}
+
+/**
+ * One page of a session's chat history. Page 1 is the most recent messages;
+ * each page is returned oldest first so it can be prepended as-is.
+ */
+export async function getSessionMessages(
+  sessionId: string,
+  options: { page?: number; limit?: number } = {}
+): Promise<SessionMessage[]> {
+  const page = Math.max(1, options.page || 1);
+  const limit = options.limit || 50;
+
+  const messages = await db.query.sessionMessages.findMany({
+    where: eq(sessionMessages.sessionId, sessionId),
+    orderBy: [desc(sessionMessages.createdAt)],
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+  return messages.reverse();
+}
+
+/**
+ * Every message in a session with sender names and offsets from the start
+ */
+export async function buildSessionTranscript(sessionId: string): Promise<SessionTranscript | null> {
+  const session = await db.query.readingSessions.findFirst({
+    where: eq(readingSessions.id, sessionId),
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const [{ client, reader }, messages] = await Promise.all([
+    getParticipants(session),
+    db.query.sessionMessages.findMany({
+      where: eq(sessionMessages.sessionId, sessionId),
+      orderBy: [asc(sessionMessages.createdAt)],
+    }),
+  ]);
+
+  return {
+    sessionId: session.id,
+    type: session.type,
+    startedAt: session.startedAt?.toISOString() ?? null,
+    endedAt: session.endedAt?.toISOString() ?? null,
+    client: { id: client.id, name: client.name },
+    reader: { id: reader.id, name: reader.name },
+    messages: messages.map((message) => {
+      const isClient = message.senderId === session.clientId;
+
+      return {
+        id: message.id,
+        senderId: message.senderId,
+        senderName: isClient ? client.name : reader.name,
+        role: isClient ? 'client' : 'reader',
+        type: message.type,
+        content: message.content,
+        createdAt: message.createdAt?.toISOString() ?? null,
+        offsetSeconds:
+          session.startedAt && message.createdAt
+            ? Math.max(0, Math.floor((message.createdAt.getTime() - session.startedAt.getTime()) / 1000))
+            : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Plain-text transcript, one line per message: "[mm:ss] Name: content"
+ */
+export function formatTranscriptText(transcript: SessionTranscript): string {
+  return transcript.messages
+    .map((message) => {
+      const offset = message.offsetSeconds !== null ? `[${formatOffset(message.offsetSeconds)}] ` : '';
+      const content = message.type === 'text' ? message.content : `(${message.type}) ${message.content}`;
+      return `${offset}${message.senderName}: ${content.replace(/\s*\n\s*/g, ' ')}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Write the compact transcript onto the session once it has ended
+ */
+export async function saveSessionTranscript(sessionId: string): Promise<string | null> {
+  const transcript = await buildSessionTranscript(sessionId);
+
+  if (!transcript || transcript.messages.length === 0) {
+    return null;
+  }
+
+  const text = formatTranscriptText(transcript);
+
+  await db
+    .update(readingSessions)
+    .set({ transcript: text, updatedAt: new Date() })
+    .where(eq(readingSessions.id, sessionId));
+
+  return text;
+}
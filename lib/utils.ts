@@ -214,6 +214,56 @@ function getTimezoneOffsetInMinutes(timeZone: string): number {
   return (target.getTime() - utc.getTime()) / (1000 * 60);
 }
 
+/**
+ * Calendar date (YYYY-MM-DD) and wall-clock time (HH:mm) of an instant in a time zone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '00';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+/**
+ * Offset of a time zone from UTC in minutes at a given instant (DST aware)
+ */
+export function getTimeZoneOffsetAt(date: Date, timeZone: string): number {
+  const { date: day, time } = getZonedDateParts(date, timeZone);
+  const [year, month, dayOfMonth] = day.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, dayOfMonth, hour, minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to the UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Correct with the offset at the guessed instant, then again in case the
+  // first guess landed on the other side of a DST change
+  let instant = wallClock - getTimeZoneOffsetAt(new Date(wallClock), timeZone) * 60000;
+  instant = wallClock - getTimeZoneOffsetAt(new Date(instant), timeZone) * 60000;
+
+  return new Date(instant);
+}
+
 export function validatePassword(password: string): {
   isValid: boolean;
   errors: string[];
@@ -60,6 +60,7 @@ export const readerStatusSchema = z.object({
 export const startReadingSessionSchema = z.object({
   readerId: z.string().uuid(),
   type: z.enum(['chat', 'voice', 'video']),
+  couponCode: z.string().max(50).optional(),
 });
 
 export const endReadingSessionSchema = z.object({
@@ -74,6 +75,63 @@ export const rateSessionSchema = z.object({
   review: z.string().max(1000).optional(),
 });
 
+export const joinWaitlistSchema = z.object({
+  type: z.enum(['chat', 'voice', 'video']),
+  couponCode: z.string().max(50).optional(),
+});
+
+// Promotion validation schemas
+const timeOfDaySchema = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/);
+
+export const createPromotionSchema = z.object({
+  readerId: z.string().uuid().optional(), // Admins only; omit for a platform-wide promotion
+  name: z.string().min(3, 'Name must be at least 3 characters').max(100),
+  kind: z.enum(['free_minutes', 'discount']),
+  freeMinutes: z.number().int().min(1).max(60).optional(),
+  discountPercent: z.number().min(1).max(100).optional(),
+  sessionTypes: z.array(z.enum(['chat', 'voice', 'video'])).min(1).optional(),
+  newClientsOnly: z.boolean().default(false),
+  schedule: z.object({
+    days: z.array(z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'])).min(1).optional(),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  }).optional(),
+  couponCode: z.string().min(3).max(50).regex(/^[A-Za-z0-9_-]+$/, 'Coupon codes can only contain letters, numbers, dashes and underscores').optional(),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime().optional(),
+  maxRedemptions: z.number().int().min(1).optional(),
+  maxRedemptionsPerClient: z.number().int().min(1).optional(),
+}).refine(
+  (data) => (data.kind === 'free_minutes' ? !!data.freeMinutes : !!data.discountPercent),
+  { message: 'Free minutes promotions need freeMinutes and discounts need discountPercent' }
+);
+
+export const updatePromotionSchema = z.object({
+  name: z.string().min(3).max(100).optional(),
+  isActive: z.boolean().optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime().nullable().optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  maxRedemptionsPerClient: z.number().int().min(1).nullable().optional(),
+});
+
+// Booking validation schemas
+export const createBookingSchema = z.object({
+  readerId: z.string().uuid(),
+  type: z.enum(['chat', 'voice', 'video']),
+  startsAt: z.string().datetime(),
+  durationMinutes: z.union([z.literal(15), z.literal(30), z.literal(45), z.literal(60)]),
+  notes: z.string().max(1000).optional(),
+});
+
+export const rescheduleBookingSchema = z.object({
+  startsAt: z.string().datetime(),
+});
+
+export const cancelBookingSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
 // Message validation schemas
 export const sendMessageSchema = z.object({
   conversationId: z.string().uuid().optional(),
@@ -114,6 +172,46 @@ export const sendVirtualGiftSchema = z.object({
   message: z.string().max(200).optional(),
 });
 
+export const sendStreamGiftSchema = sendVirtualGiftSchema.pick({
+  type: true,
+  quantity: true,
+  message: true,
+});
+
+export const streamInviteSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const sendStreamChatSchema = z.object({
+  content: z.string().trim().min(1, 'Message cannot be empty').max(500),
+});
+
+export const removeStreamChatMessageSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const streamLikeSchema = z.object({
+  liked: z.boolean(),
+});
+
+export const streamRsvpSchema = z.object({
+  attending: z.boolean(),
+});
+
+// Recording validation schemas
+export const recordingConsentSchema = z.object({
+  consent: z.boolean(),
+});
+
+// Agora token validation schema
+export const agoraTokenSchema = z.object({
+  sessionId: z.string().uuid().optional(),
+  streamId: z.string().uuid().optional(),
+}).refine(
+  (data) => !!data.sessionId !== !!data.streamId,
+  { message: 'Provide either a sessionId or a streamId' }
+);
+
 // Product validation schemas
 export const createProductSchema = z.object({
   name: z.string().min(3, 'Product name must be at least 3 characters').max(255),
@@ -149,6 +247,22 @@ export const productReviewSchema = z.object({
   content: z.string().min(10).max(2000),
 });
 
+export const updateProductReviewSchema = productReviewSchema.omit({ productId: true }).partial();
+
+export const reviewResponseSchema = z.object({
+  response: z.string().min(1).max(2000),
+});
+
+export const productFileUploadSchema = z.object({
+  name: z.string().min(1).max(255),
+  size: z.number().int().min(1),
+  contentType: z.string().min(1).max(255),
+});
+
+export const addProductFileSchema = productFileUploadSchema.extend({
+  storageKey: z.string().min(1).max(1024),
+});
+
 // Order validation schemas
 export const createOrderSchema = z.object({
   items: z.array(z.object({
@@ -175,6 +289,31 @@ export const createOrderSchema = z.object({
   }).optional(),
 });
 
+export const addToCartSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().int().min(1).max(100).default(1),
+});
+
+export const updateCartItemSchema = z.object({
+  quantity: z.number().int().min(1).max(100),
+});
+
+export const checkoutSchema = createOrderSchema.omit({ items: true }).extend({
+  paymentMethod: z.enum(['balance', 'card']),
+  paymentMethodId: z.string().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export const shipOrderSchema = z.object({
+  itemIds: z.array(z.string().uuid()).min(1).optional(), // Defaults to every item still to ship
+  carrier: z.enum(['usps', 'ups', 'fedex', 'dhl', 'other']),
+  trackingNumber: z.string().trim().min(1).max(100),
+});
+
+export const marketplaceFeeSchema = z.object({
+  feePercentage: z.number().min(0).max(100),
+});
+
 // Payment validation schemas
 export const addFundsSchema = z.object({
   amount: z.number().min(5, 'Minimum amount is $5').max(500, 'Maximum amount is $500'),
@@ -182,6 +321,13 @@ export const addFundsSchema = z.object({
   savePaymentMethod: z.boolean().default(false),
 });
 
+export const autoReloadSettingsSchema = z.object({
+  enabled: z.boolean(),
+  amount: z.number().min(10, 'Minimum reload amount is $10').max(500, 'Maximum reload amount is $500'),
+  threshold: z.number().min(1, 'Minimum threshold is $1').max(100, 'Maximum threshold is $100'),
+  paymentMethodId: z.string().optional(),
+});
+
 export const withdrawFundsSchema = z.object({
   amount: z.number().min(15, 'Minimum withdrawal is $15'),
 });
@@ -356,14 +502,36 @@ export type ReaderApplicationInput = z.infer<typeof readerApplicationSchema>;
 export type UpdateReaderProfileInput = z.infer<typeof updateReaderProfileSchema>;
 export type StartReadingSessionInput = z.infer<typeof startReadingSessionSchema>;
 export type EndReadingSessionInput = z.infer<typeof endReadingSessionSchema>;
+export type SendSessionMessageInput = z.infer<typeof sendSessionMessageSchema>;
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistSchema>;
+export type CreatePromotionInput = z.infer<typeof createPromotionSchema>;
+export type UpdatePromotionInput = z.infer<typeof updatePromotionSchema>;
+export type CreateBookingInput = z.infer<typeof createBookingSchema>;
+export type RescheduleBookingInput = z.infer<typeof rescheduleBookingSchema>;
+export type CancelBookingInput = z.infer<typeof cancelBookingSchema>;
 export type SendMessageInput = z.infer<typeof sendMessageSchema>;
 export type CreateLiveStreamInput = z.infer<typeof createLiveStreamSchema>;
 export type SendVirtualGiftInput = z.infer<typeof sendVirtualGiftSchema>;
+export type SendStreamGiftInput = z.infer<typeof sendStreamGiftSchema>;
+export type StreamInviteInput = z.infer<typeof streamInviteSchema>;
+export type SendStreamChatInput = z.infer<typeof sendStreamChatSchema>;
+export type AgoraTokenInput = z.infer<typeof agoraTokenSchema>;
+export type RecordingConsentInput = z.infer<typeof recordingConsentSchema>;
 export type CreateProductInput = z.infer<typeof createProductSchema>;
+export type ProductReviewInput = z.infer<typeof productReviewSchema>;
+export type UpdateProductReviewInput = z.infer<typeof updateProductReviewSchema>;
+export type ProductFileUploadInput = z.infer<typeof productFileUploadSchema>;
+export type AddProductFileInput = z.infer<typeof addProductFileSchema>;
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type AddToCartInput = z.infer<typeof addToCartSchema>;
+export type CheckoutInput = z.infer<typeof checkoutSchema>;
+export type ShipOrderInput = z.infer<typeof shipOrderSchema>;
+export type MarketplaceFeeInput = z.infer<typeof marketplaceFeeSchema>;
 export type AddFundsInput = z.infer<typeof addFundsSchema>;
+export type AutoReloadSettingsInput = z.infer<typeof autoReloadSettingsSchema>;
 export type CreateForumPostInput = z.infer<typeof createForumPostSchema>;
 export type CreateDisputeInput = z.infer<typeof createDisputeSchema>;
+export type UpdateDisputeInput = z.infer<typeof updateDisputeSchema>;
 export type SearchReadersInput = z.infer<typeof searchReadersSchema>;
 export type SearchProductsInput = z.infer<typeof searchProductsSchema>;
 export type TrackEventInput = z.infer<typeof trackEventSchema>;
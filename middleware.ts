@@ -10,6 +10,8 @@ export default authMiddleware({
     '/api/agora/(.*)',
     '/api/ably/(.*)',
     '/api/stripe/webhook',
+    '/api/calendar/(.*)', // Calendar apps fetch feeds without a session; the URL is the credential
+    '/api/shop/downloads/(.*)', // Signed download links work from any device
     '/live/(.*)', // Allow viewing live streams without auth
     '/readers/(.*)', // Allow browsing readers without auth
     '/shop/(.*)', // Allow browsing shop without auth